@@ -1,327 +1,738 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { GameStatus, GameState, Challenge, Difficulty } from './types';
-import { generateChallenge } from './services/geminiService';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { GameStatus, Challenge, Difficulty, ChallengeSource, AnswerAttempt, GameMode, Locale, HintType, ChallengeHints, RoundScore, AnswerStyle, ReverseChallenge, ReverseVerdict, BoardRanks, isReverseChallenge } from './types';
+import { generateChallenge, generateReverseChallenge, revealAnswers, fetchDailyChallenges, fetchHint, reportPause, submitRun } from './services/geminiService';
+import { preloadChallengeImages } from './services/cardImages';
 import GameScreen from './components/GameScreen';
-import { BrainCircuit, Trophy, RotateCcw, Play, Zap, ShieldCheck, Flame, AlertCircle } from 'lucide-react';
-
-const TIME_LIMITS = {
-  [Difficulty.EASY]: 90,
-  [Difficulty.MEDIUM]: 60,
-  [Difficulty.HARD]: 45
-};
+import ReverseScreen from './components/ReverseScreen';
+import GameReview from './components/GameReview';
+import StatsScreen from './components/StatsScreen';
+import ScoreBreakdown from './components/ScoreBreakdown';
+import ChainPath from './components/ChainPath';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import HeadToHeadScreen from './components/HeadToHeadScreen';
+import { loadProfiles, saveProfiles, getActiveProfile, recordGame } from './services/profileStore';
+import { todayKey, loadDailyResult, saveDailyResult, buildDailyResult, buildShareGrid, buildShareText, DailyResult } from './services/dailyResults';
+import { createChallengeBuffer } from './services/challengeBuffer';
+import { sumRoundScores } from './services/scoring';
+import { roundPenaltyRules } from './services/penalties';
+import { EngineState, GameEngine, HINT_TIME_COSTS, LoadFailure, RoundRequest, TIME_LIMITS, createGameEngine, toRunEvents } from './services/gameEngine';
+import { I18nContext, LOCALES, MESSAGES, loadLocale, saveLocale, useI18n } from './services/i18n';
+import { BrainCircuit, Trophy, RotateCcw, Play, Zap, ShieldCheck, Flame, AlertCircle, Sparkles, WifiOff, Shuffle, ListChecks, BarChart3, User, CalendarDays, Share2, Check, Languages, Link2, Keyboard, LayoutGrid, Grid3x3, Swords, MonitorPlay } from 'lucide-react';
 
 // --- Reusable Loading Overlay ---
-const LoadingOverlay = ({ message }: { message: string }) => (
-  <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/90 backdrop-blur-md animate-in fade-in duration-300">
-    <div className="relative mb-8">
-      {/* Outer spinning ring */}
-      <div className="w-24 h-24 border-4 border-slate-800 border-t-emerald-500 rounded-full animate-spin shadow-2xl shadow-emerald-500/20"></div>
+const LoadingOverlay = ({ message }: { message: string }) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-slate-950/90 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="relative mb-8">
+        {/* Outer spinning ring */}
+        <div className="w-24 h-24 border-4 border-slate-800 border-t-emerald-500 rounded-full animate-spin shadow-2xl shadow-emerald-500/20"></div>
       
-      {/* Middle pulsing ring */}
-      <div className="absolute inset-0 m-2 border-4 border-slate-800 border-b-blue-500 rounded-full animate-spin-reverse opacity-70"></div>
+        {/* Middle pulsing ring */}
+        <div className="absolute inset-0 m-2 border-4 border-slate-800 border-b-blue-500 rounded-full animate-spin-reverse opacity-70"></div>
       
-      {/* Center glowing dot */}
-      <div className="absolute inset-0 flex items-center justify-center">
-        <div className="w-4 h-4 bg-white rounded-full animate-ping shadow-[0_0_15px_white]"></div>
+        {/* Center glowing dot */}
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="w-4 h-4 bg-white rounded-full animate-ping shadow-[0_0_15px_white]"></div>
+        </div>
       </div>
-    </div>
     
-    <h3 className="text-2xl font-bold text-white tracking-wide mb-2 animate-pulse">
-      {message}
-    </h3>
-    <p className="text-slate-400 text-sm font-mono tracking-widest uppercase">
-      جاري المعالجة...
-    </p>
+      <h3 className="text-2xl font-bold text-white tracking-wide mb-2 animate-pulse">
+        {message}
+      </h3>
+      <p className="text-slate-400 text-sm font-mono tracking-widest uppercase">
+        {t.processing}
+      </p>
     
-    <style>{`
-      @keyframes spin-reverse {
-        from { transform: rotate(360deg); }
-        to { transform: rotate(0deg); }
-      }
-      .animate-spin-reverse {
-        animation: spin-reverse 3s linear infinite;
-      }
-    `}</style>
-  </div>
-);
+      <style>{`
+        @keyframes spin-reverse {
+          from { transform: rotate(360deg); }
+          to { transform: rotate(0deg); }
+        }
+        .animate-spin-reverse {
+          animation: spin-reverse 3s linear infinite;
+        }
+      `}</style>
+    </div>
+  );
+};
 
 export default function App() {
-  const [gameState, setGameState] = useState<GameState>({
-    status: GameStatus.IDLE,
-    score: 0,
-    timeLeft: TIME_LIMITS[Difficulty.MEDIUM],
-    currentChallenge: null,
-    message: null,
-    difficulty: Difficulty.MEDIUM,
-    history: [],
-    seenEntities: []
-  });
-
-  const [highScore, setHighScore] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-  const [isValidating, setIsValidating] = useState(false);
-
-  // Timer Effect
-  useEffect(() => {
-    let timer: ReturnType<typeof setInterval>;
-    if (gameState.status === GameStatus.PLAYING && gameState.timeLeft > 0) {
-      timer = setInterval(() => {
-        setGameState(prev => {
-          if (prev.timeLeft <= 1) {
-            return { ...prev, timeLeft: 0, status: GameStatus.GAME_OVER };
-          }
-          return { ...prev, timeLeft: prev.timeLeft - 1 };
-        });
-      }, 1000);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const [profiles, setProfiles] = useState(() => loadProfiles(MESSAGES[locale].defaultPlayerName));
+  const [isNewRecord, setIsNewRecord] = useState(false);
+  const [challengeSource, setChallengeSource] = useState<ChallengeSource>(ChallengeSource.AUTO);
+  const [answerStyle, setAnswerStyle] = useState<AnswerStyle>(AnswerStyle.TYPED);
+  const [dailyResult, setDailyResult] = useState<DailyResult | null>(() => loadDailyResult(todayKey()));
+  const [shareCopied, setShareCopied] = useState(false);
+  const [boardRanks, setBoardRanks] = useState<BoardRanks | null>(null);
+
+  const gameRecorded = useRef(false);
+  // Daily puzzles still to be played, in order
+  const dailyQueue = useRef<Challenge[]>([]);
+  // Classic rounds generated ahead of time while the current one is played
+  const challengeBuffer = useRef(createChallengeBuffer());
+  // The active profile, for the loader below: it is created once, with the first render's state
+  const profileId = useRef('');
+
+  // Where the engine's rounds come from: the day's fixed run, the prefetch buffer or the server
+  const loadRound = async ({ mode, difficulty, settings, roundNumber, seenEntities, chainAnchor }: RoundRequest) => {
+    if (roundNumber === 0) {
+      challengeBuffer.current.reset(mode === GameMode.CLASSIC ? { difficulty, ...settings } : null);
     }
-    return () => clearInterval(timer);
-  }, [gameState.status, gameState.timeLeft]);
-
-  // Load first challenge when starting
-  const startGame = async () => {
-    setError(null);
-    setGameState(prev => ({
-      ...prev,
-      status: GameStatus.LOADING_CHALLENGE,
-      score: 0,
-      timeLeft: TIME_LIMITS[prev.difficulty],
-      history: [],
-      seenEntities: [] // Reset seen entities on new game
-    }));
 
-    try {
-      const challenge = await generateChallenge(gameState.difficulty, []);
-      
-      // Update seen entities
-      const newSeen = [challenge.cardA.name, challenge.cardB.name];
-
-      setGameState(prev => ({
-        ...prev,
-        status: GameStatus.PLAYING,
-        currentChallenge: challenge,
-        seenEntities: newSeen
-      }));
-    } catch (e) {
-      console.error("Failed to start game:", e);
-      setGameState(prev => ({ ...prev, status: GameStatus.IDLE }));
-      setError("الخوادم مشغولة حالياً أو انتهت حصة الاستخدام. يرجى المحاولة لاحقاً.");
+    let challenge: Challenge | ReverseChallenge | null;
+    if (mode === GameMode.DAILY && roundNumber === 0) {
+      const date = todayKey();
+      const [first, ...rest] = await fetchDailyChallenges(date, settings.locale, settings.gameId, profileId.current);
+      // The one attempt counts from the moment the puzzles are served, so reloading mid-run doesn't
+      // give another; the server only ranks the first run each player starts on a date
+      const attempt = buildDailyResult(date, 0, []);
+      saveDailyResult(attempt);
+      setDailyResult(attempt);
+      dailyQueue.current = rest;
+      challenge = first || null;
+      // The rest of the run loads in the background while the first puzzle is played
+      rest.forEach(next => preloadChallengeImages(next));
+    } else if (mode === GameMode.DAILY) {
+      // The daily run is a fixed sequence: it ends after its last puzzle
+      challenge = dailyQueue.current.shift() || null;
+    } else if (mode === GameMode.REVERSE) {
+      challenge = await generateReverseChallenge(difficulty, seenEntities, settings.locale, settings.gameId);
+    } else {
+      // A prefetched challenge starts right away; only an empty buffer falls back to loading one
+      challenge = challengeBuffer.current.take() || await generateChallenge(
+        difficulty,
+        seenEntities,
+        settings.source,
+        settings.locale,
+        { gameId: settings.gameId, cardA: chainAnchor || undefined, answerStyle: settings.answerStyle }
+      );
     }
+
+    // The clock starts once the cards' images are ready, so they don't pop in mid-round
+    if (challenge) await preloadChallengeImages(challenge);
+    return challenge;
   };
 
-  // Load next challenge
-  const handleNextRound = async (bonusTime: number) => {
-    setError(null);
-    // Optimistically update score and set loading
-    setGameState(prev => ({
-      ...prev,
-      score: bonusTime > 0 ? prev.score + 1 : prev.score,
-      timeLeft: prev.timeLeft + bonusTime,
-      status: GameStatus.LOADING_CHALLENGE
-    }));
+  // The game runs in the engine; this component renders its state and passes the player's moves on
+  const engineRef = useRef<GameEngine | null>(null);
+  if (!engineRef.current) engineRef.current = createGameEngine({ load: loadRound });
+  const engine = engineRef.current;
+  const engineState: EngineState = useSyncExternalStore(engine.subscribe, engine.getState);
+  const gameState = engineState.game;
 
-    try {
-      const challenge = await generateChallenge(gameState.difficulty, gameState.seenEntities);
-      
-      setGameState(prev => ({
-        ...prev,
-        status: GameStatus.PLAYING,
-        currentChallenge: challenge,
-        seenEntities: [...prev.seenEntities, challenge.cardA.name, challenge.cardB.name]
-      }));
-    } catch (e) {
-       console.error("Failed to load next round:", e);
-       // If next round fails, we can either end the game or let them try again.
-       // Ending the game saves the score.
-       setGameState(prev => ({ ...prev, status: GameStatus.GAME_OVER }));
-       setError("حدث خطأ أثناء تحميل السؤال التالي.");
+  const t = MESSAGES[locale];
+  const activeProfile = getActiveProfile(profiles);
+  profileId.current = activeProfile.id;
+  const highScore = activeProfile.stats[gameState.difficulty].bestScore;
+  const error = engineState.loadFailure === LoadFailure.START ? t.serversBusy
+    : engineState.loadFailure === LoadFailure.NEXT_ROUND ? t.nextRoundFailed
+    : null;
+
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+
+  // Keep the document language and direction in step with the chosen locale
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  // Hiding the tab pauses a round in play; the player resumes it from the pause screen. Anywhere
+  // else (menu, loading, results) there is no clock to stop and no round to report the pause on.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden && engine.getState().game.status === GameStatus.PLAYING) setPaused(true);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Keep the prefetch buffer topped up whenever a new classic round appears (start, skip or success)
+  useEffect(() => {
+    if (gameState.status !== GameStatus.PLAYING || gameState.mode !== GameMode.CLASSIC) return;
+    challengeBuffer.current.refill(gameState.seenEntities);
+  }, [gameState.status, gameState.mode, gameState.seenEntities]);
+
+  // When the game ends, nothing more needs prefetching
+  useEffect(() => {
+    if (gameState.status === GameStatus.GAME_OVER) challengeBuffer.current.reset(null);
+  }, [gameState.status]);
+
+  // Save the finished game once: daily runs go to the daily log, classic games to the active profile.
+  // Chain and reverse games score on another scale, so they stay out of the per-difficulty records.
+  useEffect(() => {
+    if (gameState.status !== GameStatus.GAME_OVER || gameRecorded.current) return;
+    gameRecorded.current = true;
+    if (gameState.mode === GameMode.DAILY) {
+      const result = buildDailyResult(todayKey(), gameState.score, gameState.history);
+      saveDailyResult(result);
+      setDailyResult(result);
+      return;
     }
+    if (gameState.mode !== GameMode.CLASSIC) return;
+    setIsNewRecord(gameState.score > 0 && gameState.score > highScore);
+    setProfiles(prev => recordGame(prev, {
+      difficulty: gameState.difficulty,
+      score: gameState.score,
+      history: gameState.history
+    }));
+  }, [gameState.status]);
+
+  // Once the game is over, the accepted answers can be revealed
+  const unrevealedIds = gameState.history
+    .filter(round => !round.acceptedAnswers)
+    .map(round => round.challengeId)
+    .join(',');
+  useEffect(() => {
+    if (gameState.status !== GameStatus.GAME_OVER || !unrevealedIds) return;
+    let cancelled = false;
+
+    revealAnswers(unrevealedIds.split(','))
+      .then(answers => {
+        if (!cancelled) engine.dispatch({ type: 'ANSWERS_REVEALED', answers });
+      })
+      .catch(e => console.error("Failed to reveal answers:", e));
+
+    return () => { cancelled = true; };
+  }, [gameState.status, unrevealedIds]);
+
+  const startGame = (mode: GameMode = gameState.mode) => {
+    gameRecorded.current = false;
+    setIsNewRecord(false);
+    setBoardRanks(null);
+    engine.dispatch({
+      type: 'GAME_STARTED',
+      mode,
+      difficulty: gameState.difficulty,
+      settings: { gameId: crypto.randomUUID(), source: challengeSource, answerStyle, locale }
+    });
+  };
+
+  // Applies a verdict to the round on screen and reads back what it scored or cost
+  const handleVerdict = (attempt: AnswerAttempt) => {
+    engine.dispatch({ type: 'VERDICT', attempt });
+    const { round } = engine.getState();
+    return attempt.isCorrect ? { score: round.score, penalty: null } : { score: null, penalty: round.penalty };
   };
 
+  const handlePicksSubmitted = (picked: number[]) => {
+    const challenge = gameState.currentChallenge as ReverseChallenge;
+    engine.dispatch({ type: 'ANSWER_SUBMITTED', answer: picked.map(index => challenge.grid[index].name).join(' · ') });
+  };
+
+  const handlePicksChecked = (picked: number[], verdict: ReverseVerdict): RoundScore => {
+    engine.dispatch({ type: 'PICKS_CHECKED', picked, verdict });
+    return engine.getState().round.score;
+  };
+
+  // Buys the next hint tier for the round on screen: the server hands it out, the clock pays for it
+  const handleHint = async (type: HintType): Promise<ChallengeHints> => {
+    const challengeId = gameState.currentChallenge?.id;
+    if (!challengeId) throw new Error('No challenge on screen');
+    const hints = await fetchHint(challengeId, type);
+    engine.dispatch({ type: 'HINT_BOUGHT', hint: type });
+    return hints;
+  };
+
+  // Sends the whole run, not just the score: the server replays it and ranks its own score
+  const handleSubmitRun = async (nickname: string) => {
+    const { ranks } = await submitRun(toRunEvents(engine.events()), nickname);
+    setBoardRanks(ranks);
+  };
+
+  // The server notes each pause against the round on screen, or the leaderboard turns the run down
+  const setPaused = (paused: boolean) => {
+    const challengeId = engine.getState().game.currentChallenge?.id;
+    if (challengeId) reportPause(challengeId, paused).catch(e => console.error("Failed to report the pause:", e));
+    engine.dispatch({ type: 'PAUSE_CHANGED', paused });
+  };
+  const nextRound = () => engine.dispatch({ type: 'NEXT_ROUND' });
+  const skipRound = () => engine.dispatch({ type: 'ROUND_SKIPPED' });
+  const showScreen = (status: GameStatus.IDLE | GameStatus.STATS | GameStatus.REVIEW | GameStatus.GAME_OVER | GameStatus.HEAD_TO_HEAD) =>
+    engine.dispatch({ type: 'SCREEN_SHOWN', status });
+
   const resetGame = () => {
-    if (gameState.score > highScore) {
-      setHighScore(gameState.score);
-    }
-    setError(null);
-    setGameState(prev => ({ ...prev, status: GameStatus.IDLE }));
+    setDailyResult(loadDailyResult(todayKey()));
+    challengeBuffer.current.reset(null);
+    showScreen(GameStatus.IDLE);
   };
 
   const setDifficulty = (level: Difficulty) => {
-    setGameState(prev => ({ ...prev, difficulty: level }));
+    engine.dispatch({ type: 'DIFFICULTY_SET', difficulty: level });
+  };
+
+  const shareDailyResult = async (result: DailyResult) => {
+    const text = buildShareText(result, locale);
+    try {
+      if (navigator.share) {
+        await navigator.share({ text });
+        return;
+      }
+      await navigator.clipboard.writeText(text);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch (e) {
+      console.warn("Sharing was cancelled or is not available:", e);
+    }
   };
 
-  // Determine which loading message to show, if any
+  const shareButton = (result: DailyResult) => (
+    <button
+      onClick={() => shareDailyResult(result)}
+      className="flex items-center justify-center gap-2 bg-slate-900 hover:bg-slate-800 border border-slate-700 text-slate-200 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+    >
+      {shareCopied ? <Check className="w-4 h-4 text-emerald-400" /> : <Share2 className="w-4 h-4" />}
+      {shareCopied ? t.copied : t.shareResult}
+    </button>
+  );
+
+  const scoredRounds = gameState.history.flatMap(round => (round.score ? [round.score] : []));
+
+  // Determine which loading message to show, if any. A multiple-choice pick shows its check on its own button.
+  const current = gameState.currentChallenge;
+  const isPickingChoice = !!current && !isReverseChallenge(current) && !!current.choices?.length;
+  const isValidating = engineState.clock.waiting && !isPickingChoice;
   const showLoading = gameState.status === GameStatus.LOADING_CHALLENGE || isValidating;
-  const loadingMessage = isValidating ? "جاري التحقق من الإجابة..." : "جاري تحضير اللغز التالي...";
+  const loadingMessage = isValidating ? t.validatingAnswer : t.preparingNextPuzzle;
 
   return (
-    <div dir="rtl" className="min-h-screen bg-slate-950 text-white font-sans selection:bg-emerald-500 selection:text-white">
-      {/* Background Ambience */}
-      <div className="fixed inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-900 via-slate-950 to-black -z-10"></div>
-      <div className="fixed inset-0 opacity-20 bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')] pointer-events-none -z-10"></div>
+    <I18nContext.Provider value={{ locale, t }}>
+      <div dir={LOCALES[locale].dir} className="min-h-screen bg-slate-950 text-white font-sans selection:bg-emerald-500 selection:text-white">
+        {/* Background Ambience */}
+        <div className="fixed inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-900 via-slate-950 to-black -z-10"></div>
+        <div className="fixed inset-0 opacity-20 bg-[url('https://www.transparenttextures.com/patterns/carbon-fibre.png')] pointer-events-none -z-10"></div>
 
-      {/* Global Loading Overlay */}
-      {showLoading && <LoadingOverlay message={loadingMessage} />}
+        {/* Global Loading Overlay */}
+        {showLoading && <LoadingOverlay message={loadingMessage} />}
 
-      {/* Main Content Switcher */}
-      <main className="container mx-auto px-4 min-h-screen flex flex-col">
+        {/* Main Content Switcher */}
+        <main className="container mx-auto px-4 min-h-screen flex flex-col">
         
-        {/* App Title (Small in game, big in menu) */}
-        <header className={`py-6 flex justify-center transition-all duration-500 ${gameState.status === GameStatus.IDLE ? 'scale-100 mt-10' : 'scale-75 mt-0 opacity-50'}`}>
-           <div className="flex items-center gap-3">
-             <div className="bg-emerald-500 p-2 rounded-lg rotate-3 shadow-[0_0_15px_rgba(16,185,129,0.5)]">
-               <BrainCircuit className="w-8 h-8 text-slate-900" />
+          {/* App Title (Small in game, big in menu) */}
+          <header className={`py-6 flex justify-center transition-all duration-500 ${gameState.status === GameStatus.IDLE ? 'scale-100 mt-10' : 'scale-75 mt-0 opacity-50'}`}>
+             <div className="flex items-center gap-3">
+               <div className="bg-emerald-500 p-2 rounded-lg rotate-3 shadow-[0_0_15px_rgba(16,185,129,0.5)]">
+                 <BrainCircuit className="w-8 h-8 text-slate-900" />
+               </div>
+               <h1 className="text-3xl md:text-5xl font-black tracking-tighter bg-gradient-to-r from-white to-slate-400 bg-clip-text text-transparent">
+                 {t.appTitle} <span className="text-emerald-500">{t.appTitleAccent}</span>
+               </h1>
              </div>
-             <h1 className="text-3xl md:text-5xl font-black tracking-tighter bg-gradient-to-r from-white to-slate-400 bg-clip-text text-transparent">
-               سبرينت <span className="text-emerald-500">الكرة</span>
-             </h1>
-           </div>
-        </header>
-
-        {/* Error Banner */}
-        {error && (
-          <div className="max-w-md mx-auto mb-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-xl flex items-center gap-2 animate-in slide-in-from-top-2">
-            <AlertCircle className="w-5 h-5 shrink-0" />
-            <p className="text-sm font-medium">{error}</p>
-          </div>
-        )}
-
-        {/* --- IDLE SCREEN --- */}
-        {gameState.status === GameStatus.IDLE && (
-          <div className="flex-1 flex flex-col items-center justify-center max-w-2xl mx-auto text-center space-y-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
-            
-            <div className="space-y-4">
-              <p className="text-xl md:text-2xl text-slate-300 leading-relaxed">
-                اختبر معلوماتك الكروية في تحدي السرعة.
-                <br />
-                نظهر لك كرتين، وأنت تعطينا <span className="text-emerald-400 font-bold">الرابط</span>.
-              </p>
+          </header>
+
+          {/* Error Banner */}
+          {error && (
+            <div className="max-w-md mx-auto mb-4 bg-red-500/10 border border-red-500/20 text-red-400 px-4 py-3 rounded-xl flex items-center gap-2 animate-in slide-in-from-top-2">
+              <AlertCircle className="w-5 h-5 shrink-0" />
+              <p className="text-sm font-medium">{error}</p>
             </div>
+          )}
 
-            {/* Difficulty Selector */}
-            <div className="w-full max-w-lg mx-auto">
-              <h3 className="text-slate-400 mb-4 text-sm font-semibold tracking-wider">اختر مستوى الصعوبة</h3>
-              <div className="grid grid-cols-3 gap-3 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
-                <button
-                  onClick={() => setDifficulty(Difficulty.EASY)}
-                  className={`
-                    flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
-                    ${gameState.difficulty === Difficulty.EASY 
-                      ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400 border ring-1 ring-emerald-500/20' 
-                      : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
-                  `}
-                >
-                  <ShieldCheck className="w-6 h-6" />
-                  <span className="font-bold text-sm">سهل</span>
-                  <span className="text-xs opacity-70">90 ثانية</span>
-                </button>
+          {/* --- IDLE SCREEN --- */}
+          {gameState.status === GameStatus.IDLE && (
+            <div className="flex-1 flex flex-col items-center justify-center max-w-2xl mx-auto text-center space-y-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+            
+              <div className="space-y-4">
+                <p className="text-xl md:text-2xl text-slate-300 leading-relaxed">
+                  {t.taglineLine1}
+                  <br />
+                  {t.taglineBeforeLink} <span className="text-emerald-400 font-bold">{t.taglineLink}</span>{t.taglineAfterLink}
+                </p>
+              </div>
 
-                <button
-                  onClick={() => setDifficulty(Difficulty.MEDIUM)}
-                  className={`
-                    flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
-                    ${gameState.difficulty === Difficulty.MEDIUM 
-                      ? 'bg-blue-500/10 border-blue-500 text-blue-400 border ring-1 ring-blue-500/20' 
-                      : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
-                  `}
+              {/* Language Switcher */}
+              <div className="flex items-center justify-center gap-2">
+                <Languages className="w-4 h-4 text-slate-500" aria-label={t.language} />
+                {Object.values(Locale).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setLocale(option)}
+                    className={`
+                      px-3 py-1.5 rounded-lg text-sm font-bold border transition-colors
+                      ${locale === option
+                        ? 'bg-slate-800 border-slate-600 text-white'
+                        : 'border-transparent text-slate-500 hover:bg-slate-800'}
+                    `}
+                  >
+                    {LOCALES[option].label}
+                  </button>
+                ))}
+              </div>
+
+              {/* Difficulty Selector */}
+              <div className="w-full max-w-lg mx-auto">
+                <h3 className="text-slate-400 mb-4 text-sm font-semibold tracking-wider">{t.chooseDifficulty}</h3>
+                <div className="grid grid-cols-3 gap-3 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+                  <button
+                    onClick={() => setDifficulty(Difficulty.EASY)}
+                    className={`
+                      flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
+                      ${gameState.difficulty === Difficulty.EASY 
+                        ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400 border ring-1 ring-emerald-500/20' 
+                        : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
+                    `}
+                  >
+                    <ShieldCheck className="w-6 h-6" />
+                    <span className="font-bold text-sm">{t.difficulties[Difficulty.EASY]}</span>
+                    <span className="text-xs opacity-70">{t.secondsLong(TIME_LIMITS[Difficulty.EASY])}</span>
+                  </button>
+
+                  <button
+                    onClick={() => setDifficulty(Difficulty.MEDIUM)}
+                    className={`
+                      flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
+                      ${gameState.difficulty === Difficulty.MEDIUM 
+                        ? 'bg-blue-500/10 border-blue-500 text-blue-400 border ring-1 ring-blue-500/20' 
+                        : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
+                    `}
+                  >
+                    <Zap className="w-6 h-6" />
+                    <span className="font-bold text-sm">{t.difficulties[Difficulty.MEDIUM]}</span>
+                    <span className="text-xs opacity-70">{t.secondsLong(TIME_LIMITS[Difficulty.MEDIUM])}</span>
+                  </button>
+
+                  <button
+                    onClick={() => setDifficulty(Difficulty.HARD)}
+                    className={`
+                      flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
+                      ${gameState.difficulty === Difficulty.HARD 
+                        ? 'bg-red-500/10 border-red-500 text-red-400 border ring-1 ring-red-500/20' 
+                        : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
+                    `}
+                  >
+                    <Flame className="w-6 h-6" />
+                    <span className="font-bold text-sm">{t.difficulties[Difficulty.HARD]}</span>
+                    <span className="text-xs opacity-70">{t.secondsLong(TIME_LIMITS[Difficulty.HARD])}</span>
+                  </button>
+                </div>
+
+                {/* Answer style: typed, or picked from four options (classic and chain; the daily run is always typed) */}
+                <div className="mt-3 grid grid-cols-2 gap-3 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+                  {[
+                    { style: AnswerStyle.TYPED, Icon: Keyboard },
+                    { style: AnswerStyle.MULTIPLE_CHOICE, Icon: LayoutGrid }
+                  ].map(({ style, Icon }) => (
+                    <button
+                      key={style}
+                      onClick={() => setAnswerStyle(style)}
+                      className={`
+                        flex items-center justify-center gap-2 py-3 rounded-xl transition-all duration-200
+                        ${answerStyle === style
+                          ? 'bg-slate-800 border-slate-600 text-white border'
+                          : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
+                      `}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span className="font-bold text-xs">{t.answerStyles[style]}</span>
+                    </button>
+                  ))}
+                </div>
+
+                {/* Daily Challenge: same puzzles for everyone, once a day */}
+                <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-2xl border border-slate-800">
+                  <div className="flex items-center gap-3 text-start">
+                    <CalendarDays className="w-6 h-6 text-purple-400 shrink-0" />
+                    <div>
+                      <div className="font-bold text-sm text-white">{t.dailyTitle}</div>
+                      <div className="text-xs text-slate-500">
+                        {dailyResult ? buildShareGrid(dailyResult) : t.dailyBlurb}
+                      </div>
+                    </div>
+                  </div>
+                  {dailyResult ? shareButton(dailyResult) : (
+                    <button
+                      onClick={() => startGame(GameMode.DAILY)}
+                      className="flex items-center gap-2 bg-purple-500/10 hover:bg-purple-500/20 border border-purple-500/30 text-purple-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+                    >
+                      <Play className="w-4 h-4" />
+                      {t.playNow}
+                    </button>
+                  )}
+                </div>
+
+                {/* Chain mode: each answer becomes the first card of the next round */}
+                <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-2xl border border-slate-800">
+                  <div className="flex items-center gap-3 text-start">
+                    <Link2 className="w-6 h-6 text-sky-400 shrink-0" />
+                    <div>
+                      <div className="font-bold text-sm text-white">{t.chainTitle}</div>
+                      <div className="text-xs text-slate-500">{t.chainBlurb}</div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startGame(GameMode.CHAIN)}
+                    className="flex items-center gap-2 bg-sky-500/10 hover:bg-sky-500/20 border border-sky-500/30 text-sky-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    {t.playNow}
+                  </button>
+                </div>
+
+                {/* Reverse puzzle: given the player, pick the cards they are linked to */}
+                <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-2xl border border-slate-800">
+                  <div className="flex items-center gap-3 text-start">
+                    <Grid3x3 className="w-6 h-6 text-amber-400 shrink-0" />
+                    <div>
+                      <div className="font-bold text-sm text-white">{t.reverseTitle}</div>
+                      <div className="text-xs text-slate-500">{t.reverseBlurb}</div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => startGame(GameMode.REVERSE)}
+                    className="flex items-center gap-2 bg-amber-500/10 hover:bg-amber-500/20 border border-amber-500/30 text-amber-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    {t.playNow}
+                  </button>
+                </div>
+
+                {/* Head-to-head: the same rounds as a friend, live, on the room server */}
+                <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-2xl border border-slate-800">
+                  <div className="flex items-center gap-3 text-start">
+                    <Swords className="w-6 h-6 text-rose-400 shrink-0" />
+                    <div>
+                      <div className="font-bold text-sm text-white">{t.headToHeadTitle}</div>
+                      <div className="text-xs text-slate-500">{t.headToHeadBlurb}</div>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => showScreen(GameStatus.HEAD_TO_HEAD)}
+                    className="flex items-center gap-2 bg-rose-500/10 hover:bg-rose-500/20 border border-rose-500/30 text-rose-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    {t.playNow}
+                  </button>
+                </div>
+
+                {/* Quiz night: the host's panel opens on its own page, next to the projector's */}
+                <div className="mt-3 flex items-center justify-between gap-3 p-3 bg-slate-900 rounded-2xl border border-slate-800">
+                  <div className="flex items-center gap-3 text-start">
+                    <MonitorPlay className="w-6 h-6 text-violet-400 shrink-0" />
+                    <div>
+                      <div className="font-bold text-sm text-white">{t.quizNightTitle}</div>
+                      <div className="text-xs text-slate-500">{t.quizNightBlurb}</div>
+                    </div>
+                  </div>
+                  <a
+                    href="?quiz=host"
+                    className="flex items-center gap-2 bg-violet-500/10 hover:bg-violet-500/20 border border-violet-500/30 text-violet-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    {t.hostQuiz}
+                  </a>
+                </div>
+              </div>
+
+              {/* Challenge Source Selector */}
+              <div className="w-full max-w-lg mx-auto">
+                <h3 className="text-slate-400 mb-4 text-sm font-semibold tracking-wider">{t.challengeSourceTitle}</h3>
+                <div className="grid grid-cols-3 gap-3 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+                  {[
+                    { source: ChallengeSource.AUTO, Icon: Shuffle },
+                    { source: ChallengeSource.AI, Icon: Sparkles },
+                    { source: ChallengeSource.OFFLINE, Icon: WifiOff }
+                  ].map(({ source, Icon }) => (
+                    <button
+                      key={source}
+                      onClick={() => setChallengeSource(source)}
+                      className={`
+                        flex items-center justify-center gap-2 py-3 rounded-xl transition-all duration-200
+                        ${challengeSource === source
+                          ? 'bg-slate-800 border-slate-600 text-white border'
+                          : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
+                      `}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span className="font-bold text-xs">{t.challengeSources[source]}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="relative group">
+                <div className="absolute -inset-1 bg-gradient-to-r from-emerald-600 to-blue-600 rounded-full blur opacity-75 group-hover:opacity-100 transition duration-1000 group-hover:duration-200 animate-tilt"></div>
+                <button 
+                  onClick={() => startGame(GameMode.CLASSIC)}
+                  className="relative bg-slate-900 ring-1 ring-slate-700 hover:bg-slate-800 text-white text-xl md:text-2xl font-bold py-6 px-16 rounded-full flex items-center gap-4 transition-all"
                 >
-                  <Zap className="w-6 h-6" />
-                  <span className="font-bold text-sm">متوسط</span>
-                  <span className="text-xs opacity-70">60 ثانية</span>
+                  <Play className="fill-emerald-500 text-emerald-500 w-6 h-6" />
+                  {t.startChallenge}
                 </button>
+              </div>
 
+              <div className="flex flex-wrap items-center justify-center gap-3">
                 <button
-                  onClick={() => setDifficulty(Difficulty.HARD)}
-                  className={`
-                    flex flex-col items-center justify-center gap-2 py-4 rounded-xl transition-all duration-200
-                    ${gameState.difficulty === Difficulty.HARD 
-                      ? 'bg-red-500/10 border-red-500 text-red-400 border ring-1 ring-red-500/20' 
-                      : 'hover:bg-slate-800 text-slate-500 border border-transparent'}
-                  `}
+                  onClick={() => showScreen(GameStatus.STATS)}
+                  className="flex items-center gap-2 text-slate-300 bg-slate-900 hover:bg-slate-800 px-6 py-3 rounded-xl border border-slate-700 transition-colors"
                 >
-                  <Flame className="w-6 h-6" />
-                  <span className="font-bold text-sm">صعب</span>
-                  <span className="text-xs opacity-70">45 ثانية</span>
+                  <User className="w-5 h-5 text-emerald-400" />
+                  <span className="font-bold">{activeProfile.name}</span>
+                  <BarChart3 className="w-5 h-5 text-slate-500" />
                 </button>
+
+                {highScore > 0 && (
+                  <div className="flex items-center gap-2 text-yellow-500 bg-yellow-500/10 px-6 py-3 rounded-xl border border-yellow-500/20">
+                    <Trophy className="w-5 h-5" />
+                    <span className="font-bold">{t.bestScore(highScore)}</span>
+                  </div>
+                )}
               </div>
             </div>
+          )}
 
-            <div className="relative group">
-              <div className="absolute -inset-1 bg-gradient-to-r from-emerald-600 to-blue-600 rounded-full blur opacity-75 group-hover:opacity-100 transition duration-1000 group-hover:duration-200 animate-tilt"></div>
-              <button 
-                onClick={startGame}
-                className="relative bg-slate-900 ring-1 ring-slate-700 hover:bg-slate-800 text-white text-xl md:text-2xl font-bold py-6 px-16 rounded-full flex items-center gap-4 transition-all"
-              >
-                <Play className="fill-emerald-500 text-emerald-500 w-6 h-6" />
-                ابدأ التحدي
-              </button>
-            </div>
+          {/* --- GAMEPLAY SCREEN --- */}
+          {/* We keep GameScreen mounted even during validation, the overlay sits on top */}
+          {gameState.status === GameStatus.PLAYING && gameState.currentChallenge && isReverseChallenge(gameState.currentChallenge) && (
+            <ReverseScreen
+              key={gameState.currentChallenge.id}
+              challenge={gameState.currentChallenge}
+              score={gameState.score}
+              timeLeft={gameState.timeLeft}
+              isPaused={engineState.clock.paused}
+              onPauseChange={setPaused}
+              onPicksSubmitted={handlePicksSubmitted}
+              onPicksChecked={handlePicksChecked}
+              onCheckFailed={() => engine.dispatch({ type: 'CHECK_FAILED' })}
+              onNextRound={nextRound}
+              onSkip={skipRound}
+            />
+          )}
+          {gameState.status === GameStatus.PLAYING && gameState.currentChallenge && !isReverseChallenge(gameState.currentChallenge) && (
+            <GameScreen 
+              key={gameState.currentChallenge.id}
+              challenge={gameState.currentChallenge}
+              score={gameState.score}
+              timeLeft={gameState.timeLeft}
+              isPaused={engineState.clock.paused}
+              onPauseChange={setPaused}
+              hintTimeCosts={HINT_TIME_COSTS}
+              onHint={handleHint}
+              onAnswerSubmitted={answer => engine.dispatch({ type: 'ANSWER_SUBMITTED', answer })}
+              onVerdict={handleVerdict}
+              onCheckFailed={() => engine.dispatch({ type: 'CHECK_FAILED' })}
+              onNextRound={nextRound}
+              onSkip={skipRound}
+              penaltyRules={roundPenaltyRules(gameState.mode, isPickingChoice)}
+              livesLeft={gameState.livesLeft}
+            />
+          )}
 
-            {highScore > 0 && (
-              <div className="flex items-center gap-2 text-yellow-500 bg-yellow-500/10 px-6 py-3 rounded-xl border border-yellow-500/20">
-                <Trophy className="w-5 h-5" />
-                <span className="font-bold">أفضل نتيجة: {highScore}</span>
-              </div>
-            )}
-          </div>
-        )}
-
-        {/* --- GAMEPLAY SCREEN --- */}
-        {/* We keep GameScreen mounted even during validation, the overlay sits on top */}
-        {gameState.status === GameStatus.PLAYING && gameState.currentChallenge && (
-          <GameScreen 
-            challenge={gameState.currentChallenge}
-            score={gameState.score}
-            timeLeft={gameState.timeLeft}
-            onNextRound={handleNextRound}
-            onGameOver={() => setGameState(prev => ({ ...prev, status: GameStatus.GAME_OVER }))}
-            onValidationChange={setIsValidating}
-          />
-        )}
-
-        {/* --- GAME OVER SCREEN --- */}
-        {gameState.status === GameStatus.GAME_OVER && (
-          <div className="flex-1 flex flex-col items-center justify-center text-center space-y-8 animate-in zoom-in duration-300">
-            <div className="bg-slate-800/80 p-8 md:p-12 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-lg w-full">
-              <h2 className="text-4xl font-bold text-white mb-2">انتهى الوقت!</h2>
-              <p className="text-slate-400 mb-8">أداء رائع، هل يمكنك تحطيم رقمك؟</p>
+          {/* --- GAME OVER SCREEN --- */}
+          {gameState.status === GameStatus.GAME_OVER && (
+            <div className="flex-1 flex flex-col items-center justify-center text-center space-y-8 animate-in zoom-in duration-300">
+              <div className="bg-slate-800/80 p-8 md:p-12 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-lg w-full">
+                <h2 className="text-4xl font-bold text-white mb-2">{gameState.livesLeft === 0 ? t.outOfLives : t.timeUp}</h2>
+                <p className="text-slate-400 mb-8">{t.gameOverSubtitle}</p>
               
-              <div className="flex items-center justify-center py-8">
-                <div className="text-center">
-                  <div className="text-sm text-slate-500 uppercase tracking-widest mb-2">النتيجة النهائية</div>
-                  <div className="text-7xl font-black text-transparent bg-clip-text bg-gradient-to-b from-emerald-400 to-blue-500">
-                    {gameState.score}
-                  </div>
-                  <div className="mt-2 inline-block px-3 py-1 rounded-full bg-slate-700 text-xs font-mono text-slate-300">
-                    {gameState.difficulty} MODE
+                <div className="flex items-center justify-center py-8">
+                  <div className="text-center">
+                    <div className="text-sm text-slate-500 uppercase tracking-widest mb-2">{t.finalScore}</div>
+                    <div className="text-7xl font-black text-transparent bg-clip-text bg-gradient-to-b from-emerald-400 to-blue-500">
+                      {gameState.score}
+                    </div>
+                    <div className="mt-2 inline-block px-3 py-1 rounded-full bg-slate-700 text-xs font-mono text-slate-300">
+                      {gameState.mode === GameMode.CLASSIC ? `${t.gameModes[gameState.mode]} · ${t.difficulties[gameState.difficulty]}` : t.gameModes[gameState.mode]}
+                    </div>
+                    {gameState.mode === GameMode.CHAIN && (
+                      <ChainPath history={gameState.history} className="mt-6" />
+                    )}
+                    {scoredRounds.length > 0 && (
+                      <div className="mt-6 w-64 mx-auto text-start">
+                        <div className="text-xs text-slate-500 uppercase tracking-widest mb-2">{t.scoreBreakdownTitle}</div>
+                        <ScoreBreakdown score={sumRoundScores(scoredRounds)} />
+                      </div>
+                    )}
+                    {gameState.mode === GameMode.DAILY && dailyResult && (
+                      <div className="mt-4 flex flex-col items-center gap-3">
+                        <div className="text-2xl tracking-widest">{buildShareGrid(dailyResult)}</div>
+                        {shareButton(dailyResult)}
+                      </div>
+                    )}
+                    {isNewRecord && (
+                      <div className="mt-4 flex items-center justify-center gap-2 text-yellow-400 font-bold animate-pulse">
+                        <Trophy className="w-5 h-5" />
+                        {t.newRecord}
+                      </div>
+                    )}
+                    {gameState.history.length > 0 && (
+                      <LeaderboardPanel
+                        mode={gameState.mode}
+                        difficulty={gameState.difficulty}
+                        defaultNickname={activeProfile.name}
+                        ranks={boardRanks}
+                        onSubmit={handleSubmitRun}
+                      />
+                    )}
                   </div>
                 </div>
-              </div>
 
-              <div className="flex flex-col gap-4 mt-8">
-                <button 
-                  onClick={startGame}
-                  className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-4 rounded-xl transition-colors flex items-center justify-center gap-2"
-                >
-                  <RotateCcw className="w-5 h-5" />
-                  لعب مرة أخرى
-                </button>
-                <button 
-                  onClick={resetGame}
-                  className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-4 rounded-xl transition-colors"
-                >
-                  القائمة الرئيسية
-                </button>
+                <div className="flex flex-col gap-4 mt-8">
+                  {gameState.history.length > 0 && (
+                    <button
+                      onClick={() => showScreen(GameStatus.REVIEW)}
+                      className="w-full bg-blue-500/10 hover:bg-blue-500/20 border border-blue-500/30 text-blue-300 font-bold py-4 rounded-xl transition-colors flex items-center justify-center gap-2"
+                    >
+                      <ListChecks className="w-5 h-5" />
+                      {t.reviewRounds(gameState.history.length)}
+                    </button>
+                  )}
+                  {gameState.mode !== GameMode.DAILY && (
+                    <button 
+                      onClick={() => startGame()}
+                      className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-4 rounded-xl transition-colors flex items-center justify-center gap-2"
+                    >
+                      <RotateCcw className="w-5 h-5" />
+                      {t.playAgain}
+                    </button>
+                  )}
+                  <button 
+                    onClick={resetGame}
+                    className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-4 rounded-xl transition-colors"
+                  >
+                    {t.mainMenu}
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+
+          {/* --- STATS SCREEN --- */}
+          {gameState.status === GameStatus.STATS && (
+            <StatsScreen
+              profiles={profiles}
+              onProfilesChange={setProfiles}
+              onClose={() => showScreen(GameStatus.IDLE)}
+            />
+          )}
+
+          {/* --- HEAD-TO-HEAD SCREEN --- */}
+          {gameState.status === GameStatus.HEAD_TO_HEAD && (
+            <HeadToHeadScreen
+              settings={{ difficulty: gameState.difficulty, source: challengeSource, locale }}
+              defaultName={activeProfile.name}
+              onClose={() => showScreen(GameStatus.IDLE)}
+            />
+          )}
 
-      </main>
+          {/* --- ROUND REVIEW SCREEN --- */}
+          {gameState.status === GameStatus.REVIEW && (
+            <GameReview
+              history={gameState.history}
+              onClose={() => showScreen(GameStatus.GAME_OVER)}
+            />
+          )}
+
+        </main>
       
-      {/* Footer */}
-      <footer className="py-4 text-center text-slate-600 text-sm relative z-0">
-        <p>مدعوم بواسطة Gemini AI</p>
-      </footer>
-    </div>
+        {/* Footer */}
+        <footer className="py-4 text-center text-slate-600 text-sm relative z-0">
+          <p>{t.poweredBy}</p>
+        </footer>
+      </div>
+    </I18nContext.Provider>
   );
 }
\ No newline at end of file
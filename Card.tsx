@@ -1,25 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { EntityType, GameEntity } from '../types';
-import { Shield, User, Trophy, Flag, GraduationCap } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+import { typeFallbackImage } from '../services/cardImages';
+import { Shield, User, Trophy, Flag, GraduationCap, CalendarDays } from 'lucide-react';
 
 interface CardProps {
   entity: GameEntity;
   animationDelay?: string;
+  compact?: boolean; // Smaller card for grids
+  large?: boolean; // Bigger card for a projector
 }
 
-// Fallback images ensuring we always have a visual for every type
-const FALLBACK_IMAGES: Record<EntityType, string> = {
-  [EntityType.TEAM]: "https://upload.wikimedia.org/wikipedia/commons/thumb/d/d3/Soccerball.svg/600px-Soccerball.svg.png",
-  [EntityType.PLAYER]: "https://upload.wikimedia.org/wikipedia/commons/thumb/8/89/Portrait_Placeholder.png/480px-Portrait_Placeholder.png",
-  [EntityType.COACH]: "https://upload.wikimedia.org/wikipedia/commons/thumb/5/5f/User_with_smile.svg/1024px-User_with_smile.svg.png",
-  [EntityType.TROPHY]: "https://upload.wikimedia.org/wikipedia/commons/thumb/1/10/Trophy_Cup_Flat_Icon.svg/1024px-Trophy_Cup_Flat_Icon.svg.png",
-  [EntityType.NATIONAL_TEAM]: "https://upload.wikimedia.org/wikipedia/commons/thumb/db/db/World_map_green.png/640px-World_map_green.png",
-  [EntityType.YEAR]: "https://upload.wikimedia.org/wikipedia/commons/thumb/0/08/Simple_icon_time.svg/600px-Simple_icon_time.svg.png"
-};
-
-const Card: React.FC<CardProps> = ({ entity, animationDelay = "0s" }) => {
+const Card: React.FC<CardProps> = ({ entity, animationDelay = "0s", compact = false, large = false }) => {
   const [imageError, setImageError] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const { t } = useI18n();
 
   // Reset states when entity changes to support component reuse
   useEffect(() => {
@@ -34,25 +29,17 @@ const Card: React.FC<CardProps> = ({ entity, animationDelay = "0s" }) => {
       case EntityType.TROPHY: return <Trophy className={className} />;
       case EntityType.NATIONAL_TEAM: return <Flag className={className} />;
       case EntityType.COACH: return <GraduationCap className={className} />;
+      case EntityType.YEAR: return <CalendarDays className={className} />;
       default: return <Shield className={className} />;
     }
   };
 
-  const getLabel = () => {
-    switch (entity.type) {
-      case EntityType.TEAM: return "فريق";
-      case EntityType.PLAYER: return "لاعب";
-      case EntityType.TROPHY: return "بطولة / لقب";
-      case EntityType.NATIONAL_TEAM: return "منتخب";
-      case EntityType.COACH: return "مدرب";
-      default: return "كيان";
-    }
-  };
+  const getLabel = () => t.entityTypes[entity.type] || t.unknownEntity;
 
   const isFallback = imageError || !entity.imageUrl;
   
   // The generic fallback specific to this entity type (used for background blur)
-  const typeFallbackSrc = FALLBACK_IMAGES[entity.type] || FALLBACK_IMAGES[EntityType.TEAM];
+  const typeFallbackSrc = typeFallbackImage(entity);
   
   // The actual image we want to show
   const effectiveImageSrc = (!imageError && entity.imageUrl) 
@@ -72,7 +59,7 @@ const Card: React.FC<CardProps> = ({ entity, animationDelay = "0s" }) => {
         hover:scale-105 hover:-translate-y-1
         hover:shadow-xl
         animate-in fade-in zoom-in slide-in-from-bottom-4
-        w-full aspect-[3/4] max-w-[200px] md:max-w-[240px]
+        w-full aspect-[3/4] ${compact ? 'max-w-[150px]' : large ? 'max-w-[280px] md:max-w-[380px]' : 'max-w-[200px] md:max-w-[240px]'}
         border border-slate-700
       `}
       style={{ 
@@ -123,19 +110,19 @@ const Card: React.FC<CardProps> = ({ entity, animationDelay = "0s" }) => {
         <div className={`absolute inset-0 opacity-20 mix-blend-overlay transition-opacity duration-500`} style={{ backgroundColor: customColor }}></div>
       </>
 
-      {/* Top Right Icon */}
-      <div className={`absolute top-0 right-0 p-3 transition-opacity z-10 text-white/70`}>
+      {/* Top Corner Icon (follows the reading direction) */}
+      <div className={`absolute top-0 end-0 p-3 transition-opacity z-10 text-white/70`}>
         {getIcon("w-6 h-6 opacity-80 drop-shadow-md")}
       </div>
       
       {/* Central Content */}
-      <div className="relative z-10 flex flex-col items-center p-4 w-full h-full justify-end pb-8">
+      <div className={`relative z-10 flex flex-col items-center w-full h-full justify-end ${compact ? 'p-2 pb-4' : large ? 'p-6 pb-12' : 'p-4 pb-8'}`}>
         <span className="text-xs uppercase tracking-widest text-slate-300 mb-2 font-semibold bg-slate-900/50 px-2 py-0.5 rounded backdrop-blur-sm shadow-sm border border-white/5">
           {getLabel()}
         </span>
         
         <h3 
-          className="text-xl md:text-2xl font-black text-center text-white leading-tight break-words drop-shadow-xl"
+          className={`${compact ? 'text-sm md:text-base' : large ? 'text-3xl md:text-4xl' : 'text-xl md:text-2xl'} font-black text-center text-white leading-tight break-words drop-shadow-xl`}
           style={{ textShadow: '0 2px 10px rgba(0,0,0,0.9)' }}
         >
           {entity.name}
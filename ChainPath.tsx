@@ -0,0 +1,54 @@
+import React from 'react';
+import { RoundOutcome, RoundRecord } from '../types';
+import { Plus, ArrowRight } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface ChainPathProps {
+  history: RoundRecord[];
+  className?: string;
+}
+
+const Link = ({ name, tone }: { name: string; tone: 'player' | 'clue' }) => (
+  <span
+    className={`px-3 py-1 rounded-full text-sm font-bold border ${
+      tone === 'player' ? 'bg-sky-500/15 text-sky-200 border-sky-500/30' : 'bg-slate-800 text-slate-400 border-slate-700'
+    }`}
+  >
+    {name}
+  </span>
+);
+
+// The solved rounds of a chain game, read as one path: each answer is where the next round started
+const ChainPath: React.FC<ChainPathProps> = ({ history, className = '' }) => {
+  const { t } = useI18n();
+  const solved = history.filter(round => round.outcome === RoundOutcome.SOLVED);
+  if (solved.length === 0) return null;
+
+  let previous: string | null = null;
+  return (
+    <div className={className}>
+      <h3 className="text-xs uppercase tracking-widest text-slate-500 mb-3">{t.chainPathTitle}</h3>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {solved.map(round => {
+          const answer = round.attempts.find(attempt => attempt.isCorrect)?.matchedAnswer
+            ?? round.attempts.find(attempt => attempt.isCorrect)?.answer
+            ?? '';
+          // A failed or skipped round in between keeps the anchor, so the path only restarts when card A changed
+          const start = round.cardA.name !== previous ? round.cardA.name : null;
+          previous = answer;
+          return (
+            <React.Fragment key={round.challengeId}>
+              {start && <Link name={start} tone="player" />}
+              <Plus className="w-3 h-3 text-slate-600" />
+              <Link name={round.cardB.name} tone="clue" />
+              <ArrowRight className="w-4 h-4 text-slate-600 rtl:rotate-180" />
+              <Link name={answer} tone="player" />
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChainPath;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { GameEntity, RoundOutcome, RoundRecord } from '../types';
+import { ArrowRight, ArrowLeft, CheckCircle, XCircle, SkipForward, Clock, Lightbulb, Target } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+import ScoreBreakdown from './ScoreBreakdown';
+
+interface GameReviewProps {
+  history: RoundRecord[];
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<RoundOutcome, { className: string; Icon: typeof CheckCircle }> = {
+  [RoundOutcome.SOLVED]: { className: 'bg-emerald-500/15 text-emerald-300 border-emerald-500/30', Icon: CheckCircle },
+  [RoundOutcome.SKIPPED]: { className: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/30', Icon: SkipForward },
+  [RoundOutcome.TIMED_OUT]: { className: 'bg-red-500/15 text-red-300 border-red-500/30', Icon: Clock },
+  [RoundOutcome.FAILED]: { className: 'bg-orange-500/15 text-orange-300 border-orange-500/30', Icon: XCircle },
+  [RoundOutcome.PARTIAL]: { className: 'bg-sky-500/15 text-sky-300 border-sky-500/30', Icon: Target }
+};
+
+const EntityChip = ({ entity }: { entity: GameEntity }) => {
+  const { t } = useI18n();
+  return (
+    <div
+      className="flex-1 rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-3 text-center"
+      style={{ borderTopColor: entity.color || '#10b981', borderTopWidth: 3 }}
+    >
+      <div className="text-[10px] uppercase tracking-widest text-slate-500">{t.entityTypes[entity.type] || t.unknownEntity}</div>
+      <div className="text-lg font-bold text-white">{entity.name}</div>
+    </div>
+  );
+};
+
+const GameReview: React.FC<GameReviewProps> = ({ history, onClose }) => {
+  const { t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const round = history[index];
+  if (!round) return null;
+
+  const outcome = OUTCOME_STYLES[round.outcome];
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center py-6 animate-in fade-in duration-300">
+      <div className="bg-slate-800/80 p-6 md:p-8 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-xl w-full space-y-6">
+
+        {/* Round strip: jump to any round */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-white">{t.reviewTitle}</h2>
+          <span className="text-sm text-slate-400 font-mono">{index + 1} / {history.length}</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {history.map((r, i) => (
+            <button
+              key={r.challengeId}
+              onClick={() => setIndex(i)}
+              className={`
+                w-8 h-8 rounded-lg text-xs font-bold border transition-all
+                ${OUTCOME_STYLES[r.outcome].className}
+                ${i === index ? 'ring-2 ring-white/60 scale-110' : 'opacity-70 hover:opacity-100'}
+              `}
+            >
+              {i + 1}
+            </button>
+          ))}
+        </div>
+
+        {/* Cards: the pair, or a reverse puzzle's player and grid (picked, linked, both or neither) */}
+        {round.grid ? (
+          <div className="space-y-3">
+            <div className="flex"><EntityChip entity={round.cardA} /></div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {round.grid.map((entity, i) => {
+                const picked = round.picked?.includes(i);
+                const linked = round.linkedCards
+                  ? round.linkedCards.includes(i)
+                  : round.acceptedAnswers?.includes(entity.name);
+                return (
+                  <div
+                    key={i}
+                    className={`rounded-lg border px-2 py-2 text-center text-sm font-bold ${
+                      linked && picked ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200'
+                        : linked ? 'border-yellow-500/50 bg-yellow-500/10 text-yellow-200'
+                        : picked ? 'border-red-500/50 bg-red-500/10 text-red-200 line-through'
+                        : 'border-slate-700 bg-slate-900/60 text-slate-400'
+                    }`}
+                  >
+                    {entity.name}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-stretch gap-3">
+            <EntityChip entity={round.cardA} />
+            <div className="flex items-center text-slate-500 font-bold text-xl">+</div>
+            <EntityChip entity={round.cardB} />
+          </div>
+        )}
+
+        {/* Outcome & time */}
+        <div className="flex items-center justify-between">
+          <span className={`inline-flex items-center gap-2 px-3 py-1 rounded-full border text-sm font-bold ${outcome.className}`}>
+            <outcome.Icon className="w-4 h-4" />
+            {t.outcomes[round.outcome]}
+          </span>
+          <span className="inline-flex items-center gap-1 text-sm text-slate-400 font-mono">
+            <Clock className="w-4 h-4" />
+            {t.secondsShort(round.timeSpentMs)}
+          </span>
+        </div>
+
+        {round.score && <ScoreBreakdown score={round.score} className="bg-slate-900/60 border border-slate-700 rounded-xl p-3" />}
+
+        {/* Attempts */}
+        <div>
+          <h3 className="text-slate-400 mb-2 text-sm font-semibold">{t.yourAttempts}</h3>
+          {round.attempts.length === 0 ? (
+            <p className="text-slate-500 text-sm">{t.noAttempts}</p>
+          ) : (
+            <ul className="space-y-2">
+              {round.attempts.map((attempt, i) => (
+                <li
+                  key={i}
+                  className={`rounded-lg p-3 text-sm ${attempt.isCorrect ? 'bg-emerald-500/10 text-emerald-200' : 'bg-red-500/10 text-red-200'}`}
+                >
+                  <div className="flex items-center gap-2 font-bold">
+                    {attempt.isCorrect ? <CheckCircle className="w-4 h-4 shrink-0" /> : <XCircle className="w-4 h-4 shrink-0" />}
+                    {attempt.answer}
+                  </div>
+                  <p className="mt-1 text-slate-300">{attempt.reason}</p>
+                  {attempt.source && (
+                    <p className="mt-1 text-xs text-slate-500">{t.verdictSource(t.verdictSources[attempt.source])}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Hints bought during the round */}
+        <div>
+          <h3 className="text-slate-400 mb-2 text-sm font-semibold">{t.hintsUsed}</h3>
+          {round.hintsUsed.length === 0 ? (
+            <p className="text-slate-500 text-sm">{t.noHintsUsed}</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {round.hintsUsed.map(type => (
+                <span key={type} className="px-3 py-1 rounded-full bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 text-sm">
+                  {t.hintTypes[type]}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Accepted answers */}
+        <div>
+          <h3 className="text-slate-400 mb-2 text-sm font-semibold flex items-center gap-1">
+            <Lightbulb className="w-4 h-4 text-yellow-400" />
+            {t.acceptedAnswers}
+          </h3>
+          {round.acceptedAnswers ? (
+            <div className="flex flex-wrap gap-2">
+              {round.acceptedAnswers.map(answer => (
+                <span key={answer} className="px-3 py-1 rounded-full bg-slate-700 text-slate-200 text-sm">{answer}</span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-500 text-sm">{t.loadingAnswers}</p>
+          )}
+        </div>
+
+        {/* Navigation */}
+        <div className="flex gap-3">
+          <button
+            onClick={() => setIndex(i => Math.max(0, i - 1))}
+            disabled={index === 0}
+            className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            <ArrowLeft className="w-5 h-5 rtl:rotate-180" />
+            {t.previous}
+          </button>
+          <button
+            onClick={() => setIndex(i => Math.min(history.length - 1, i + 1))}
+            disabled={index === history.length - 1}
+            className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+          >
+            {t.next}
+            <ArrowRight className="w-5 h-5 rtl:rotate-180" />
+          </button>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-xl transition-colors"
+        >
+          {t.backToResults}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
@@ -1,16 +1,30 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Challenge, GameStatus } from '../types';
+import { AnswerAttempt, Challenge, ChallengeHints, GameStatus, HintType, RoundScore, ValidationResult, VerdictSource } from '../types';
 import Card from './Card';
+import ScoreBreakdown from './ScoreBreakdown';
 import { validateAnswer } from '../services/geminiService';
-import { Loader2, ArrowRight, CheckCircle, XCircle } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+import { PenaltyResult, PenaltyRules } from '../services/penalties';
+import { Loader2, ArrowRight, CheckCircle, XCircle, Pause, Play, Lightbulb, Heart } from 'lucide-react';
 
 interface GameScreenProps {
   challenge: Challenge;
-  onNextRound: (bonusTime: number) => void;
-  onGameOver: () => void;
-  onValidationChange: (isValidating: boolean) => void;
+  onAnswerSubmitted: (answer: string) => void;
+  // Applies the verdict to the game: a correct answer's score, or what a wrong one cost
+  onVerdict: (attempt: AnswerAttempt) => { score: RoundScore | null; penalty: PenaltyResult | null };
+  onCheckFailed: () => void; // No verdict came back: nothing is lost, the player can try again
+  onNextRound: () => void;
+  onSkip?: () => void; // No skipping without it (head-to-head rounds end for both players at once)
+  penaltyRules: PenaltyRules;
+  livesLeft: number | null;
   score: number;
   timeLeft: number;
+  isPaused: boolean;
+  onPauseChange: (isPaused: boolean) => void;
+  hintTimeCosts: Record<HintType, number>;
+  onHint: (type: HintType) => Promise<ChallengeHints>;
+  header?: React.ReactNode; // Replaces the solo header (score, penalties, pause, clock), e.g. with a shared scoreboard
+  validate?: (answer: string) => Promise<ValidationResult>; // Where typed answers are judged; the API by default
 }
 
 // --- Sound Utility (Web Audio API) ---
@@ -135,17 +149,40 @@ const ConfettiBurst = () => {
 
 const GameScreen: React.FC<GameScreenProps> = ({ 
   challenge, 
-  onNextRound, 
-  onGameOver,
-  onValidationChange,
+  onAnswerSubmitted,
+  onVerdict,
+  onCheckFailed,
+  onNextRound,
+  onSkip,
+  penaltyRules,
+  livesLeft,
   score,
-  timeLeft 
+  timeLeft,
+  isPaused,
+  onPauseChange,
+  hintTimeCosts,
+  onHint,
+  header,
+  validate
 }) => {
+  const { locale, t } = useI18n();
   const [input, setInput] = useState('');
   const [validating, setValidating] = useState(false);
-  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | null, message: string }>({ type: null, message: '' });
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | null, message: string, source?: VerdictSource, score?: RoundScore, penalty?: PenaltyResult }>({ type: null, message: '' });
+  const [hintsShown, setHintsShown] = useState<HintType[]>([]);
+  const [revealedHints, setRevealedHints] = useState<ChallengeHints>({});
+  const [hintLoading, setHintLoading] = useState(false);
+  const [wrongAttempts, setWrongAttempts] = useState(0);
+  const [wrongChoices, setWrongChoices] = useState<number[]>([]);
+  const [rightChoice, setRightChoice] = useState<number | null>(null);
+  const [pendingChoice, setPendingChoice] = useState<number | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
+  const hintTypes = challenge.hintTypes || [];
+  const nextHint = hintTypes[hintsShown.length];
+  const nextHintCost = nextHint ? hintTimeCosts[nextHint] : 0;
+  const choices = challenge.choices && challenge.choices.length > 0 ? challenge.choices : null;
+
   // Focus input on mount and when challenge changes
   useEffect(() => {
     if (inputRef.current) {
@@ -155,46 +192,141 @@ const GameScreen: React.FC<GameScreenProps> = ({
     playSound('pop');
   }, [challenge]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || validating) return;
-
-    setValidating(true);
-    onValidationChange(true);
-    setFeedback({ type: null, message: '' });
+  // Put the cursor back in the input when the game resumes
+  useEffect(() => {
+    if (!isPaused && inputRef.current) inputRef.current.focus();
+  }, [isPaused]);
 
-    const result = await validateAnswer(
-      challenge.cardA.name,
-      challenge.cardB.name,
-      input,
-      challenge.possibleAnswers || []
-    );
+  // Applies a verdict to the round, whether it was typed or picked
+  const handleVerdict = (answer: string, result: ValidationResult) => {
+    const { score: roundScore, penalty } = onVerdict({
+      answer,
+      isCorrect: result.isValid,
+      reason: result.reason,
+      source: result.source,
+      matchedAnswer: result.matchedAnswer
+    });
 
     if (result.isValid) {
       playSound('success');
-      setFeedback({ type: 'success', message: 'إجابة صحيحة! +10 ثواني' });
-      // Short delay to show success before next round
+      setFeedback({ type: 'success', message: roundScore ? t.correctWithBonus(roundScore.timeBonus) : result.reason, source: result.source, score: roundScore || undefined });
+      // Short delay to show success (and the points) before next round; the clock waits too
       setTimeout(() => {
         setInput('');
         setFeedback({ type: null, message: '' });
-        onValidationChange(false);
         setValidating(false);
-        onNextRound(10); // 10 seconds bonus
-      }, 1500);
+        onNextRound();
+      }, 2500);
+    } else if (penalty?.roundOver) {
+      // Out of attempts: show why, then move on without points
+      playSound('error');
+      setWrongAttempts(count => count + 1);
+      setFeedback({ type: 'error', message: result.reason || t.wrongAnswer, source: result.source, penalty });
+      setTimeout(onNextRound, 2000);
     } else {
       playSound('error');
-      setFeedback({ type: 'error', message: result.reason || 'إجابة خاطئة، حاول مرة أخرى' });
+      setWrongAttempts(count => count + 1);
+      setFeedback({ type: 'error', message: result.reason || t.wrongAnswer, source: result.source, penalty: penalty || undefined });
       setValidating(false);
-      onValidationChange(false);
       // Focus back on input
       if (inputRef.current) inputRef.current.focus();
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || validating || isPaused || hintLoading) return;
+
+    setValidating(true);
+    onAnswerSubmitted(input.trim());
+    setFeedback({ type: null, message: '' });
+
+    let result: ValidationResult;
+    try {
+      result = validate ? await validate(input) : await validateAnswer(challenge.id, input, locale);
+    } catch (e: unknown) {
+      playSound('error');
+      setFeedback({ type: 'error', message: (e instanceof Error && e.message) || t.serviceBusy });
+      setValidating(false);
+      onCheckFailed();
+      return;
+    }
+    handleVerdict(input.trim(), result);
+  };
+
+  // Multiple choice: the server judges the pick like a typed answer, so it knows when it came.
+  // The pick waits on its own button rather than behind the full-screen overlay.
+  const handleChoice = async (index: number) => {
+    if (!choices || !choices[index] || validating || isPaused || hintLoading || wrongChoices.includes(index)) return;
+
+    setValidating(true);
+    setPendingChoice(index);
+    onAnswerSubmitted(choices[index]);
+    setFeedback({ type: null, message: '' });
+
+    let result: ValidationResult;
+    try {
+      result = await validateAnswer(challenge.id, choices[index], locale);
+    } catch (e: unknown) {
+      playSound('error');
+      setFeedback({ type: 'error', message: (e instanceof Error && e.message) || t.serviceBusy });
+      setValidating(false);
+      setPendingChoice(null);
+      onCheckFailed();
+      return;
+    }
+    setPendingChoice(null);
+    if (result.isValid) setRightChoice(index);
+    else setWrongChoices(prev => [...prev, index]);
+    handleVerdict(choices[index], { ...result, reason: result.isValid ? t.choiceRight : t.wrongAnswer });
+  };
+
+  // Number keys 1-4 (Arabic-Indic digits too) pick an option
+  useEffect(() => {
+    if (!choices) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const digit = '1234'.indexOf(e.key) >= 0 ? '1234'.indexOf(e.key) : '١٢٣٤'.indexOf(e.key);
+      if (digit >= 0) handleChoice(digit);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleHint = async () => {
+    if (!nextHint || hintLoading || validating || isPaused) return;
+    setHintLoading(true);
+    try {
+      const hint = await onHint(nextHint);
+      playSound('pop');
+      setRevealedHints(prev => ({ ...prev, ...hint }));
+      setHintsShown(prev => [...prev, nextHint]);
+    } catch (e) {
+      console.error("Failed to load hint:", e);
+      setFeedback({ type: 'error', message: t.hintFailed });
+    } finally {
+      setHintLoading(false);
+      if (inputRef.current) inputRef.current.focus();
+    }
+  };
+
+  const formatHint = (type: HintType): string => {
+    const { nationality, position, era, initial } = revealedHints;
+    switch (type) {
+      case HintType.NATIONALITY:
+        return nationality || '';
+      case HintType.POSITION:
+        return position ? t.positions[position] : '';
+      case HintType.ERA:
+        return era ? t.hintEra(era.from, era.to) : '';
+      case HintType.INITIAL:
+        return initial ? t.hintInitial(initial.letter, initial.length) : '';
+    }
+  };
+
   const handleSkip = () => {
     // Skip finding a new challenge without points.
     playSound('pop');
-    onNextRound(0);
+    onSkip();
     setInput('');
     setFeedback({ type: null, message: '' });
   };
@@ -203,19 +335,49 @@ const GameScreen: React.FC<GameScreenProps> = ({
     <div className="flex flex-col items-center w-full max-w-4xl mx-auto px-4 py-6 min-h-[80vh] justify-center">
       
       {/* Header Stats */}
-      <div className="w-full flex justify-between items-center mb-8 bg-slate-800/50 p-4 rounded-xl border border-slate-700 backdrop-blur-sm">
-        <div className="flex flex-col">
-          <span className="text-slate-400 text-xs uppercase">النقاط</span>
-          <span className="text-2xl font-bold text-emerald-400">{score}</span>
-        </div>
+      {header || (
+        <div className="w-full flex justify-between items-center mb-8 bg-slate-800/50 p-4 rounded-xl border border-slate-700 backdrop-blur-sm">
+          <div className="flex flex-col">
+            <span className="text-slate-400 text-xs uppercase">{t.score}</span>
+            <span className="text-2xl font-bold text-emerald-400">{score}</span>
+          </div>
+
+          <div className="flex items-center gap-4">
+            {/* Penalty rules of this mode */}
+            {livesLeft !== null && penaltyRules.lives !== undefined && (
+              <div className="flex items-center gap-0.5" aria-label={t.livesLabel}>
+                {Array.from({ length: penaltyRules.lives }, (_, i) => (
+                  <Heart key={i} className={`w-5 h-5 ${i < livesLeft ? 'text-red-500 fill-red-500' : 'text-slate-600'}`} />
+                ))}
+              </div>
+            )}
+            {penaltyRules.maxAttemptsPerRound !== undefined && (
+              <div className="flex flex-col items-center">
+                <span className="text-slate-400 text-xs uppercase">{t.attemptsLabel}</span>
+                <span className="text-sm font-bold font-mono text-slate-200" dir="ltr">{penaltyRules.maxAttemptsPerRound - wrongAttempts}/{penaltyRules.maxAttemptsPerRound}</span>
+              </div>
+            )}
+            <button
+              onClick={() => onPauseChange(true)}
+              disabled={validating}
+              aria-label={t.pause}
+              className="w-10 h-10 rounded-full bg-slate-700 hover:bg-slate-600 text-slate-200 flex items-center justify-center transition-colors disabled:opacity-50"
+            >
+              <Pause className="w-5 h-5" />
+            </button>
+          </div>
         
-        <div className="flex flex-col items-end">
-          <span className="text-slate-400 text-xs uppercase">الوقت المتبقي</span>
-          <span className={`text-2xl font-bold font-mono ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
-            {timeLeft}s
-          </span>
+          <div className="flex flex-col items-end">
+            <span className="text-slate-400 text-xs uppercase">{t.timeLeft}</span>
+            <span className={`text-2xl font-bold font-mono ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+              {timeLeft}s
+            </span>
+            {penaltyRules.wrongAnswerSeconds !== undefined && (
+              <span className="text-[10px] text-red-400/80">{t.wrongAnswerCost(penaltyRules.wrongAnswerSeconds)}</span>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Cards Arena */}
       <div className="relative w-full flex flex-col md:flex-row items-center justify-center gap-8 mb-10">
@@ -235,30 +397,61 @@ const GameScreen: React.FC<GameScreenProps> = ({
 
       {/* Input Area */}
       <div className="w-full max-w-md relative z-20">
-        <form onSubmit={handleSubmit} className="relative">
-          <input
-            ref={inputRef}
-            type="text"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            disabled={validating}
-            placeholder="اكتب اسم اللاعب الذي يربط بينهما..."
-            className={`
-              w-full bg-slate-800 text-white placeholder-slate-500
-              border-2 ${feedback.type === 'error' ? 'border-red-500' : feedback.type === 'success' ? 'border-emerald-500' : 'border-slate-600 focus:border-emerald-500'}
-              rounded-full py-4 px-6 pr-14 text-lg text-right
-              outline-none transition-all shadow-lg
-              disabled:opacity-50 disabled:cursor-not-allowed
-            `}
-          />
-          <button
-            type="submit"
-            disabled={!input.trim() || validating}
-            className="absolute left-2 top-2 bottom-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-full w-10 h-10 flex items-center justify-center transition-colors disabled:bg-slate-700 disabled:text-slate-500"
-          >
-            {validating ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowRight className="w-5 h-5 transform rotate-180" />}
-          </button>
-        </form>
+        {choices ? (
+          <div>
+            <p className="mb-3 text-center text-xs text-slate-500">{t.choicePrompt}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {choices.map((choice, index) => {
+                const isWrong = wrongChoices.includes(index);
+                const isRight = feedback.type === 'success' && index === rightChoice;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => handleChoice(index)}
+                    disabled={validating || isWrong}
+                    className={`
+                      flex items-center gap-3 rounded-2xl border-2 px-4 py-3 text-start font-bold transition-all shadow-lg
+                      ${isRight ? 'bg-emerald-500/20 border-emerald-500 text-emerald-200'
+                        : isWrong ? 'bg-red-500/10 border-red-500/50 text-red-300/70 line-through'
+                        : 'bg-slate-800 border-slate-600 text-white hover:border-emerald-500'}
+                      disabled:cursor-not-allowed
+                    `}
+                  >
+                    <span className="w-7 h-7 shrink-0 rounded-full bg-slate-700 text-slate-300 text-sm flex items-center justify-center font-mono">
+                      {index === pendingChoice ? <Loader2 className="w-4 h-4 animate-spin" /> : index + 1}
+                    </span>
+                    <span>{choice}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="relative">
+            <input
+              ref={inputRef}
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              disabled={validating}
+              placeholder={t.answerPlaceholder}
+              className={`
+                w-full bg-slate-800 text-white placeholder-slate-500
+                border-2 ${feedback.type === 'error' ? 'border-red-500' : feedback.type === 'success' ? 'border-emerald-500' : 'border-slate-600 focus:border-emerald-500'}
+                rounded-full py-4 ps-6 pe-14 text-lg text-start
+                outline-none transition-all shadow-lg
+                disabled:opacity-50 disabled:cursor-not-allowed
+              `}
+            />
+            <button
+              type="submit"
+              disabled={!input.trim() || validating}
+              className="absolute end-2 top-2 bottom-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-full w-10 h-10 flex items-center justify-center transition-colors disabled:bg-slate-700 disabled:text-slate-500"
+            >
+              {validating ? <Loader2 className="w-5 h-5 animate-spin" /> : <ArrowRight className="w-5 h-5 transform rtl:rotate-180" />}
+            </button>
+          </form>
+        )}
 
         {/* Feedback Message */}
         {feedback.message && (
@@ -267,16 +460,72 @@ const GameScreen: React.FC<GameScreenProps> = ({
             <span className="font-medium">{feedback.message}</span>
           </div>
         )}
+        {feedback.message && feedback.source && (
+          <p className="mt-1 text-center text-xs text-slate-500">
+            {t.verdictSource(t.verdictSources[feedback.source])}
+          </p>
+        )}
+        {feedback.penalty && (
+          <p className="mt-1 text-center text-xs font-bold text-red-400">
+            {[
+              feedback.penalty.secondsLost > 0 && t.penaltySeconds(feedback.penalty.secondsLost),
+              feedback.penalty.livesLeft !== null && t.penaltyLife(feedback.penalty.livesLeft),
+              feedback.penalty.roundOver && t.outOfAttempts
+            ].filter(Boolean).join(' · ')}
+          </p>
+        )}
+        {feedback.score && (
+          <ScoreBreakdown score={feedback.score} className="mt-3 bg-slate-800/60 border border-slate-700 rounded-lg p-3 animate-in fade-in" />
+        )}
 
-        <button 
-          onClick={handleSkip}
-          disabled={validating}
-          className="w-full mt-4 text-slate-500 hover:text-slate-300 text-sm transition-colors"
-        >
-          تخطي السؤال (بدون نقاط)
-        </button>
+        {/* Hints: bought one tier at a time with seconds from the clock */}
+        {hintsShown.length > 0 && (
+          <ul className="mt-4 space-y-2">
+            {hintsShown.map(type => (
+              <li key={type} className="flex items-center gap-2 rounded-lg bg-yellow-500/10 border border-yellow-500/20 px-3 py-2 text-sm text-yellow-100 animate-in fade-in">
+                <Lightbulb className="w-4 h-4 shrink-0 text-yellow-400" />
+                <span className="text-yellow-400/80">{t.hintTypes[type]}:</span>
+                <span className="font-bold">{formatHint(type)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {hintTypes.length > 0 && (
+          <button
+            onClick={handleHint}
+            disabled={!nextHint || validating || hintLoading || timeLeft <= nextHintCost}
+            className="w-full mt-4 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-yellow-300 text-sm font-bold py-2.5 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {hintLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lightbulb className="w-4 h-4" />}
+            {nextHint ? t.hintButton(t.hintTypes[nextHint], nextHintCost) : t.noMoreHints}
+          </button>
+        )}
+
+        {onSkip && (
+          <button 
+            onClick={handleSkip}
+            disabled={validating || hintLoading}
+            className="w-full mt-4 text-slate-500 hover:text-slate-300 text-sm transition-colors"
+          >
+            {t.skipQuestion}
+          </button>
+        )}
       </div>
-      
+
+      {/* Pause Screen: hides the cards so the clock can't be stopped to think */}
+      {isPaused && (
+        <div className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-6 bg-slate-950/95 backdrop-blur-xl animate-in fade-in duration-200">
+          <h3 className="text-3xl font-bold text-white">{t.paused}</h3>
+          <p className="text-slate-400 font-mono">{timeLeft}s</p>
+          <button
+            onClick={() => onPauseChange(false)}
+            className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-4 px-10 rounded-full flex items-center gap-3 transition-colors"
+          >
+            <Play className="w-5 h-5 fill-white" />
+            {t.resume}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,324 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RoomError, RoomPhase, RoomSettings, RoomSnapshot } from '../types';
+import { ConnectionStatus, RoomConnection, createRoomConnection } from '../services/roomConnection';
+import { HINT_TIME_COSTS } from '../services/gameEngine';
+import { useI18n } from '../services/i18n';
+import GameScreen from './GameScreen';
+import { Loader2, LogOut, Play, Swords, Trophy, Users, WifiOff } from 'lucide-react';
+
+interface HeadToHeadScreenProps {
+  settings: Omit<RoomSettings, 'rounds'>; // As picked on the menu, for a room this player creates
+  defaultName: string;
+  onClose: () => void;
+}
+
+const ROUND_CHOICES = [5, 10, 15];
+const MAX_NAME_LENGTH = 20;
+
+// Replaces the solo header during a match: both players' scores around the server's clock
+const Scoreboard = ({ room, playerId, timeLeft }: { room: RoomSnapshot; playerId: string; timeLeft: number | null }) => {
+  const { t } = useI18n();
+  return (
+    <div className="w-full flex justify-between items-center mb-8 bg-slate-800/50 p-4 rounded-xl border border-slate-700 backdrop-blur-sm">
+      {room.players.map((player, i) => (
+        <div key={player.id} className={`flex flex-col ${i === 0 ? 'items-start' : 'items-end order-last'}`}>
+          <span className={`text-xs uppercase flex items-center gap-1 ${player.connected ? 'text-slate-400' : 'text-red-400'}`}>
+            {!player.connected && <WifiOff className="w-3 h-3" />}
+            {player.id === playerId ? t.you : player.name}
+          </span>
+          <span className={`text-2xl font-bold ${player.id === playerId ? 'text-emerald-400' : 'text-blue-400'}`}>{player.score}</span>
+        </div>
+      ))}
+      <div className="flex flex-col items-center">
+        <span className="text-slate-400 text-xs uppercase">{t.roundOf(room.roundNumber, room.settings.rounds)}</span>
+        {timeLeft !== null && (
+          <span className={`text-2xl font-bold font-mono ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+            {timeLeft}s
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const HeadToHeadScreen: React.FC<HeadToHeadScreenProps> = ({ settings, defaultName, onClose }) => {
+  const { t } = useI18n();
+  const [room, setRoom] = useState<RoomSnapshot | null>(null);
+  const [playerId, setPlayerId] = useState('');
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [error, setError] = useState<RoomError | null>(null);
+  const [name, setName] = useState(defaultName.slice(0, MAX_NAME_LENGTH));
+  const [code, setCode] = useState('');
+  const [rounds, setRounds] = useState(ROUND_CHOICES[1]);
+  const [deadline, setDeadline] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const connection = useRef<RoomConnection | null>(null);
+
+  // One connection while the screen is open; it resumes the seat of a reloaded tab by itself
+  useEffect(() => {
+    const roomConnection = createRoomConnection({
+      onRoom: (snapshot, id) => {
+        setRoom(snapshot);
+        setPlayerId(id);
+        setError(null);
+        setDeadline(Date.now() + snapshot.remainingMs);
+        setNow(Date.now());
+      },
+      onError: setError,
+      onStatus: setStatus,
+      onLeft: () => setRoom(null)
+    });
+    connection.current = roomConnection;
+    return () => roomConnection.close();
+  }, []);
+
+  // The server's clock ends the round; this only redraws the seconds between its updates
+  useEffect(() => {
+    if (room?.phase !== RoomPhase.ROUND || room.paused) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [room?.phase, room?.paused]);
+
+  const leave = () => {
+    connection.current?.leave();
+    onClose();
+  };
+
+  const me = room?.players.find(player => player.id === playerId);
+  const opponent = room?.players.find(player => player.id !== playerId);
+  const away = room?.players.find(player => !player.connected);
+  const timeLeft = room?.phase === RoomPhase.ROUND
+    ? Math.ceil(Math.max(0, room.paused ? room.remainingMs : deadline - now) / 1000)
+    : null;
+  const nameValid = name.trim().length >= 2;
+
+  const errorMessage = error && <p className="text-sm text-red-400 text-center">{t.roomErrors[error]}</p>;
+
+  const leaveButton = (
+    <button
+      onClick={leave}
+      className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+    >
+      <LogOut className="w-4 h-4 rtl:-scale-x-100" />
+      {room ? t.leaveRoom : t.mainMenu}
+    </button>
+  );
+
+  const panel = (children: React.ReactNode) => (
+    <div className="flex-1 flex flex-col items-center justify-center py-6 animate-in fade-in duration-300">
+      <div className="bg-slate-800/80 p-6 md:p-8 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-md w-full space-y-5 text-center">
+        {children}
+      </div>
+    </div>
+  );
+
+  const renderRoom = () => {
+    // --- Create or join ---
+    if (!room) {
+      return panel(
+        <>
+          <h2 className="text-2xl font-bold text-white flex items-center justify-center gap-2">
+            <Swords className="w-6 h-6 text-rose-400" />
+            {t.headToHeadTitle}
+          </h2>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            maxLength={MAX_NAME_LENGTH}
+            placeholder={t.yourName}
+            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+          />
+          <div className="space-y-2">
+            <div className="text-xs text-slate-500 uppercase tracking-widest">{t.roundsLabel}</div>
+            <div className="grid grid-cols-3 gap-2 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+              {ROUND_CHOICES.map(count => (
+                <button
+                  key={count}
+                  onClick={() => setRounds(count)}
+                  className={`py-2 rounded-xl font-bold text-sm transition-all ${rounds === count ? 'bg-slate-800 border border-slate-600 text-white' : 'text-slate-500 hover:bg-slate-800 border border-transparent'}`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => connection.current?.create(name.trim(), { ...settings, rounds })}
+            disabled={!nameValid}
+            className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-colors"
+          >
+            {t.createRoom}
+          </button>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={e => setCode(e.target.value.toUpperCase())}
+              maxLength={5}
+              placeholder={t.roomCodePlaceholder}
+              dir="ltr"
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white font-mono tracking-widest text-center placeholder-slate-500 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={() => connection.current?.join(code.trim(), name.trim())}
+              disabled={!nameValid || code.trim().length === 0}
+              className="bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white font-bold px-6 rounded-xl transition-colors"
+            >
+              {t.joinRoom}
+            </button>
+          </div>
+          {errorMessage}
+          {leaveButton}
+        </>
+      );
+    }
+
+    const isHost = !!me?.isHost;
+    const canStart = isHost && room.players.length === 2 && room.players.every(player => player.connected);
+    const startButton = (label: string) => canStart && (
+      <button
+        onClick={() => connection.current?.start()}
+        className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+      >
+        <Play className="w-4 h-4" />
+        {label}
+      </button>
+    );
+
+    switch (room.phase) {
+      // --- Waiting room ---
+      case RoomPhase.LOBBY:
+        return panel(
+          <>
+            <div className="text-xs text-slate-500 uppercase tracking-widest">{t.roomCodeHint}</div>
+            <div className="text-5xl font-black font-mono tracking-[0.3em] text-white" dir="ltr">{room.code}</div>
+            <ul className="space-y-2">
+              {room.players.map(player => (
+                <li key={player.id} className="flex items-center justify-center gap-2 text-slate-200">
+                  <Users className="w-4 h-4 text-slate-500" />
+                  <span className="font-bold">{player.name}</span>
+                  {player.id === playerId && <span className="text-xs text-slate-500">({t.you})</span>}
+                </li>
+              ))}
+            </ul>
+            {startButton(t.startMatch) || (
+              <p className="text-sm text-slate-400 animate-pulse">{room.players.length < 2 ? t.waitingForOpponent : t.waitingForHost}</p>
+            )}
+            {errorMessage}
+            {leaveButton}
+          </>
+        );
+
+      case RoomPhase.LOADING:
+        return (
+          <div className="flex flex-col items-center w-full max-w-4xl mx-auto px-4 py-6 min-h-[80vh] justify-center">
+            <Scoreboard room={room} playerId={playerId} timeLeft={null} />
+            <Loader2 className="w-10 h-10 text-emerald-400 animate-spin mb-4" />
+            <p className="text-slate-300 font-bold">{t.loadingRound}</p>
+          </div>
+        );
+
+      // --- A round: the solo game screen, answering to the room ---
+      case RoomPhase.ROUND:
+        return room.challenge && (
+          <GameScreen
+            key={room.challenge.id}
+            challenge={room.challenge}
+            header={<Scoreboard room={room} playerId={playerId} timeLeft={timeLeft} />}
+            validate={answer => connection.current.answer(answer)}
+            onAnswerSubmitted={() => {}}
+            // The room keeps the score and moves on when the round is won
+            onVerdict={() => ({ score: null, penalty: null })}
+            onCheckFailed={() => {}}
+            onNextRound={() => {}}
+            penaltyRules={{}}
+            livesLeft={null}
+            score={me?.score || 0}
+            timeLeft={timeLeft}
+            isPaused={false}
+            onPauseChange={() => {}}
+            hintTimeCosts={HINT_TIME_COSTS}
+            onHint={() => Promise.reject(new Error('No hints in head-to-head'))}
+          />
+        );
+
+      case RoomPhase.ROUND_OVER: {
+        const result = room.result;
+        const winner = room.players.find(player => player.id === result?.winnerId);
+        return (
+          <div className="flex flex-col items-center w-full max-w-4xl mx-auto px-4 py-6 min-h-[80vh] justify-center">
+            <Scoreboard room={room} playerId={playerId} timeLeft={null} />
+            <div className="bg-slate-800/80 p-6 rounded-3xl border border-slate-700 max-w-md w-full text-center space-y-3 animate-in zoom-in duration-300">
+              <h3 className={`text-2xl font-bold ${!winner ? 'text-slate-300' : winner.id === playerId ? 'text-emerald-400' : 'text-blue-400'}`}>
+                {!winner ? t.nobodyWonRound : winner.id === playerId ? t.youWonRound : t.roundWonBy(winner.name)}
+              </h3>
+              {result?.answer && <p className="text-white font-bold">{t.winningAnswer(result.answer)}</p>}
+              {result && result.acceptedAnswers.length > 0 && (
+                <>
+                  <div className="text-xs text-slate-500 uppercase tracking-widest">{t.acceptedAnswers}</div>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {result.acceptedAnswers.map(answer => (
+                      <span key={answer} className="px-3 py-1 rounded-full bg-slate-700 text-slate-200 text-sm">{answer}</span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      }
+
+      // --- Match over ---
+      case RoomPhase.FINISHED: {
+        const outcome = !opponent ? t.opponentLeft
+          : me.score > opponent.score ? t.matchWon
+          : me.score < opponent.score ? t.matchLost(opponent.name)
+          : t.matchDraw;
+        return panel(
+          <>
+            <Trophy className={`w-12 h-12 mx-auto ${opponent && me.score <= opponent.score ? 'text-slate-500' : 'text-yellow-400'}`} />
+            <h2 className="text-3xl font-bold text-white">{outcome}</h2>
+            <div className="flex justify-center gap-8">
+              {room.players.map(player => (
+                <div key={player.id}>
+                  <div className="text-xs text-slate-400 uppercase">{player.id === playerId ? t.you : player.name}</div>
+                  <div className="text-4xl font-black text-white">{player.score}</div>
+                </div>
+              ))}
+            </div>
+            {startButton(t.rematch) || (room.players.length === 2 && (
+              <p className="text-sm text-slate-400">{t.waitingForHost}</p>
+            ))}
+            {errorMessage}
+            {leaveButton}
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {status === 'reconnecting' && (
+        <div className="fixed top-4 inset-x-0 z-50 mx-auto w-fit flex items-center gap-2 bg-red-500/20 border border-red-500/40 text-red-200 text-sm font-bold px-4 py-2 rounded-full">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t.reconnecting}
+        </div>
+      )}
+
+      {renderRoom()}
+
+      {/* A player dropped: the server's clock waits for them, and so do the cards */}
+      {room?.paused && away && (
+        <div className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-6 bg-slate-950/95 backdrop-blur-xl animate-in fade-in duration-200 px-6 text-center">
+          <WifiOff className="w-12 h-12 text-red-400" />
+          <h3 className="text-2xl font-bold text-white">{t.waitingForReconnect(away.name)}</h3>
+          <button onClick={leave} className="text-slate-400 hover:text-slate-200 text-sm transition-colors">{t.leaveRoom}</button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default HeadToHeadScreen;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { BoardRanks, Difficulty, GameMode, LeaderboardEntry } from '../types';
+import { ApiError, fetchLeaderboard } from '../services/geminiService';
+import { Medal, Send } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface LeaderboardPanelProps {
+  mode: GameMode;
+  difficulty: Difficulty;
+  defaultNickname: string;
+  ranks: BoardRanks | null; // Once this game's run was accepted
+  onSubmit: (nickname: string) => Promise<void>;
+}
+
+const MAX_NICKNAME_LENGTH = 20;
+const TOP_ENTRIES = 5;
+
+// The nickname prompt on the game-over screen, then where the run landed and today's top of its board
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ mode, difficulty, defaultNickname, ranks, onSubmit }) => {
+  const { t } = useI18n();
+  const [nickname, setNickname] = useState(defaultNickname.slice(0, MAX_NICKNAME_LENGTH));
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [top, setTop] = useState<LeaderboardEntry[]>([]);
+
+  useEffect(() => {
+    if (!ranks) return;
+    let cancelled = false;
+    fetchLeaderboard(mode, difficulty, 'daily')
+      .then(entries => {
+        if (!cancelled) setTop(entries.slice(0, TOP_ENTRIES));
+      })
+      .catch(e => console.error("Failed to load the leaderboard:", e));
+    return () => { cancelled = true; };
+  }, [ranks, mode, difficulty]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (nickname.trim().length < 2 || submitting) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(nickname.trim());
+    } catch (err: unknown) {
+      // 422: the server replayed the run and couldn't verify it
+      setError(err instanceof ApiError && err.status === 422 ? t.runRejected : t.leaderboardUnavailable);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-700 bg-slate-900/50 p-4 text-start">
+      <div className="flex items-center gap-2 text-xs text-slate-500 uppercase tracking-widest mb-3">
+        <Medal className="w-4 h-4" />
+        {t.leaderboardTitle}
+      </div>
+
+      {ranks ? (
+        <>
+          <div className="flex justify-around text-center mb-4">
+            <div>
+              <div className="text-3xl font-black text-yellow-400">#{ranks.daily}</div>
+              <div className="text-xs text-slate-400">{t.rankToday}</div>
+            </div>
+            <div>
+              <div className="text-3xl font-black text-emerald-400">#{ranks.allTime}</div>
+              <div className="text-xs text-slate-400">{t.rankAllTime}</div>
+            </div>
+          </div>
+          {top.length > 0 && (
+            <ol className="space-y-1 text-sm">
+              {top.map((entry, i) => (
+                <li key={entry.id} className="flex justify-between text-slate-300">
+                  <span><span className="text-slate-500 font-mono me-2">{i + 1}.</span>{entry.nickname}</span>
+                  <span className="font-mono font-bold">{entry.score}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={nickname}
+              onChange={e => setNickname(e.target.value)}
+              maxLength={MAX_NICKNAME_LENGTH}
+              placeholder={t.nicknamePlaceholder}
+              className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-xl px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+            />
+            <button
+              type="submit"
+              disabled={nickname.trim().length < 2 || submitting}
+              className="bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold px-4 rounded-xl transition-colors flex items-center gap-2"
+            >
+              <Send className="w-4 h-4 rtl:-scale-x-100" />
+              {submitting ? t.submittingRun : t.submitRun}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
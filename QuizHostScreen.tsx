@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChallengeSource, Difficulty, QuizError, QuizPhase, QuizRole, QuizSettings, QuizSnapshot, QuizTheme } from '../types';
+import { ConnectionStatus } from '../services/roomConnection';
+import { QuizConnection, createQuizConnection } from '../services/quizConnection';
+import { useI18n } from '../services/i18n';
+import Card from './Card';
+import QuizScoreboard from './QuizScoreboard';
+import { Check, Eye, Loader2, LogOut, MonitorPlay, Play, SkipForward, Square, X } from 'lucide-react';
+
+const ROUND_CHOICES = [5, 10, 15, 20];
+const POINT_CHOICES = [1, 2, 3];
+
+const choiceClass = (selected: boolean) =>
+  `py-2 rounded-xl font-bold text-sm transition-all ${selected ? 'bg-slate-800 border border-slate-600 text-white' : 'text-slate-500 hover:bg-slate-800 border border-transparent'}`;
+
+// Rounds, difficulty, themes and points: picked before the quiz, and changeable between quizzes
+const SettingsForm = ({ settings, onChange }: { settings: QuizSettings; onChange: (settings: QuizSettings) => void }) => {
+  const { t } = useI18n();
+  const toggleTheme = (theme: QuizTheme) => onChange({
+    ...settings,
+    themes: settings.themes.includes(theme) ? settings.themes.filter(picked => picked !== theme) : [...settings.themes, theme]
+  });
+
+  const row = (label: string, children: React.ReactNode, hint?: string) => (
+    <div className="space-y-2">
+      <div className="text-xs text-slate-500 uppercase tracking-widest">{label}</div>
+      {children}
+      {hint && <div className="text-xs text-slate-600">{hint}</div>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 text-center">
+      {row(t.roundsLabel, (
+        <div className="grid grid-cols-4 gap-2 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+          {ROUND_CHOICES.map(count => (
+            <button key={count} onClick={() => onChange({ ...settings, rounds: count })} className={choiceClass(settings.rounds === count)}>
+              {count}
+            </button>
+          ))}
+        </div>
+      ))}
+      {row(t.chooseDifficulty, (
+        <div className="grid grid-cols-3 gap-2 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+          {Object.values(Difficulty).map(difficulty => (
+            <button key={difficulty} onClick={() => onChange({ ...settings, difficulty })} className={choiceClass(settings.difficulty === difficulty)}>
+              {t.difficulties[difficulty]}
+            </button>
+          ))}
+        </div>
+      ))}
+      {row(t.quizThemesLabel, (
+        <div className="flex flex-wrap justify-center gap-2">
+          {Object.values(QuizTheme).map(theme => (
+            <button
+              key={theme}
+              onClick={() => toggleTheme(theme)}
+              className={`px-3 py-1.5 rounded-full text-sm font-bold border transition-colors ${settings.themes.includes(theme) ? 'bg-violet-500/20 border-violet-500/50 text-violet-200' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-slate-300'}`}
+            >
+              {t.quizThemes[theme]}
+            </button>
+          ))}
+        </div>
+      ), t.quizThemesHint)}
+      {row(t.quizPointsLabel, (
+        <div className="grid grid-cols-3 gap-2 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+          {POINT_CHOICES.map(points => (
+            <button key={points} onClick={() => onChange({ ...settings, points })} className={choiceClass(settings.points === points)}>
+              {points}
+            </button>
+          ))}
+        </div>
+      ))}
+      {row(t.challengeSourceTitle, (
+        <div className="grid grid-cols-3 gap-2 p-1.5 bg-slate-900 rounded-2xl border border-slate-800">
+          {Object.values(ChallengeSource).map(source => (
+            <button key={source} onClick={() => onChange({ ...settings, source })} className={choiceClass(settings.source === source)}>
+              {t.challengeSources[source]}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/** The quiz master's control panel: runs on the host's laptop, next to the projector view. */
+const QuizHostScreen: React.FC = () => {
+  const { t, locale } = useI18n();
+  const [quiz, setQuiz] = useState<QuizSnapshot | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [error, setError] = useState<QuizError | null>(null);
+  const [settings, setSettings] = useState<QuizSettings>({
+    difficulty: Difficulty.MEDIUM,
+    source: ChallengeSource.AUTO,
+    locale,
+    rounds: ROUND_CHOICES[1],
+    themes: [],
+    points: POINT_CHOICES[0]
+  });
+  const [resuming, setResuming] = useState(false);
+  const connection = useRef<QuizConnection | null>(null);
+
+  useEffect(() => {
+    const quizConnection = createQuizConnection(QuizRole.HOST, {
+      onQuiz: snapshot => {
+        setQuiz(snapshot);
+        setResuming(false);
+        setError(null);
+      },
+      onError: setError,
+      onStatus: setStatus,
+      onLeft: () => {
+        setQuiz(null);
+        setResuming(false);
+      }
+    });
+    connection.current = quizConnection;
+    setResuming(!!quizConnection.session());
+    return () => quizConnection.close();
+  }, []);
+
+  const errorMessage = error && <p className="text-sm text-red-400 text-center">{t.quizErrors[error]}</p>;
+
+  const button = (onClick: () => void, label: string, Icon: React.ElementType, colors: string) => (
+    <button
+      onClick={onClick}
+      className={`flex-1 flex items-center justify-center gap-2 font-bold py-3 px-4 rounded-xl transition-colors ${colors}`}
+    >
+      <Icon className="w-4 h-4 rtl:-scale-x-100" />
+      {label}
+    </button>
+  );
+
+  const renderQuiz = () => {
+    // --- Set up a quiz ---
+    if (!quiz) {
+      if (resuming) {
+        return (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-10 h-10 text-emerald-400 animate-spin" />
+          </div>
+        );
+      }
+      return (
+        <div className="flex-1 flex flex-col items-center justify-center py-6 animate-in fade-in duration-300">
+          <div className="bg-slate-800/80 p-6 md:p-8 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-md w-full space-y-5 text-center">
+            <h2 className="text-2xl font-bold text-white flex items-center justify-center gap-2">
+              <MonitorPlay className="w-6 h-6 text-violet-400" />
+              {t.quizNightTitle}
+            </h2>
+            <SettingsForm settings={settings} onChange={setSettings} />
+            <button
+              onClick={() => connection.current?.host({ ...settings, locale })}
+              className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-xl transition-colors"
+            >
+              {t.hostQuiz}
+            </button>
+            {errorMessage}
+            <a href="/" className="block text-slate-400 hover:text-slate-200 text-sm transition-colors">{t.mainMenu}</a>
+          </div>
+        </div>
+      );
+    }
+
+    const between = quiz.phase === QuizPhase.LOBBY || quiz.phase === QuizPhase.FINISHED;
+    const projectorLink = (
+      <a
+        href={`?quiz=screen&code=${quiz.code}`}
+        target="_blank"
+        rel="noreferrer"
+        className="flex items-center justify-center gap-2 bg-violet-500/10 hover:bg-violet-500/20 border border-violet-500/30 text-violet-300 text-sm font-bold px-4 py-2 rounded-xl transition-colors"
+      >
+        <MonitorPlay className="w-4 h-4" />
+        {t.openProjector}
+      </a>
+    );
+
+    // --- Lobby, and between quizzes ---
+    if (between) {
+      const winner = quiz.phase === QuizPhase.FINISHED && [...quiz.teams].sort((a, b) => b.score - a.score)[0];
+      return (
+        <div className="grid md:grid-cols-2 gap-6 w-full max-w-5xl mx-auto py-6 animate-in fade-in duration-300">
+          <div className="space-y-5 text-center">
+            <div className="bg-slate-800/80 p-6 rounded-3xl border border-slate-700 space-y-3">
+              <div className="text-xs text-slate-500 uppercase tracking-widest">{t.quizCodeLabel}</div>
+              <div className="text-5xl font-black font-mono tracking-[0.3em] text-white" dir="ltr">{quiz.code}</div>
+              {projectorLink}
+            </div>
+            {winner && <h2 className="text-3xl font-bold text-yellow-400">{t.quizWonBy(winner.name)}</h2>}
+            <QuizScoreboard quiz={quiz} onAward={quiz.phase === QuizPhase.FINISHED ? connection.current?.award : undefined} />
+            {quiz.teams.length === 0 && <p className="text-sm text-slate-400 animate-pulse">{t.waitingForTeams}</p>}
+          </div>
+          <div className="bg-slate-800/80 p-6 rounded-3xl border border-slate-700 space-y-5">
+            <SettingsForm settings={quiz.settings} onChange={next => connection.current?.settings(next)} />
+            <button
+              onClick={() => connection.current?.start()}
+              disabled={quiz.teams.length === 0}
+              className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <Play className="w-4 h-4" />
+              {quiz.phase === QuizPhase.FINISHED ? t.playAgain : t.startQuiz}
+            </button>
+            {errorMessage}
+            <button
+              onClick={() => connection.current?.leave()}
+              className="w-full bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <LogOut className="w-4 h-4 rtl:-scale-x-100" />
+              {t.closeQuiz}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    // --- A round ---
+    const buzzing = quiz.teams.find(team => team.id === quiz.buzz?.teamId);
+    const scorer = quiz.teams.find(team => team.id === quiz.result?.teamId);
+    const suggestion = quiz.host?.suggestion;
+    const lastRound = quiz.roundNumber >= quiz.settings.rounds;
+
+    return (
+      <div className="grid lg:grid-cols-[1fr_20rem] gap-6 w-full max-w-6xl mx-auto py-6">
+        <div className="space-y-5">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-slate-400 text-sm uppercase font-bold">{t.roundOf(quiz.roundNumber, quiz.settings.rounds)}</span>
+            <span className="text-slate-500 font-mono tracking-widest" dir="ltr">{quiz.code}</span>
+          </div>
+
+          {quiz.phase === QuizPhase.LOADING || !quiz.challenge ? (
+            <div className="flex flex-col items-center py-16">
+              <Loader2 className="w-10 h-10 text-emerald-400 animate-spin mb-4" />
+              <p className="text-slate-300 font-bold">{t.loadingRound}</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex justify-center items-center gap-4">
+                <Card entity={quiz.challenge.cardA} compact />
+                <Card entity={quiz.challenge.cardB} compact animationDelay="0.1s" />
+              </div>
+
+              {/* Only the host sees these before the reveal */}
+              <div className="bg-slate-900/60 p-4 rounded-2xl border border-slate-800 space-y-2 text-center">
+                <div className="text-xs text-slate-500 uppercase tracking-widest">{t.acceptedAnswers}</div>
+                <div className="flex flex-wrap justify-center gap-2">
+                  {quiz.host?.acceptedAnswers.map(answer => (
+                    <span key={answer} className="px-3 py-1 rounded-full bg-slate-700 text-slate-200 text-sm">{answer}</span>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {quiz.phase === QuizPhase.BUZZED && buzzing && (
+            <div className="bg-amber-500/10 p-5 rounded-2xl border border-amber-500/40 space-y-3 text-center animate-in zoom-in duration-200">
+              <h3 className="text-2xl font-bold text-amber-300">{t.buzzedIn(buzzing.name)}</h3>
+              {quiz.buzz.answer === null ? (
+                <p className="text-slate-400 animate-pulse">{t.waitingForTeamAnswer}</p>
+              ) : (
+                <>
+                  <p className="text-xl text-white font-bold">{t.winningAnswer(quiz.buzz.answer)}</p>
+                  <p className="text-sm">
+                    <span className="text-slate-500">{t.suggestionLabel}: </span>
+                    {!suggestion ? (
+                      <span className="text-slate-400">{t.suggestionChecking}</span>
+                    ) : (
+                      <span className={suggestion.isValid ? 'text-emerald-400 font-bold' : 'text-red-400 font-bold'}>
+                        {suggestion.isValid ? t.suggestionCorrect : t.suggestionWrong}
+                        {suggestion.reason && <span className="text-slate-400 font-normal"> · {suggestion.reason}</span>}
+                      </span>
+                    )}
+                  </p>
+                </>
+              )}
+              <div className="flex gap-3">
+                {button(() => connection.current?.accept(), t.acceptAnswer, Check, 'bg-emerald-500 hover:bg-emerald-600 text-white')}
+                {button(() => connection.current?.reject(), t.rejectAnswer, X, 'bg-red-500 hover:bg-red-600 text-white')}
+              </div>
+            </div>
+          )}
+
+          {quiz.phase === QuizPhase.REVEALED && (
+            <h3 className={`text-2xl font-bold text-center ${scorer ? 'text-emerald-400' : 'text-slate-300'}`}>
+              {scorer ? t.teamScored(scorer.name, quiz.settings.points) : t.nobodyScored}
+            </h3>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {(quiz.phase === QuizPhase.OPEN || quiz.phase === QuizPhase.BUZZED) &&
+              button(() => connection.current?.reveal(), t.revealAnswers, Eye, 'bg-slate-700 hover:bg-slate-600 text-slate-200')}
+            {quiz.phase === QuizPhase.REVEALED &&
+              button(() => connection.current?.next(), lastRound ? t.finalStandings : t.next, SkipForward, 'bg-emerald-500 hover:bg-emerald-600 text-white')}
+          </div>
+          {errorMessage}
+        </div>
+
+        <div className="space-y-4">
+          <QuizScoreboard quiz={quiz} onAward={connection.current?.award} />
+          {projectorLink}
+          <button
+            onClick={() => connection.current?.end()}
+            className="w-full flex items-center justify-center gap-2 text-slate-400 hover:text-red-300 text-sm font-bold py-2 transition-colors"
+          >
+            <Square className="w-4 h-4" />
+            {t.endQuiz}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {status === 'reconnecting' && (
+        <div className="fixed top-4 inset-x-0 z-50 mx-auto w-fit flex items-center gap-2 bg-red-500/20 border border-red-500/40 text-red-200 text-sm font-bold px-4 py-2 rounded-full">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t.reconnecting}
+        </div>
+      )}
+      {renderQuiz()}
+    </>
+  );
+};
+
+export default QuizHostScreen;
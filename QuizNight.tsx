@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { Locale } from '../types';
+import { I18nContext, LOCALES, MESSAGES, loadLocale, saveLocale } from '../services/i18n';
+import QuizHostScreen from './QuizHostScreen';
+import QuizProjectorScreen from './QuizProjectorScreen';
+import QuizTeamScreen from './QuizTeamScreen';
+import { Languages } from 'lucide-react';
+
+export type QuizView = 'host' | 'screen' | 'team';
+
+interface QuizNightProps {
+  view: QuizView;
+  code: string;
+}
+
+/**
+ * Quiz night, opened from a link instead of the menu: `?quiz=host` on the host's laptop,
+ * `?quiz=screen` on the projector and `?quiz=team` on the teams' phones (each with `&code=`).
+ */
+const QuizNight: React.FC<QuizNightProps> = ({ view, code }) => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const t = MESSAGES[locale];
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  return (
+    <I18nContext.Provider value={{ locale, t }}>
+      <div dir={LOCALES[locale].dir} className="min-h-screen bg-slate-950 text-white font-sans selection:bg-emerald-500 selection:text-white">
+        <div className="fixed inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-slate-900 via-slate-950 to-black -z-10"></div>
+
+        <main className="container mx-auto px-4 min-h-screen flex flex-col">
+          {view === 'host' && <QuizHostScreen />}
+          {view === 'screen' && <QuizProjectorScreen code={code} />}
+          {view === 'team' && <QuizTeamScreen code={code} />}
+        </main>
+
+        {/* Everyone reads in their own language; the host's picks the rounds' */}
+        {view !== 'screen' && (
+          <div className="fixed bottom-4 end-4 flex items-center gap-1 bg-slate-900/80 border border-slate-800 rounded-xl p-1">
+            <Languages className="w-4 h-4 text-slate-500 mx-1" />
+            {Object.values(Locale).map(option => (
+              <button
+                key={option}
+                onClick={() => setLocale(option)}
+                className={`px-2 py-1 rounded-lg text-xs font-bold transition-colors ${locale === option ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {LOCALES[option].label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </I18nContext.Provider>
+  );
+};
+
+export default QuizNight;
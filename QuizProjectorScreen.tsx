@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QuizError, QuizPhase, QuizRole, QuizSnapshot } from '../types';
+import { QuizConnection, createQuizConnection, quizJoinUrl } from '../services/quizConnection';
+import { fetchQuizAddresses } from '../services/geminiService';
+import { useI18n } from '../services/i18n';
+import Card from './Card';
+import QuizScoreboard from './QuizScoreboard';
+import { BellRing, Loader2, MonitorPlay, Trophy } from 'lucide-react';
+
+interface QuizProjectorScreenProps {
+  code: string; // From the link on the host's panel; empty when opened by hand
+}
+
+/** What the room sees: the cards big, who buzzed, the answers once revealed, and the scores. */
+const QuizProjectorScreen: React.FC<QuizProjectorScreenProps> = ({ code: initialCode }) => {
+  const { t } = useI18n();
+  const [quiz, setQuiz] = useState<QuizSnapshot | null>(null);
+  const [error, setError] = useState<QuizError | null>(null);
+  const [code, setCode] = useState(initialCode.toUpperCase());
+  const [addresses, setAddresses] = useState<string[]>([]);
+  const connection = useRef<QuizConnection | null>(null);
+
+  useEffect(() => {
+    const quizConnection = createQuizConnection(QuizRole.SCREEN, {
+      onQuiz: snapshot => {
+        setQuiz(snapshot);
+        setError(null);
+      },
+      onError: setError,
+      onStatus: () => {},
+      onLeft: () => setQuiz(null)
+    });
+    connection.current = quizConnection;
+    // A reloaded tab watches again by itself; a fresh link asks for its quiz
+    if (initialCode && quizConnection.session()?.code !== initialCode.toUpperCase()) quizConnection.watch(initialCode);
+    return () => quizConnection.close();
+  }, [initialCode]);
+
+  useEffect(() => {
+    fetchQuizAddresses().then(setAddresses).catch(() => setAddresses([]));
+  }, []);
+
+  if (!quiz) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center py-6">
+        <div className="bg-slate-800/80 p-6 md:p-8 rounded-3xl border border-slate-700 max-w-md w-full space-y-5 text-center">
+          <h2 className="text-2xl font-bold text-white flex items-center justify-center gap-2">
+            <MonitorPlay className="w-6 h-6 text-violet-400" />
+            {t.quizNightTitle}
+          </h2>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={e => setCode(e.target.value.toUpperCase())}
+              maxLength={4}
+              placeholder={t.quizCodeLabel}
+              dir="ltr"
+              className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white font-mono tracking-widest text-center placeholder-slate-500 focus:outline-none focus:border-violet-500"
+            />
+            <button
+              onClick={() => connection.current?.watch(code.trim())}
+              disabled={code.trim().length === 0}
+              className="bg-violet-500 hover:bg-violet-600 disabled:opacity-50 text-white font-bold px-6 rounded-xl transition-colors"
+            >
+              {t.showOnProjector}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400">{t.quizErrors[error]}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const joinUrl = quizJoinUrl(quiz.code, addresses);
+  const standings = [...quiz.teams].sort((a, b) => b.score - a.score);
+  const buzzing = quiz.teams.find(team => team.id === quiz.buzz?.teamId);
+  const scorer = quiz.teams.find(team => team.id === quiz.result?.teamId);
+
+  // --- Teams joining ---
+  if (quiz.phase === QuizPhase.LOBBY) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-10 py-10 text-center animate-in fade-in duration-500">
+        <h1 className="text-5xl md:text-6xl font-black text-white">{t.quizNightTitle}</h1>
+        <div className="space-y-3">
+          <div className="text-xl text-slate-400">{t.quizJoinHint}</div>
+          <div className="text-3xl md:text-4xl font-bold text-violet-300 break-all" dir="ltr">{joinUrl}</div>
+          <div className="text-8xl font-black font-mono tracking-[0.3em] text-white pt-4" dir="ltr">{quiz.code}</div>
+        </div>
+        <div className="flex flex-wrap justify-center gap-3 max-w-4xl">
+          {quiz.teams.map(team => (
+            <span key={team.id} className="px-5 py-2 rounded-full bg-slate-800 border border-slate-700 text-2xl font-bold text-white animate-in zoom-in duration-300">
+              {team.name}
+            </span>
+          ))}
+        </div>
+        {quiz.teams.length === 0 && <p className="text-2xl text-slate-500 animate-pulse">{t.waitingForTeams}</p>}
+      </div>
+    );
+  }
+
+  // --- The end ---
+  if (quiz.phase === QuizPhase.FINISHED) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 py-10 max-w-3xl w-full mx-auto text-center animate-in fade-in duration-500">
+        <Trophy className="w-20 h-20 text-yellow-400" />
+        {standings[0] && <h1 className="text-5xl md:text-6xl font-black text-white">{t.quizWonBy(standings[0].name)}</h1>}
+        <div className="text-xl text-slate-400 uppercase tracking-widest">{t.finalStandings}</div>
+        <QuizScoreboard quiz={quiz} large />
+      </div>
+    );
+  }
+
+  // --- A round ---
+  return (
+    <div className="flex-1 grid xl:grid-cols-[1fr_24rem] gap-8 w-full py-6 items-start">
+      <div className="flex flex-col items-center gap-8">
+        <div className="text-2xl text-slate-400 uppercase font-bold">{t.roundOf(quiz.roundNumber, quiz.settings.rounds)}</div>
+
+        {quiz.phase === QuizPhase.LOADING || !quiz.challenge ? (
+          <div className="flex flex-col items-center py-24">
+            <Loader2 className="w-16 h-16 text-emerald-400 animate-spin mb-6" />
+            <p className="text-3xl text-slate-300 font-bold">{t.loadingRound}</p>
+          </div>
+        ) : (
+          <div className="flex justify-center items-center gap-6 md:gap-12 w-full">
+            <Card key={quiz.challenge.cardA.name} entity={quiz.challenge.cardA} large />
+            <span className="text-5xl font-black text-slate-600">+</span>
+            <Card key={quiz.challenge.cardB.name} entity={quiz.challenge.cardB} large animationDelay="0.1s" />
+          </div>
+        )}
+
+        {quiz.phase === QuizPhase.BUZZED && buzzing && (
+          <div className="flex flex-col items-center gap-3 bg-amber-500/10 border border-amber-500/40 px-10 py-6 rounded-3xl animate-in zoom-in duration-200">
+            <div className="flex items-center gap-4 text-5xl font-black text-amber-300">
+              <BellRing className="w-12 h-12 animate-bounce" />
+              {t.buzzedIn(buzzing.name)}
+            </div>
+            {quiz.buzz.answer && <div className="text-3xl font-bold text-white">{t.winningAnswer(quiz.buzz.answer)}</div>}
+          </div>
+        )}
+
+        {quiz.phase === QuizPhase.REVEALED && quiz.result && (
+          <div className="flex flex-col items-center gap-4 text-center animate-in zoom-in duration-300">
+            <h2 className={`text-5xl font-black ${scorer ? 'text-emerald-400' : 'text-slate-300'}`}>
+              {scorer ? t.teamScored(scorer.name, quiz.settings.points) : t.nobodyScored}
+            </h2>
+            <div className="text-lg text-slate-500 uppercase tracking-widest">{t.acceptedAnswers}</div>
+            <div className="flex flex-wrap justify-center gap-3">
+              {quiz.result.acceptedAnswers.map(answer => (
+                <span key={answer} className="px-5 py-2 rounded-full bg-slate-700 text-slate-100 text-2xl font-bold">{answer}</span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <QuizScoreboard quiz={quiz} large />
+        <div className="text-center text-slate-500 text-sm" dir="ltr">{joinUrl}</div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizProjectorScreen;
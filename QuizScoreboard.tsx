@@ -0,0 +1,62 @@
+import React from 'react';
+import { QuizSnapshot } from '../types';
+import { useI18n } from '../services/i18n';
+import { Minus, Plus, WifiOff } from 'lucide-react';
+
+interface QuizScoreboardProps {
+  quiz: QuizSnapshot;
+  teamId?: string | null; // The team looking at it, on a phone
+  onAward?: (teamId: string, points: number) => void; // The host's corrections
+  large?: boolean; // On the projector
+}
+
+// The teams by score; a team that answered wrong this round is dimmed, the one with the floor lit
+const QuizScoreboard: React.FC<QuizScoreboardProps> = ({ quiz, teamId = null, onAward, large = false }) => {
+  const { t } = useI18n();
+  const teams = [...quiz.teams].sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="w-full bg-slate-800/50 p-4 rounded-2xl border border-slate-700 backdrop-blur-sm">
+      <div className="text-xs text-slate-500 uppercase tracking-widest mb-3 text-start">{t.teamsLabel}</div>
+      <ol className="space-y-2">
+        {teams.map((team, i) => {
+          const buzzing = quiz.buzz?.teamId === team.id;
+          const lockedOut = quiz.lockedOut.includes(team.id);
+          return (
+            <li
+              key={team.id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl border transition-colors
+                ${buzzing ? 'bg-amber-500/20 border-amber-500/50' : 'bg-slate-900/60 border-slate-800'}
+                ${lockedOut ? 'opacity-40' : ''}`}
+            >
+              <span className={`font-mono text-slate-500 ${large ? 'text-2xl w-8' : 'text-sm w-5'}`}>{i + 1}</span>
+              <span className={`flex-1 min-w-0 truncate font-bold text-start flex items-center gap-2 ${large ? 'text-3xl' : 'text-base'} ${team.id === teamId ? 'text-emerald-400' : 'text-white'}`}>
+                {!team.connected && <WifiOff className="w-4 h-4 text-red-400 shrink-0" />}
+                {team.name}
+              </span>
+              {onAward && (
+                <button
+                  onClick={() => onAward(team.id, -1)}
+                  className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+              )}
+              <span className={`font-black text-white tabular-nums text-end ${large ? 'text-4xl min-w-[3ch]' : 'text-xl min-w-[2ch]'}`}>{team.score}</span>
+              {onAward && (
+                <button
+                  onClick={() => onAward(team.id, 1)}
+                  className="p-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-slate-300 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default QuizScoreboard;
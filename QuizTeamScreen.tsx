@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { QuizError, QuizPhase, QuizRole, QuizSnapshot } from '../types';
+import { ConnectionStatus } from '../services/roomConnection';
+import { QuizConnection, createQuizConnection } from '../services/quizConnection';
+import { useI18n } from '../services/i18n';
+import QuizScoreboard from './QuizScoreboard';
+import { BellRing, Loader2, LogOut, Send, Trophy, Users } from 'lucide-react';
+
+interface QuizTeamScreenProps {
+  code: string; // From the join link on the projector; empty when typed in
+}
+
+const MAX_NAME_LENGTH = 20;
+
+/** A team's buzzer: joins the quiz, buzzes in, and types the answer once it has the floor. */
+const QuizTeamScreen: React.FC<QuizTeamScreenProps> = ({ code: initialCode }) => {
+  const { t } = useI18n();
+  const [quiz, setQuiz] = useState<QuizSnapshot | null>(null);
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [error, setError] = useState<QuizError | null>(null);
+  const [code, setCode] = useState(initialCode.toUpperCase());
+  const [name, setName] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [resuming, setResuming] = useState(false);
+  const connection = useRef<QuizConnection | null>(null);
+
+  useEffect(() => {
+    const quizConnection = createQuizConnection(QuizRole.TEAM, {
+      onQuiz: (snapshot, seat) => {
+        setQuiz(snapshot);
+        setTeamId(seat.teamId);
+        setResuming(false);
+        setError(null);
+      },
+      onError: setError,
+      onStatus: setStatus,
+      onLeft: () => {
+        setQuiz(null);
+        setResuming(false);
+      }
+    });
+    connection.current = quizConnection;
+    setResuming(!!quizConnection.session());
+    return () => quizConnection.close();
+  }, []);
+
+  // A fresh box for every buzz
+  useEffect(() => setAnswer(''), [quiz?.buzz?.teamId, quiz?.roundNumber]);
+
+  const errorMessage = error && <p className="text-sm text-red-400 text-center">{t.quizErrors[error]}</p>;
+  const panel = (children: React.ReactNode) => (
+    <div className="flex-1 flex flex-col items-center justify-center py-6 animate-in fade-in duration-300">
+      <div className="bg-slate-800/80 p-6 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-md w-full space-y-5 text-center">
+        {children}
+      </div>
+    </div>
+  );
+
+  // --- Join ---
+  if (!quiz) {
+    if (resuming) {
+      return (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 className="w-10 h-10 text-emerald-400 animate-spin" />
+        </div>
+      );
+    }
+    return panel(
+      <>
+        <h2 className="text-2xl font-bold text-white flex items-center justify-center gap-2">
+          <Users className="w-6 h-6 text-violet-400" />
+          {t.quizNightTitle}
+        </h2>
+        <input
+          type="text"
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          maxLength={4}
+          placeholder={t.quizCodeLabel}
+          dir="ltr"
+          className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white font-mono tracking-widest text-center placeholder-slate-500 focus:outline-none focus:border-violet-500"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={MAX_NAME_LENGTH}
+          placeholder={t.teamName}
+          className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          onClick={() => connection.current?.join(code.trim(), name.trim())}
+          disabled={name.trim().length < 2 || code.trim().length === 0}
+          className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-colors"
+        >
+          {t.joinRoom}
+        </button>
+        {errorMessage}
+      </>
+    );
+  }
+
+  const me = quiz.teams.find(team => team.id === teamId);
+  const buzzing = quiz.teams.find(team => team.id === quiz.buzz?.teamId);
+  const scorer = quiz.teams.find(team => team.id === quiz.result?.teamId);
+  const lockedOut = quiz.lockedOut.includes(teamId);
+
+  const renderMoment = () => {
+    switch (quiz.phase) {
+      case QuizPhase.LOBBY:
+        return <p className="text-lg text-slate-300 animate-pulse">{t.waitingForQuiz}</p>;
+
+      case QuizPhase.LOADING:
+        return (
+          <div className="flex flex-col items-center">
+            <Loader2 className="w-10 h-10 text-emerald-400 animate-spin mb-4" />
+            <p className="text-slate-300 font-bold">{t.loadingRound}</p>
+          </div>
+        );
+
+      case QuizPhase.OPEN:
+        return lockedOut ? (
+          <p className="text-lg text-red-300 font-bold">{t.lockedOutThisRound}</p>
+        ) : (
+          <button
+            onClick={() => connection.current?.buzz()}
+            className="w-56 h-56 md:w-64 md:h-64 rounded-full bg-red-500 hover:bg-red-600 active:scale-95 shadow-[0_0_40px_rgba(239,68,68,0.5)] text-white text-4xl font-black flex flex-col items-center justify-center gap-2 transition-transform select-none"
+          >
+            <BellRing className="w-12 h-12" />
+            {t.buzz}
+          </button>
+        );
+
+      case QuizPhase.BUZZED:
+        if (buzzing?.id !== teamId) return <p className="text-2xl text-amber-300 font-bold">{t.buzzedIn(buzzing?.name || '')}</p>;
+        if (quiz.buzz.answer !== null) {
+          return (
+            <div className="space-y-2">
+              <p className="text-xl text-white font-bold">{t.winningAnswer(quiz.buzz.answer)}</p>
+              <p className="text-slate-400 animate-pulse">{t.answerSent}</p>
+            </div>
+          );
+        }
+        return (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              if (answer.trim()) connection.current?.answer(answer.trim());
+            }}
+            className="w-full space-y-3"
+          >
+            <p className="text-xl text-emerald-400 font-bold">{t.yourTurnToAnswer}</p>
+            <input
+              type="text"
+              value={answer}
+              onChange={e => setAnswer(e.target.value)}
+              autoFocus
+              maxLength={100}
+              className="w-full bg-slate-900 border border-emerald-500 rounded-xl px-4 py-4 text-xl text-white text-center focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!answer.trim()}
+              className="w-full bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 text-white font-bold py-3 rounded-xl transition-colors flex items-center justify-center gap-2"
+            >
+              <Send className="w-4 h-4 rtl:-scale-x-100" />
+              {t.sendAnswer}
+            </button>
+          </form>
+        );
+
+      case QuizPhase.REVEALED:
+        return (
+          <h3 className={`text-2xl font-bold ${!scorer ? 'text-slate-300' : scorer.id === teamId ? 'text-emerald-400' : 'text-blue-400'}`}>
+            {scorer ? t.teamScored(scorer.name, quiz.settings.points) : t.nobodyScored}
+          </h3>
+        );
+
+      case QuizPhase.FINISHED: {
+        const winner = [...quiz.teams].sort((a, b) => b.score - a.score)[0];
+        return (
+          <div className="space-y-2">
+            <Trophy className={`w-12 h-12 mx-auto ${winner?.id === teamId ? 'text-yellow-400' : 'text-slate-500'}`} />
+            {winner && <h3 className="text-2xl font-bold text-white">{t.quizWonBy(winner.name)}</h3>}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      {status === 'reconnecting' && (
+        <div className="fixed top-4 inset-x-0 z-50 mx-auto w-fit flex items-center gap-2 bg-red-500/20 border border-red-500/40 text-red-200 text-sm font-bold px-4 py-2 rounded-full">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t.reconnecting}
+        </div>
+      )}
+      <div className="flex-1 flex flex-col items-center gap-6 py-6 max-w-md w-full mx-auto">
+        <div className="w-full flex items-center justify-between text-slate-400 text-sm">
+          <span className="font-bold text-emerald-400">{me?.name}</span>
+          {quiz.roundNumber > 0 && <span className="uppercase">{t.roundOf(quiz.roundNumber, quiz.settings.rounds)}</span>}
+        </div>
+        <div className="flex-1 w-full flex flex-col items-center justify-center text-center min-h-[16rem]">
+          {renderMoment()}
+        </div>
+        {errorMessage}
+        <QuizScoreboard quiz={quiz} teamId={teamId} />
+        <button
+          onClick={() => connection.current?.leave()}
+          className="flex items-center gap-2 text-slate-500 hover:text-slate-300 text-sm transition-colors"
+        >
+          <LogOut className="w-4 h-4 rtl:-scale-x-100" />
+          {t.leaveRoom}
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default QuizTeamScreen;
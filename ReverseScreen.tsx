@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { ReverseChallenge, ReverseVerdict, RoundScore } from '../types';
+import Card from './Card';
+import ScoreBreakdown from './ScoreBreakdown';
+import { checkReversePicks } from '../services/geminiService';
+import { useI18n } from '../services/i18n';
+import { Loader2, CheckCircle, XCircle, Pause, Play, ArrowRight } from 'lucide-react';
+
+interface ReverseScreenProps {
+  challenge: ReverseChallenge;
+  onPicksSubmitted: (picked: number[]) => void;
+  onPicksChecked: (picked: number[], verdict: ReverseVerdict) => RoundScore;
+  onCheckFailed: () => void;
+  onNextRound: () => void;
+  onSkip: () => void;
+  score: number;
+  timeLeft: number;
+  isPaused: boolean;
+  onPauseChange: (isPaused: boolean) => void;
+}
+
+// Given the player, pick the cards they are linked to. The grid is checked once, then the links are shown.
+const ReverseScreen: React.FC<ReverseScreenProps> = ({
+  challenge,
+  onPicksSubmitted,
+  onPicksChecked,
+  onCheckFailed,
+  onNextRound,
+  onSkip,
+  score,
+  timeLeft,
+  isPaused,
+  onPauseChange
+}) => {
+  const { t } = useI18n();
+  const [picked, setPicked] = useState<number[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ verdict: ReverseVerdict; score: RoundScore } | null>(null);
+
+  const togglePick = (index: number) => {
+    if (result || checking || isPaused) return;
+    setPicked(prev => prev.includes(index)
+      ? prev.filter(i => i !== index)
+      : prev.length < challenge.linkCount ? [...prev, index] : prev);
+  };
+
+  const handleCheck = async () => {
+    if (picked.length !== challenge.linkCount || checking || result) return;
+    setChecking(true);
+    setError(null);
+    onPicksSubmitted(picked);
+    try {
+      const verdict = await checkReversePicks(challenge.id, picked);
+      // The links stay on screen until the player moves on; the clock waits
+      setResult({ verdict, score: onPicksChecked(picked, verdict) });
+    } catch (e) {
+      console.error("Failed to check picks:", e);
+      setError(t.serviceBusy);
+      onCheckFailed();
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (result) onNextRound();
+  };
+
+  const cardState = (index: number) => {
+    const isPicked = picked.includes(index);
+    if (!result) return isPicked ? 'ring-4 ring-emerald-400' : 'opacity-90 hover:opacity-100';
+    const isLinked = result.verdict.linkedCards.includes(index);
+    if (isLinked && isPicked) return 'ring-4 ring-emerald-400';
+    if (isLinked) return 'ring-4 ring-yellow-400';
+    return isPicked ? 'ring-4 ring-red-500 opacity-70' : 'opacity-40';
+  };
+
+  const found = result ? result.verdict.linkedCards.filter(card => picked.includes(card)).length : 0;
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-4xl mx-auto px-4 py-6 min-h-[80vh] justify-center">
+
+      {/* Header Stats */}
+      <div className="w-full flex justify-between items-center mb-6 bg-slate-800/50 p-4 rounded-xl border border-slate-700 backdrop-blur-sm">
+        <div className="flex flex-col">
+          <span className="text-slate-400 text-xs uppercase">{t.score}</span>
+          <span className="text-2xl font-bold text-emerald-400">{score}</span>
+        </div>
+        <button
+          onClick={() => onPauseChange(true)}
+          disabled={checking || !!result}
+          aria-label={t.pause}
+          className="w-10 h-10 rounded-full bg-slate-700 hover:bg-slate-600 text-slate-200 flex items-center justify-center transition-colors disabled:opacity-50"
+        >
+          <Pause className="w-5 h-5" />
+        </button>
+        <div className="flex flex-col items-end">
+          <span className="text-slate-400 text-xs uppercase">{t.timeLeft}</span>
+          <span className={`text-2xl font-bold font-mono ${timeLeft < 10 ? 'text-red-500 animate-pulse' : 'text-white'}`}>
+            {timeLeft}s
+          </span>
+        </div>
+      </div>
+
+      <div className="w-full max-w-[180px] mb-4">
+        <Card entity={challenge.player} compact />
+      </div>
+      <p className="mb-4 text-center text-slate-300 font-bold">{t.reversePrompt(challenge.linkCount)}</p>
+
+      {/* The grid */}
+      <div className="w-full grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 justify-items-center mb-6">
+        {challenge.grid.map((entity, index) => (
+          <button
+            key={index}
+            onClick={() => togglePick(index)}
+            disabled={!!result || checking}
+            aria-pressed={picked.includes(index)}
+            className={`w-full max-w-[150px] rounded-2xl transition-all ${cardState(index)}`}
+          >
+            <Card entity={entity} animationDelay={`${index * 0.05}s`} compact />
+          </button>
+        ))}
+      </div>
+
+      <div className="w-full max-w-md">
+        {!result ? (
+          <button
+            onClick={handleCheck}
+            disabled={picked.length !== challenge.linkCount || checking}
+            className="w-full flex items-center justify-center gap-2 bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-3 rounded-full transition-colors disabled:bg-slate-700 disabled:text-slate-500"
+          >
+            {checking ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+            {t.reverseCheck} ({picked.length}/{challenge.linkCount})
+          </button>
+        ) : (
+          <div className="animate-in fade-in">
+            <div className={`flex items-center justify-center gap-2 p-3 rounded-lg ${result.verdict.isValid ? 'bg-emerald-500/20 text-emerald-300' : 'bg-yellow-500/20 text-yellow-200'}`}>
+              {result.verdict.isValid ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+              <span className="font-medium">
+                {result.verdict.isValid ? t.reversePerfect : t.reverseResult(found, result.verdict.linkedCards.length)}
+              </span>
+            </div>
+            <h4 className="mt-4 text-xs uppercase tracking-widest text-slate-500">{t.reverseLinks}</h4>
+            <ul className="mt-2 space-y-1 text-sm text-slate-300">
+              {result.verdict.reasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+            <ScoreBreakdown score={result.score} className="mt-3 bg-slate-800/60 border border-slate-700 rounded-lg p-3" />
+            <button
+              onClick={handleContinue}
+              className="w-full mt-4 flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 text-white font-bold py-3 rounded-full transition-colors"
+            >
+              {t.next}
+              <ArrowRight className="w-5 h-5 rtl:rotate-180" />
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 flex items-center justify-center gap-2 p-3 rounded-lg bg-red-500/20 text-red-300">
+            <XCircle className="w-5 h-5" />
+            <span className="font-medium">{error}</span>
+          </div>
+        )}
+
+        {!result && (
+          <button
+            onClick={onSkip}
+            disabled={checking}
+            className="w-full mt-4 text-slate-500 hover:text-slate-300 text-sm transition-colors"
+          >
+            {t.skipQuestion}
+          </button>
+        )}
+      </div>
+
+      {/* Pause Screen: hides the grid so the clock can't be stopped to think */}
+      {isPaused && (
+        <div className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-6 bg-slate-950/95 backdrop-blur-xl animate-in fade-in duration-200">
+          <h3 className="text-3xl font-bold text-white">{t.paused}</h3>
+          <p className="text-slate-400 font-mono">{timeLeft}s</p>
+          <button
+            onClick={() => onPauseChange(false)}
+            className="bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-4 px-10 rounded-full flex items-center gap-3 transition-colors"
+          >
+            <Play className="w-5 h-5 fill-white" />
+            {t.resume}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReverseScreen;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RoundScore } from '../types';
+import { useI18n } from '../services/i18n';
+
+interface ScoreBreakdownProps {
+  score: RoundScore;
+  className?: string;
+}
+
+// Line-by-line view of a round's points (or a whole game's, once summed); rows worth nothing are left out
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ score, className = '' }) => {
+  const { t } = useI18n();
+  const rows: { label: string; value: number; className: string }[] = [
+    { label: t.breakdownBase, value: score.basePoints, className: 'text-slate-200' },
+    { label: t.breakdownSpeed, value: score.speedBonus, className: 'text-emerald-300' },
+    { label: t.breakdownStreak(score.streak), value: score.streakBonus, className: 'text-emerald-300' },
+    { label: t.breakdownHints, value: -score.hintPenalty, className: 'text-yellow-300' },
+    { label: t.breakdownAttempts, value: -score.attemptPenalty, className: 'text-red-300' }
+  ].filter(row => row.value !== 0);
+
+  return (
+    <dl className={`text-sm space-y-1 ${className}`}>
+      {rows.map(row => (
+        <div key={row.label} className="flex justify-between gap-6">
+          <dt className="text-slate-400">{row.label}</dt>
+          <dd className={`font-mono font-bold ${row.className}`} dir="ltr">{row.value > 0 ? `+${row.value}` : `−${-row.value}`}</dd>
+        </div>
+      ))}
+      <div className="flex justify-between gap-6 border-t border-slate-700 pt-1">
+        <dt className="text-slate-300 font-bold">{t.breakdownTotal}</dt>
+        <dd className="font-mono font-black text-white" dir="ltr">{score.total}</dd>
+      </div>
+    </dl>
+  );
+};
+
+export default ScoreBreakdown;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Difficulty } from '../types';
+import {
+  ProfilesState,
+  getActiveProfile,
+  addProfile,
+  switchProfile,
+  removeProfile,
+  accuracy,
+  skipRate,
+  averageSolveTimeMs
+} from '../services/profileStore';
+import { UserPlus, Trash2, User, ShieldCheck, Zap, Flame } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+interface StatsScreenProps {
+  profiles: ProfilesState;
+  onProfilesChange: (profiles: ProfilesState) => void;
+  onClose: () => void;
+}
+
+const DIFFICULTY_COLUMNS = [
+  { level: Difficulty.EASY, Icon: ShieldCheck, className: 'text-emerald-400' },
+  { level: Difficulty.MEDIUM, Icon: Zap, className: 'text-blue-400' },
+  { level: Difficulty.HARD, Icon: Flame, className: 'text-red-400' }
+];
+
+const MAX_NAME_LENGTH = 20;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ profiles, onProfilesChange, onClose }) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+  const active = getActiveProfile(profiles);
+  const seconds = (ms: number) => (ms > 0 ? t.secondsShort(ms) : '—');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onProfilesChange(addProfile(profiles, newName));
+    setNewName('');
+  };
+
+  const handleRemove = () => {
+    if (window.confirm(t.confirmDeleteProfile(active.name))) {
+      onProfilesChange(removeProfile(profiles, active.id, t.defaultPlayerName));
+    }
+  };
+
+  const rows: { label: string; value: (level: Difficulty) => string }[] = [
+    { label: t.statBestScore, value: level => String(active.stats[level].bestScore) },
+    { label: t.statGamesPlayed, value: level => String(active.stats[level].gamesPlayed) },
+    { label: t.statAccuracy, value: level => percent(accuracy(active.stats[level])) },
+    { label: t.statAverageSolveTime, value: level => seconds(averageSolveTimeMs(active.stats[level])) },
+    { label: t.statSkipRate, value: level => percent(skipRate(active.stats[level])) },
+    { label: t.statLongestStreak, value: level => String(active.stats[level].longestStreak) }
+  ];
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center py-6 animate-in fade-in duration-300">
+      <div className="bg-slate-800/80 p-6 md:p-8 rounded-3xl border border-slate-700 shadow-2xl backdrop-blur-xl max-w-2xl w-full space-y-6">
+        <h2 className="text-2xl font-bold text-white">{t.statsTitle}</h2>
+
+        {/* Profile Switcher */}
+        <div>
+          <h3 className="text-slate-400 mb-3 text-sm font-semibold">{t.profile}</h3>
+          <div className="flex flex-wrap gap-2">
+            {profiles.profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => onProfilesChange(switchProfile(profiles, profile.id))}
+                className={`
+                  flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-bold transition-all
+                  ${profile.id === active.id
+                    ? 'bg-emerald-500/10 border-emerald-500 text-emerald-300'
+                    : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800'}
+                `}
+              >
+                <User className="w-4 h-4" />
+                {profile.name}
+              </button>
+            ))}
+          </div>
+
+          <form onSubmit={handleAdd} className="flex gap-2 mt-3">
+            <input
+              type="text"
+              value={newName}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={e => setNewName(e.target.value)}
+              placeholder={t.newProfilePlaceholder}
+              className="flex-1 bg-slate-900 text-white placeholder-slate-500 border border-slate-700 focus:border-emerald-500 rounded-xl px-4 py-2 outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!newName.trim()}
+              className="bg-emerald-500 hover:bg-emerald-600 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-xl px-4 flex items-center gap-2 font-bold text-sm transition-colors"
+            >
+              <UserPlus className="w-4 h-4" />
+              {t.add}
+            </button>
+          </form>
+        </div>
+
+        {/* Per-difficulty Stats */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-slate-400">
+                <th className="text-start font-semibold py-2"></th>
+                {DIFFICULTY_COLUMNS.map(({ level, Icon, className }) => (
+                  <th key={level} className={`py-2 font-bold ${className}`}>
+                    <span className="inline-flex items-center gap-1"><Icon className="w-4 h-4" />{t.difficulties[level]}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} className="border-t border-slate-700/60">
+                  <td className="py-3 text-slate-300">{row.label}</td>
+                  {DIFFICULTY_COLUMNS.map(({ level }) => (
+                    <td key={level} className="py-3 text-center font-mono text-white">{row.value(level)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-3 rounded-xl transition-colors"
+          >
+            {t.mainMenu}
+          </button>
+          <button
+            onClick={handleRemove}
+            className="bg-red-500/10 hover:bg-red-500/20 border border-red-500/30 text-red-300 rounded-xl px-4 flex items-center gap-2 text-sm font-bold transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t.deleteProfile}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsScreen;
@@ -0,0 +1,44 @@
+import { Challenge, EntityType, GameEntity, ReverseChallenge, isReverseChallenge } from "../types";
+
+// Fallback images ensuring we always have a visual for every type
+export const FALLBACK_IMAGES: Record<EntityType, string> = {
+  [EntityType.TEAM]: "https://upload.wikimedia.org/wikipedia/commons/thumb/d/d3/Soccerball.svg/600px-Soccerball.svg.png",
+  [EntityType.PLAYER]: "https://upload.wikimedia.org/wikipedia/commons/thumb/8/89/Portrait_Placeholder.png/480px-Portrait_Placeholder.png",
+  [EntityType.COACH]: "https://upload.wikimedia.org/wikipedia/commons/thumb/5/5f/User_with_smile.svg/1024px-User_with_smile.svg.png",
+  [EntityType.TROPHY]: "https://upload.wikimedia.org/wikipedia/commons/thumb/1/10/Trophy_Cup_Flat_Icon.svg/1024px-Trophy_Cup_Flat_Icon.svg.png",
+  [EntityType.NATIONAL_TEAM]: "https://upload.wikimedia.org/wikipedia/commons/thumb/db/db/World_map_green.png/640px-World_map_green.png",
+  [EntityType.YEAR]: "https://upload.wikimedia.org/wikipedia/commons/thumb/0/08/Simple_icon_time.svg/600px-Simple_icon_time.svg.png"
+};
+
+// A round starts anyway if its images take longer than this
+export const PRELOAD_TIMEOUT_MS = 4000;
+
+export const typeFallbackImage = (entity: GameEntity) => FALLBACK_IMAGES[entity.type] || FALLBACK_IMAGES[EntityType.TEAM];
+
+// One load per URL for the whole session; a failed load resolves too (the card shows its placeholder)
+const loads = new Map<string, Promise<void>>();
+
+const loadImage = (url: string): Promise<void> => {
+  let load = loads.get(url);
+  if (!load) {
+    load = new Promise(resolve => {
+      const image = new Image();
+      image.onload = () => resolve();
+      image.onerror = () => resolve();
+      image.src = url;
+    });
+    loads.set(url, load);
+  }
+  return load;
+};
+
+/**
+ * Resolves once every card image of the challenge (and the placeholders behind them) is in the
+ * browser cache, or after PRELOAD_TIMEOUT_MS, so no image pops in after the clock has started.
+ */
+export const preloadChallengeImages = (challenge: Challenge | ReverseChallenge): Promise<void> => {
+  const entities = isReverseChallenge(challenge) ? [challenge.player, ...challenge.grid] : [challenge.cardA, challenge.cardB];
+  const urls = new Set(entities.flatMap(entity => entity.imageUrl ? [entity.imageUrl, typeFallbackImage(entity)] : [typeFallbackImage(entity)]));
+  const timeout = new Promise<void>(resolve => setTimeout(resolve, PRELOAD_TIMEOUT_MS));
+  return Promise.race([Promise.all([...urls].map(loadImage)).then(() => undefined), timeout]);
+};
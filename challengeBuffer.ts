@@ -0,0 +1,93 @@
+import { AnswerStyle, Challenge, ChallengeSource, Difficulty, Locale } from "../types";
+import { generateChallenge } from "./geminiService";
+import { preloadChallengeImages } from "./cardImages";
+
+// How many challenges to keep ready while the player is answering
+export const PREFETCH_SIZE = 2;
+// Give up refilling after this many failed or duplicate fetches in a row
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+interface BufferConfig {
+  gameId: string;
+  difficulty: Difficulty;
+  source: ChallengeSource;
+  locale: Locale;
+  answerStyle: AnswerStyle;
+}
+
+const entitiesOf = (challenge: Challenge) => [challenge.cardA.name, challenge.cardB.name];
+
+/**
+ * Generates upcoming challenges in the background so the next round can start instantly.
+ * Fetches run one at a time so every request can exclude the entities already buffered,
+ * and results from a previous game are dropped when the buffer is reset.
+ */
+export const createChallengeBuffer = (size: number = PREFETCH_SIZE) => {
+  let config: BufferConfig | null = null;
+  let ready: Challenge[] = [];
+  let seen: string[] = [];
+  let generation = 0;
+  let filling = false;
+
+  const fill = async () => {
+    if (filling) return;
+    filling = true;
+    const myGeneration = generation;
+    let failures = 0;
+
+    try {
+      while (config && generation === myGeneration && ready.length < size && failures < MAX_CONSECUTIVE_FAILURES) {
+        const excluded = [...seen, ...ready.flatMap(entitiesOf)];
+        try {
+          const challenge = await generateChallenge(config.difficulty, excluded, config.source, config.locale, {
+            gameId: config.gameId,
+            answerStyle: config.answerStyle
+          });
+          if (generation !== myGeneration) return;
+
+          // The model doesn't always honour the exclusion list
+          if (entitiesOf(challenge).some(name => excluded.includes(name))) {
+            failures++;
+            continue;
+          }
+          // Only a challenge whose images are loaded counts as ready
+          await preloadChallengeImages(challenge);
+          if (generation !== myGeneration) return;
+          ready.push(challenge);
+          failures = 0;
+        } catch (e) {
+          console.warn("Prefetching a challenge failed:", e);
+          failures++;
+        }
+      }
+    } finally {
+      filling = false;
+      // A reset may have happened while we were waiting; start over for the new game
+      if (generation !== myGeneration && config) fill();
+    }
+  };
+
+  return {
+    /** Starts a new game: drops everything buffered for the previous one. */
+    reset(newConfig: BufferConfig | null) {
+      generation++;
+      config = newConfig;
+      ready = [];
+      seen = [];
+    },
+
+    /** Tops the buffer up in the background, avoiding the entities already shown. */
+    refill(seenEntities: string[]) {
+      seen = seenEntities;
+      ready = ready.filter(c => !entitiesOf(c).some(name => seen.includes(name)));
+      fill();
+    },
+
+    /** Returns the next ready challenge, or null if none has arrived yet. */
+    take(): Challenge | null {
+      return ready.shift() || null;
+    }
+  };
+};
+
+export type ChallengeBuffer = ReturnType<typeof createChallengeBuffer>;
@@ -0,0 +1,117 @@
+import { AnswerStyle, Challenge, ChallengeSource, Difficulty, EntityType, GameMode, GameStatus, HintType, Locale, RoundOutcome } from "../types";
+import { createManualClock } from "./gameClock";
+import { GameEvent, TIME_LIMITS, createGameEngine, replayGame } from "./gameEngine";
+
+// Drives the game engine with a fake loader and the manual clock, and checks the rules that
+// the leaderboard relies on: a recorded game replays exactly, and nothing counts after zero.
+
+const SETTINGS = { gameId: "game-1", source: ChallengeSource.OFFLINE, answerStyle: AnswerStyle.TYPED, locale: Locale.EN };
+
+const puzzle = (id: string): Challenge => ({
+  id,
+  cardA: { name: "Real Madrid", type: EntityType.TEAM },
+  cardB: { name: "Liverpool", type: EntityType.TEAM },
+  possibleAnswers: ["Michael Owen"]
+});
+
+const right = { answer: "Michael Owen", isCorrect: true, reason: "Played for both." };
+const wrong = { answer: "Steven Gerrard", isCorrect: false, reason: "Never played for Real Madrid." };
+
+const failures: string[] = [];
+const check = (name: string, passed: boolean) => {
+  if (!passed) failures.push(name);
+};
+
+// Lets the fake loader's promise settle, so the round it returned gets dispatched
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+/** Plays a game through the engine: wrong and right answers, a hint, a pause, a skip, then the clock runs out. */
+const playLiveGame = async () => {
+  const clock = createManualClock(1_000_000);
+  let served = 0;
+  const engine = createGameEngine({ load: async () => puzzle(`round-${++served}`) }, clock);
+
+  engine.dispatch({ type: "GAME_STARTED", mode: GameMode.CLASSIC, difficulty: Difficulty.MEDIUM, settings: SETTINGS });
+  await settle();
+  check("the first round starts once the loader returns it", engine.getState().game.status === GameStatus.PLAYING);
+
+  clock.advance(3_400);
+  engine.dispatch({ type: "ANSWER_SUBMITTED", answer: wrong.answer });
+  const beforeVerdict = engine.getState().game.timeLeft;
+  clock.advance(5_000);
+  check("the clock stops while the server judges an answer", engine.getState().game.timeLeft === beforeVerdict);
+  engine.dispatch({ type: "VERDICT", attempt: wrong });
+
+  clock.advance(2_250);
+  engine.dispatch({ type: "HINT_BOUGHT", hint: HintType.NATIONALITY });
+  engine.dispatch({ type: "PAUSE_CHANGED", paused: true });
+  const beforePause = engine.getState().game.timeLeft;
+  clock.advance(30_000);
+  check("the clock stops while the game is paused", engine.getState().game.timeLeft === beforePause);
+  engine.dispatch({ type: "PAUSE_CHANGED", paused: false });
+
+  clock.advance(1_700);
+  engine.dispatch({ type: "ANSWER_SUBMITTED", answer: right.answer });
+  clock.advance(300);
+  engine.dispatch({ type: "VERDICT", attempt: right });
+  clock.advance(4_000);
+  engine.dispatch({ type: "NEXT_ROUND" });
+  await settle();
+
+  clock.advance(6_600);
+  engine.dispatch({ type: "ROUND_SKIPPED" });
+  await settle();
+
+  clock.advance(TIME_LIMITS[Difficulty.MEDIUM] * 1000);
+  return engine;
+};
+
+const engine = await playLiveGame();
+const live = engine.getState();
+const events = engine.events();
+
+check("the game ends when the clock runs out", live.game.status === GameStatus.GAME_OVER && live.game.timeLeft === 0);
+check("running out of time logs a TIMEOUT", events[events.length - 1]?.type === "TIMEOUT");
+check("running out of time records the round on screen", live.game.history[live.game.history.length - 1]?.outcome === RoundOutcome.TIMED_OUT);
+check("ticks are left out of the log", events.every(event => event.type !== "TICK"));
+check("the solved round scores", live.game.score > 0);
+check("replaying the log rebuilds the game exactly", JSON.stringify(replayGame(events)) === JSON.stringify(live));
+
+// A log with no TIMEOUT and a right answer given after the clock reached zero, as a replayed run may have
+const start = events[0].at;
+const late: GameEvent[] = [
+  { type: "GAME_STARTED", at: start, mode: GameMode.CLASSIC, difficulty: Difficulty.HARD, settings: SETTINGS },
+  { type: "ROUND_STARTED", at: start, challenge: puzzle("late") },
+  { type: "ANSWER_SUBMITTED", at: start + TIME_LIMITS[Difficulty.HARD] * 1000 + 1, answer: right.answer },
+  { type: "VERDICT", at: start + TIME_LIMITS[Difficulty.HARD] * 1000 + 2, attempt: right }
+];
+const afterZero = replayGame(late);
+check("a verdict after zero ends the game instead of scoring", afterZero.game.status === GameStatus.GAME_OVER && afterZero.game.score === 0);
+check("a verdict after zero records the round as timed out", afterZero.game.history[0]?.outcome === RoundOutcome.TIMED_OUT);
+
+// Four names to pick from: one wrong pick loses the round, so guessing through the options can't win it
+const withChoices = { ...puzzle("choices"), choices: ["Steven Gerrard", "Michael Owen", "Xabi Alonso", "Luis Figo"] };
+const guessed = replayGame([
+  { type: "GAME_STARTED", at: start, mode: GameMode.CLASSIC, difficulty: Difficulty.EASY, settings: SETTINGS },
+  { type: "ROUND_STARTED", at: start, challenge: withChoices },
+  { type: "ANSWER_SUBMITTED", at: start + 1_000, answer: wrong.answer },
+  { type: "VERDICT", at: start + 1_500, attempt: wrong },
+  { type: "ANSWER_SUBMITTED", at: start + 2_000, answer: right.answer },
+  { type: "VERDICT", at: start + 2_500, attempt: right }
+]);
+check("a wrong pick ends a multiple-choice round", guessed.round.outcome === RoundOutcome.FAILED && guessed.round.penalty?.roundOver === true);
+check("a pick after the wrong one doesn't score", guessed.game.score === 0);
+const typedMiss = replayGame([
+  { type: "GAME_STARTED", at: start, mode: GameMode.CLASSIC, difficulty: Difficulty.EASY, settings: SETTINGS },
+  { type: "ROUND_STARTED", at: start, challenge: puzzle("typed") },
+  { type: "ANSWER_SUBMITTED", at: start + 1_000, answer: wrong.answer },
+  { type: "VERDICT", at: start + 1_500, attempt: wrong }
+]);
+check("a typed round allows more than one wrong answer", typedMiss.round.outcome === null);
+
+if (failures.length > 0) {
+  console.error(`${failures.length} engine checks failed:`);
+  for (const name of failures) console.error(`  ${name}`);
+  process.exit(1);
+}
+console.log("All engine checks passed.");
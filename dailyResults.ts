@@ -0,0 +1,61 @@
+import { Locale, RoundOutcome, RoundRecord } from "../types";
+import { MESSAGES } from "./i18n";
+
+// One daily run per date, remembered on this device from the moment its puzzles are served
+const STORAGE_KEY = "football-link-sprint.daily.v1";
+
+// Must match DAILY_ROUNDS on the server
+export const DAILY_ROUND_COUNT = 5;
+
+export interface DailyResult {
+  date: string;
+  score: number;
+  // One entry per daily puzzle; null means the clock ran out before reaching it
+  outcomes: (RoundOutcome | null)[];
+}
+
+const OUTCOME_EMOJI: Record<RoundOutcome, string> = {
+  [RoundOutcome.SOLVED]: "🟩",
+  [RoundOutcome.SKIPPED]: "🟨",
+  [RoundOutcome.TIMED_OUT]: "🟥",
+  [RoundOutcome.FAILED]: "🟧",
+  [RoundOutcome.PARTIAL]: "🟦"
+};
+const NOT_REACHED_EMOJI = "⬛";
+
+/** Daily puzzles roll over at midnight UTC so everyone shares the same date key. */
+export const todayKey = () => new Date().toISOString().slice(0, 10);
+
+const loadAll = (): Record<string, DailyResult> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const loadDailyResult = (date: string): DailyResult | null => loadAll()[date] || null;
+
+export const saveDailyResult = (result: DailyResult) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [result.date]: result }));
+  } catch (e) {
+    console.error("Failed to save daily result:", e);
+  }
+};
+
+export const buildDailyResult = (date: string, score: number, history: RoundRecord[]): DailyResult => ({
+  date,
+  score,
+  outcomes: Array.from({ length: DAILY_ROUND_COUNT }, (_, i) => history[i]?.outcome ?? null)
+});
+
+/** Spoiler-free summary: only which rounds were solved, skipped, failed or missed, e.g. "🟩🟩🟨🟥⬛ 2/5". */
+export const buildShareGrid = (result: DailyResult): string => {
+  const solved = result.outcomes.filter(o => o === RoundOutcome.SOLVED).length;
+  const grid = result.outcomes.map(o => (o ? OUTCOME_EMOJI[o] : NOT_REACHED_EMOJI)).join("");
+  return `${grid} ${solved}/${result.outcomes.length}`;
+};
+
+export const buildShareText = (result: DailyResult, locale: Locale): string =>
+  MESSAGES[locale].shareText(result.date, buildShareGrid(result));
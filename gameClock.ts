@@ -0,0 +1,46 @@
+/** Where the game engine gets the time from, and how it waits for the next tick. */
+export interface Clock {
+  now: () => number;
+  setTimeout: (callback: () => void, ms: number) => () => void; // Returns a function that cancels it
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  }
+};
+
+/** A clock that only moves when told to, so a game can be driven step by step in tests. */
+export const createManualClock = (start: number = 0) => {
+  let now = start;
+  let timers: { at: number; callback: () => void }[] = [];
+
+  return {
+    now: () => now,
+
+    setTimeout(callback: () => void, ms: number) {
+      const timer = { at: now + ms, callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter(t => t !== timer);
+      };
+    },
+
+    /** Moves time forward, firing the timers that fall due on the way, in order. */
+    advance(ms: number) {
+      const target = now + ms;
+      for (;;) {
+        const due = timers.filter(t => t.at <= target).sort((a, b) => a.at - b.at)[0];
+        if (!due) break;
+        timers = timers.filter(t => t !== due);
+        now = due.at;
+        due.callback();
+      }
+      now = target;
+    }
+  };
+};
+
+export type ManualClock = ReturnType<typeof createManualClock>;
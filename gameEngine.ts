@@ -0,0 +1,508 @@
+import { AnswerAttempt, AnswerStyle, Challenge, ChallengeSource, Difficulty, EntityType, GameEntity, GameMode, GameState, GameStatus, HintType, Locale, ReverseChallenge, ReverseVerdict, RoundOutcome, RoundRecord, RoundScore, isReverseChallenge } from "../types";
+import { DAILY_SCORING_RULES, SCORING_RULES, currentStreak, scoreReverseRound, scoreRound } from "./scoring";
+import { PENALTY_RULES, PenaltyResult, applyWrongAnswer, roundPenaltyRules } from "./penalties";
+import { Clock, systemClock } from "./gameClock";
+
+export const TIME_LIMITS: Record<Difficulty, number> = {
+  [Difficulty.EASY]: 90,
+  [Difficulty.MEDIUM]: 60,
+  [Difficulty.HARD]: 45
+};
+
+// Everyone plays the daily puzzles on the same clock, whatever difficulty is selected
+export const DAILY_TIME_LIMIT = 60;
+
+// Seconds each hint tier takes off the clock; the more it gives away, the more it costs
+export const HINT_TIME_COSTS: Record<HintType, number> = {
+  [HintType.NATIONALITY]: 5,
+  [HintType.POSITION]: 5,
+  [HintType.ERA]: 8,
+  [HintType.INITIAL]: 12
+};
+
+// How the rounds of a game are fetched; chosen on the menu and fixed for the whole game
+export interface GameSettings {
+  gameId: string; // Sent with every round fetched: a run is checked against the rounds served under it
+  source: ChallengeSource;
+  answerStyle: AnswerStyle;
+  locale: Locale;
+}
+
+// The round on screen, until it is recorded into the history
+export interface RoundProgress {
+  attempts: AnswerAttempt[];
+  hintsUsed: HintType[];
+  picks: { picked: number[]; linkedCards: number[] } | null; // Reverse puzzles, once checked
+  clockMs: number; // Game-clock time only: pauses and waits on the server don't count
+  score: RoundScore | null; // Once the round is won, or a reverse grid checked
+  penalty: PenaltyResult | null; // What the last wrong answer cost
+  outcome: RoundOutcome | null; // Decided by a verdict; recorded when the player moves on
+}
+
+export interface GameClockState {
+  lastAt: number; // When the last event was applied
+  msIntoSecond: number; // Running time since the last whole second came off, so pausing can't stall the clock
+  paused: boolean;
+  waiting: boolean; // For the server's verdict
+  held: boolean; // A finished round's verdict is on screen, before the next round starts
+}
+
+export enum LoadFailure {
+  START = 'START',
+  NEXT_ROUND = 'NEXT_ROUND'
+}
+
+export interface EngineState {
+  game: GameState;
+  settings: GameSettings;
+  round: RoundProgress;
+  clock: GameClockState;
+  loadFailure: LoadFailure | null;
+}
+
+/**
+ * Everything that happens in a game, as recorded in its event log. Each event carries
+ * the clock time it happened at and every outside input it depends on (the challenge
+ * served, the verdict given), so replaying the log rebuilds the game exactly.
+ */
+export type GameEvent = { at: number } & (
+  | { type: "GAME_STARTED"; mode: GameMode; difficulty: Difficulty; settings: GameSettings }
+  | { type: "ROUND_STARTED"; challenge: Challenge | ReverseChallenge }
+  | { type: "ANSWER_SUBMITTED"; answer: string } // The clock stops until the verdict comes back
+  | { type: "VERDICT"; attempt: AnswerAttempt }
+  | { type: "PICKS_CHECKED"; picked: number[]; verdict: ReverseVerdict }
+  | { type: "CHECK_FAILED" } // No verdict came back; the player can try again
+  | { type: "HINT_BOUGHT"; hint: HintType }
+  | { type: "PAUSE_CHANGED"; paused: boolean }
+  | { type: "ROUND_SKIPPED" }
+  | { type: "NEXT_ROUND" } // The player moves on from a decided round
+  | { type: "TICK" } // Only moves the clock; left out of the log
+  | { type: "TIMEOUT" }
+  | { type: "LOADING_FAILED" }
+  | { type: "GAME_ENDED" } // No rounds left, like at the end of the daily run
+  | { type: "ANSWERS_REVEALED"; answers: Record<string, string[]> }
+  | { type: "SCREEN_SHOWN"; status: GameStatus.IDLE | GameStatus.STATS | GameStatus.REVIEW | GameStatus.GAME_OVER | GameStatus.HEAD_TO_HEAD }
+  | { type: "DIFFICULTY_SET"; difficulty: Difficulty }
+);
+
+// An event before the engine stamps it with the time
+type WithoutTime<T> = T extends unknown ? Omit<T, "at"> : never;
+export type GameInput = WithoutTime<GameEvent>;
+
+// The names a round puts on screen, for later rounds to avoid; a reverse grid only counts its player
+export const shownEntities = (challenge: Challenge | ReverseChallenge): string[] =>
+  isReverseChallenge(challenge) ? [challenge.player.name] : [challenge.cardA.name, challenge.cardB.name];
+
+/** Chain mode's card A: the player named in the last solved round (a skipped or failed round keeps it). */
+export const chainAnchor = (history: RoundRecord[]): GameEntity | null => {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const solvedWith = history[i].outcome === RoundOutcome.SOLVED && history[i].attempts.find(a => a.isCorrect)?.matchedAnswer;
+    if (solvedWith) return { name: solvedWith, type: EntityType.PLAYER };
+  }
+  return null;
+};
+
+const newRound = (): RoundProgress => ({
+  attempts: [],
+  hintsUsed: [],
+  picks: null,
+  clockMs: 0,
+  score: null,
+  penalty: null,
+  outcome: null
+});
+
+export const createEngineState = (at: number = 0): EngineState => ({
+  game: {
+    status: GameStatus.IDLE,
+    score: 0,
+    timeLeft: TIME_LIMITS[Difficulty.MEDIUM],
+    currentChallenge: null,
+    message: null,
+    difficulty: Difficulty.MEDIUM,
+    mode: GameMode.CLASSIC,
+    history: [],
+    seenEntities: [],
+    livesLeft: null
+  },
+  settings: { gameId: "", source: ChallengeSource.AUTO, answerStyle: AnswerStyle.TYPED, locale: Locale.AR },
+  round: newRound(),
+  clock: { lastAt: at, msIntoSecond: 0, paused: false, waiting: false, held: false },
+  loadFailure: null
+});
+
+// The clock only runs while the player can actually play: not while loading, validating or paused
+export const isClockRunning = ({ game, clock }: EngineState) =>
+  game.status === GameStatus.PLAYING && game.timeLeft > 0 && !clock.paused && !clock.waiting && !clock.held;
+
+// Runs the game clock up to `at`. It stops at zero; the TIMEOUT event ends the game.
+const advance = (state: EngineState, at: number): EngineState => {
+  const elapsed = Math.max(0, at - state.clock.lastAt);
+  if (elapsed === 0 || !isClockRunning(state)) return { ...state, clock: { ...state.clock, lastAt: at } };
+
+  const { timeLeft } = state.game;
+  const used = Math.min(elapsed, timeLeft * 1000 - state.clock.msIntoSecond);
+  const total = state.clock.msIntoSecond + used;
+  const secondsOff = Math.floor(total / 1000);
+  return {
+    ...state,
+    game: { ...state.game, timeLeft: timeLeft - secondsOff },
+    round: { ...state.round, clockMs: state.round.clockMs + used },
+    clock: { ...state.clock, lastAt: at, msIntoSecond: total % 1000 }
+  };
+};
+
+// Records the round on screen into the history (no-op if it was already recorded)
+const recordRound = ({ game, round }: EngineState, outcome: RoundOutcome): GameState => {
+  const challenge = game.currentChallenge;
+  if (!challenge || game.history.some(record => record.challengeId === challenge.id)) return game;
+  const cards = isReverseChallenge(challenge)
+    ? { cardA: challenge.player, grid: challenge.grid, picked: round.picks?.picked, linkedCards: round.picks?.linkedCards }
+    : { cardA: challenge.cardA, cardB: challenge.cardB };
+  return {
+    ...game,
+    history: [...game.history, {
+      challengeId: challenge.id,
+      ...cards,
+      attempts: round.attempts,
+      outcome,
+      timeSpentMs: round.clockMs,
+      hintsUsed: round.hintsUsed,
+      score: round.score || undefined
+    }]
+  };
+};
+
+const resumeClock = (clock: GameClockState): GameClockState => ({ ...clock, waiting: false, held: false });
+
+// A wrong answer: the mode's penalty, and the end of the round or the game if it says so
+const applyWrongVerdict = (state: EngineState): EngineState => {
+  const { game, round } = state;
+  // Read off the challenge served, not the game's settings: a submitted run can't claim typed answers
+  const challenge = game.currentChallenge;
+  const multipleChoice = !!challenge && !isReverseChallenge(challenge) && !!challenge.choices?.length;
+  const penalty = applyWrongAnswer(roundPenaltyRules(game.mode, multipleChoice), {
+    timeLeft: game.timeLeft,
+    livesLeft: game.livesLeft,
+    wrongAttempts: round.attempts.filter(attempt => !attempt.isCorrect).length
+  });
+  const next: EngineState = {
+    ...state,
+    game: { ...game, timeLeft: Math.max(0, game.timeLeft - penalty.secondsLost), livesLeft: penalty.livesLeft },
+    round: { ...round, penalty, outcome: penalty.roundOver ? RoundOutcome.FAILED : null },
+    clock: { ...state.clock, waiting: false, held: penalty.roundOver }
+  };
+  if (!penalty.gameOver) return next;
+  const outcome = penalty.livesLeft === 0 ? RoundOutcome.FAILED : RoundOutcome.TIMED_OUT;
+  return { ...next, game: { ...recordRound(next, outcome), status: GameStatus.GAME_OVER } };
+};
+
+// What the player does during a round; none of it counts once the clock is at zero
+const PLAYING_EVENTS: GameEvent["type"][] = ["ANSWER_SUBMITTED", "VERDICT", "PICKS_CHECKED", "CHECK_FAILED", "HINT_BOUGHT", "ROUND_SKIPPED", "NEXT_ROUND"];
+
+/** The game's rules: applies one event to the state. Pure, so a recorded game replays exactly. */
+export const reduceGame = (previous: EngineState, event: GameEvent): EngineState => {
+  const state = advance(previous, event.at);
+  const { game, round, clock } = state;
+  const playing = game.status === GameStatus.PLAYING;
+
+  // Out of time, the game is over whether or not a TIMEOUT follows: a replayed run may leave it out
+  if (playing && game.timeLeft === 0 && PLAYING_EVENTS.includes(event.type)) {
+    return reduceGame(state, { type: "TIMEOUT", at: event.at });
+  }
+
+  switch (event.type) {
+    case "GAME_STARTED":
+      return {
+        game: {
+          ...game,
+          status: GameStatus.LOADING_CHALLENGE,
+          mode: event.mode,
+          difficulty: event.difficulty,
+          score: 0,
+          timeLeft: event.mode === GameMode.DAILY ? DAILY_TIME_LIMIT : TIME_LIMITS[event.difficulty],
+          currentChallenge: null,
+          history: [],
+          seenEntities: [],
+          livesLeft: PENALTY_RULES[event.mode].lives ?? null
+        },
+        settings: event.settings,
+        round: newRound(),
+        clock: { lastAt: event.at, msIntoSecond: 0, paused: false, waiting: false, held: false },
+        loadFailure: null
+      };
+
+    case "ROUND_STARTED":
+      if (game.status !== GameStatus.LOADING_CHALLENGE) return state;
+      return {
+        ...state,
+        game: {
+          ...game,
+          status: GameStatus.PLAYING,
+          currentChallenge: event.challenge,
+          seenEntities: [...game.seenEntities, ...shownEntities(event.challenge)]
+        },
+        round: newRound(),
+        clock: resumeClock(clock)
+      };
+
+    case "ANSWER_SUBMITTED":
+      if (!playing || round.outcome) return state;
+      return { ...state, clock: { ...clock, waiting: true } };
+
+    case "CHECK_FAILED":
+      return { ...state, clock: { ...clock, waiting: false } };
+
+    case "VERDICT": {
+      if (!playing || round.outcome) return state;
+      const withAttempt = { ...state, round: { ...round, attempts: [...round.attempts, event.attempt] } };
+      if (!event.attempt.isCorrect) return applyWrongVerdict(withAttempt);
+
+      const rules = game.mode === GameMode.DAILY ? DAILY_SCORING_RULES : SCORING_RULES[game.difficulty];
+      const score = scoreRound(rules, {
+        timeSpentMs: round.clockMs,
+        hintsUsed: round.hintsUsed.length,
+        wrongAttempts: round.attempts.filter(attempt => !attempt.isCorrect).length,
+        streak: currentStreak(game.history) + 1
+      });
+      // The verdict and the points stay on screen until the player moves on; the clock waits
+      return {
+        ...withAttempt,
+        round: { ...withAttempt.round, score, outcome: RoundOutcome.SOLVED },
+        clock: { ...clock, waiting: false, held: true }
+      };
+    }
+
+    case "PICKS_CHECKED": {
+      const challenge = game.currentChallenge;
+      if (!playing || round.outcome || !challenge || !isReverseChallenge(challenge)) return state;
+      const { picked, verdict } = event;
+      const score = scoreReverseRound(SCORING_RULES[game.difficulty], {
+        timeSpentMs: round.clockMs,
+        linkCount: verdict.linkedCards.length,
+        missed: verdict.linkedCards.filter(card => !picked.includes(card)).length,
+        wrongPicks: picked.filter(card => !verdict.linkedCards.includes(card)).length,
+        streak: currentStreak(game.history) + 1
+      });
+      return {
+        ...state,
+        round: {
+          ...round,
+          attempts: [...round.attempts, {
+            answer: picked.map(index => challenge.grid[index].name).join(' · '),
+            isCorrect: verdict.isValid,
+            reason: verdict.reasons.join(' ')
+          }],
+          picks: { picked, linkedCards: verdict.linkedCards },
+          score,
+          outcome: verdict.isValid ? RoundOutcome.SOLVED : RoundOutcome.PARTIAL
+        },
+        clock: { ...clock, waiting: false, held: true }
+      };
+    }
+
+    case "HINT_BOUGHT":
+      if (!playing || round.outcome) return state;
+      return {
+        ...state,
+        game: { ...game, timeLeft: Math.max(1, game.timeLeft - HINT_TIME_COSTS[event.hint]) },
+        round: { ...round, hintsUsed: [...round.hintsUsed, event.hint] }
+      };
+
+    case "PAUSE_CHANGED":
+      return { ...state, clock: { ...clock, paused: event.paused } };
+
+    case "ROUND_SKIPPED":
+      if (!playing) return state;
+      return {
+        ...state,
+        game: { ...recordRound(state, RoundOutcome.SKIPPED), status: GameStatus.LOADING_CHALLENGE },
+        clock: resumeClock(clock)
+      };
+
+    case "NEXT_ROUND":
+      if (!playing || !round.outcome) return state;
+      return {
+        ...state,
+        game: {
+          ...recordRound(state, round.outcome),
+          status: GameStatus.LOADING_CHALLENGE,
+          score: game.score + (round.score?.total ?? 0),
+          timeLeft: game.timeLeft + (round.score?.timeBonus ?? 0)
+        },
+        clock: resumeClock(clock)
+      };
+
+    case "TIMEOUT":
+      if (!playing || game.timeLeft > 0) return state;
+      return { ...state, game: { ...recordRound(state, RoundOutcome.TIMED_OUT), status: GameStatus.GAME_OVER } };
+
+    // The first round failing sends the player back to the menu; a later one ends the game and keeps its score
+    case "LOADING_FAILED":
+      if (game.status !== GameStatus.LOADING_CHALLENGE) return state;
+      return game.currentChallenge
+        ? { ...state, game: { ...game, status: GameStatus.GAME_OVER }, loadFailure: LoadFailure.NEXT_ROUND }
+        : { ...state, game: { ...game, status: GameStatus.IDLE }, loadFailure: LoadFailure.START };
+
+    case "GAME_ENDED":
+      if (game.status !== GameStatus.LOADING_CHALLENGE) return state;
+      return { ...state, game: { ...game, status: GameStatus.GAME_OVER } };
+
+    case "ANSWERS_REVEALED":
+      return {
+        ...state,
+        game: {
+          ...game,
+          history: game.history.map(record => ({
+            ...record,
+            acceptedAnswers: event.answers[record.challengeId] || record.acceptedAnswers
+          }))
+        }
+      };
+
+    case "SCREEN_SHOWN":
+      return { ...state, game: { ...game, status: event.status }, loadFailure: null };
+
+    case "DIFFICULTY_SET":
+      if (game.status !== GameStatus.IDLE) return state;
+      return { ...state, game: { ...game, difficulty: event.difficulty } };
+
+    case "TICK":
+    default:
+      return state;
+  }
+};
+
+/** Rebuilds a game from its event log. */
+export const replayGame = (events: GameEvent[], from: EngineState = createEngineState(events[0]?.at)): EngineState =>
+  events.reduce(reduceGame, from);
+
+/**
+ * A finished game as submitted to the leaderboard: its events with each round cut down to the
+ * challenge id and each answer to what was typed or picked. The server fills in the rest from
+ * its own records (the challenges it served, the verdicts it gave) and replays it.
+ */
+export type RunEvent = { at: number } & (
+  | Extract<GameInput, { type: "GAME_STARTED" | "ANSWER_SUBMITTED" | "CHECK_FAILED" | "HINT_BOUGHT" | "PAUSE_CHANGED" | "ROUND_SKIPPED" | "NEXT_ROUND" | "TIMEOUT" | "LOADING_FAILED" | "GAME_ENDED" }>
+  | { type: "ROUND_STARTED"; challengeId: string }
+  | { type: "VERDICT"; answer: string; isCorrect: boolean }
+  | { type: "PICKS_CHECKED"; picked: number[] }
+);
+
+export const toRunEvents = (events: GameEvent[]): RunEvent[] =>
+  events.flatMap((event): RunEvent[] => {
+    switch (event.type) {
+      case "ROUND_STARTED":
+        return [{ type: event.type, at: event.at, challengeId: event.challenge.id }];
+      case "VERDICT":
+        return [{ type: event.type, at: event.at, answer: event.attempt.answer, isCorrect: event.attempt.isCorrect }];
+      case "PICKS_CHECKED":
+        return [{ type: event.type, at: event.at, picked: event.picked }];
+      // What happens on the menus and after the game doesn't change its result
+      case "TICK":
+      case "ANSWERS_REVEALED":
+      case "SCREEN_SHOWN":
+      case "DIFFICULTY_SET":
+        return [];
+      default:
+        return [event];
+    }
+  });
+
+// What the engine needs to know to fetch the next round
+export interface RoundRequest {
+  mode: GameMode;
+  difficulty: Difficulty;
+  settings: GameSettings;
+  roundNumber: number; // 0 for the first round of a game
+  seenEntities: string[];
+  chainAnchor: GameEntity | null;
+}
+
+/** Fetches rounds for the engine. Resolves to null when the game has no more rounds. */
+export interface ChallengeLoader {
+  load: (request: RoundRequest) => Promise<Challenge | ReverseChallenge | null>;
+}
+
+/**
+ * Runs the reducer against a real (or fake) clock and challenge loader: stamps each event
+ * with the time, ticks the game clock, loads a round whenever the game waits for one, and
+ * keeps the current game's event log. Knows nothing about React; the UI subscribes to it.
+ */
+export const createGameEngine = (loader: ChallengeLoader, clock: Clock = systemClock) => {
+  let state = createEngineState(clock.now());
+  let log: GameEvent[] = [];
+  let cancelTick: (() => void) | null = null;
+  let pendingLoad: symbol | null = null;
+  const listeners = new Set<() => void>();
+
+  const dispatch = (input: GameInput) => {
+    const event = { ...input, at: clock.now() } as GameEvent;
+    if (event.type === "GAME_STARTED") {
+      log = [];
+      pendingLoad = null; // A round still loading for the previous game is dropped
+    }
+    if (event.type !== "TICK") log = [...log, event];
+    state = reduceGame(state, event);
+    // However the clock got to zero (a tick, or an event arriving late), the game ends there
+    if (state.game.status === GameStatus.PLAYING && state.game.timeLeft === 0) {
+      dispatch({ type: "TIMEOUT" });
+      return;
+    }
+    scheduleTick();
+    if (state.game.status === GameStatus.LOADING_CHALLENGE) loadRound();
+    listeners.forEach(listener => listener());
+  };
+
+  // Wakes up when the next whole second is due to come off the clock
+  const scheduleTick = () => {
+    cancelTick?.();
+    cancelTick = null;
+    if (!isClockRunning(state)) return;
+    cancelTick = clock.setTimeout(() => {
+      cancelTick = null;
+      dispatch({ type: "TICK" });
+    }, 1000 - state.clock.msIntoSecond);
+  };
+
+  const loadRound = async () => {
+    if (pendingLoad) return;
+    const token = Symbol("load");
+    pendingLoad = token;
+    const { game, settings } = state;
+
+    let result: GameInput;
+    try {
+      const challenge = await loader.load({
+        mode: game.mode,
+        difficulty: game.difficulty,
+        settings,
+        roundNumber: game.history.length,
+        seenEntities: game.seenEntities,
+        chainAnchor: game.mode === GameMode.CHAIN ? chainAnchor(game.history) : null
+      });
+      result = challenge ? { type: "ROUND_STARTED", challenge } : { type: "GAME_ENDED" };
+    } catch (e) {
+      console.error("Failed to load a round:", e);
+      result = { type: "LOADING_FAILED" };
+    }
+    if (pendingLoad !== token) return;
+    pendingLoad = null;
+    dispatch(result);
+  };
+
+  return {
+    dispatch,
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /** The current game's events, from GAME_STARTED on: enough for replayGame to rebuild it. */
+    events: () => log
+  };
+};
+
+export type GameEngine = ReturnType<typeof createGameEngine>;
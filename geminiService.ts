@@ -1,234 +1,133 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Challenge, EntityType, Difficulty } from "../types";
-
-// CRITICAL: The API key must be set in the environment variables (process.env.API_KEY).
-// Do NOT hardcode the key here directly, or it will cause ReferenceErrors and security leaks.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { AnswerStyle, BoardPeriod, BoardRanks, Challenge, ChallengeHints, ChallengeSource, Difficulty, GameEntity, GameMode, HintType, LeaderboardEntry, Locale, ReverseChallenge, ReverseVerdict, ValidationResult } from "../types";
+import { MESSAGES } from "./i18n";
+import { RunEvent } from "./gameEngine";
+
+// Thin client for the game API (see server/index.ts).
+// The Gemini key and the accepted answers never leave the server; in development
+// Vite proxies /api to the local backend.
+const API_BASE = "/api";
+
+/** The API answered with an error status; the message is the one it sent, when it sent one. */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
 
-// We define a primary model and a fallback model to handle rate limits (429)
-// If the main model is exhausted, we switch to the Lite version.
-const PRIMARY_MODEL = "gemini-2.5-flash";
-const FALLBACK_MODEL = "gemini-flash-lite-latest";
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
 
-// Schema for generating a challenge
-const challengeSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    cardA: {
-      type: Type.OBJECT,
-      properties: {
-        name: { type: Type.STRING, description: "Name of the first entity (Team, Player, Coach, etc) in Arabic" },
-        type: { type: Type.STRING, description: "Type of entity: TEAM, PLAYER, COACH, TROPHY, NATIONAL_TEAM" },
-        imageUrl: { type: Type.STRING, description: "REQUIRED. A valid HTTPS URL for a logo, face, or trophy from Wikimedia Commons. MUST BE an image file (jpg/png)." },
-        color: { type: Type.STRING, description: "Primary hex color associated with this entity (e.g. #FFFFFF for Real Madrid, #BD0000 for Bayern)." }
-      },
-      required: ["name", "type", "imageUrl"]
-    },
-    cardB: {
-      type: Type.OBJECT,
-      properties: {
-        name: { type: Type.STRING, description: "Name of the second entity in Arabic" },
-        type: { type: Type.STRING, description: "Type of entity: TEAM, PLAYER, COACH, TROPHY, NATIONAL_TEAM" },
-        imageUrl: { type: Type.STRING, description: "REQUIRED. A valid HTTPS URL for a logo, face, or trophy from Wikimedia Commons. MUST BE an image file (jpg/png)." },
-        color: { type: Type.STRING, description: "Primary hex color associated with this entity." }
-      },
-      required: ["name", "type", "imageUrl"]
-    },
-    possibleSolutions: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: "List of 2-3 players who satisfy the connection, for internal validation reference."
-    }
-  },
-  required: ["cardA", "cardB", "possibleSolutions"]
-};
+  if (!response.ok) {
+    const data: { error?: unknown } = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, typeof data.error === "string" ? data.error : `Request to ${path} failed with ${response.status}`);
+  }
+  return response.json();
+}
 
-// Schema for validating an answer
-const validationSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    isValid: { type: Type.BOOLEAN },
-    reason: { type: Type.STRING, description: "Brief explanation in Arabic why it is correct or incorrect." },
-    correctAnswer: { type: Type.STRING, description: "If incorrect, provide one correct player name." }
-  },
-  required: ["isValid", "reason"]
+export const generateChallenge = async (
+  difficulty: Difficulty = Difficulty.MEDIUM,
+  excludeEntities: string[] = [],
+  source: ChallengeSource = ChallengeSource.AUTO,
+  locale: Locale = Locale.AR,
+  options: {
+    gameId?: string; // The game the round is for (GameSettings.gameId)
+    cardA?: GameEntity; // Chain mode: build the puzzle around this player
+    answerStyle?: AnswerStyle; // Multiple choice comes with the four options
+  } = {}
+): Promise<Challenge> => {
+  return postJson<Challenge>("/challenge", {
+    difficulty,
+    excludeEntities,
+    source,
+    locale,
+    gameId: options.gameId,
+    cardA: options.cardA,
+    answerStyle: options.answerStyle
+  });
 };
 
-// Internal themes to force variety
-const THEMES = [
-  "History: Legends of the 90s and 2000s",
-  "Modern: Current stars (2020-2025)",
-  "Tactical: Coach and Player relationships",
-  "International: World Cups, Euros",
-  "Transfers: Players who moved between big clubs",
-  "Underdogs: Notable players from teams like Dortmund, Atletico",
-  "Premier League Focus",
-  "Serie A & La Liga giants",
-  "Managers: Famous coaches and their key players",
-  "Silverware: Winners of UCL, World Cup, Ballon d'Or",
-  "National Duty: National team achievements"
-];
-
-const STRUCTURES = [
-  "Entity A: TEAM, Entity B: PLAYER",
-  "Entity A: COACH, Entity B: TEAM",
-  "Entity A: TROPHY, Entity B: PLAYER",
-  "Entity A: NATIONAL_TEAM, Entity B: COACH",
-  "Entity A: PLAYER, Entity B: PLAYER",
-  "Entity A: TEAM, Entity B: TEAM",
-  "Entity A: TROPHY, Entity B: TEAM",
-  "Entity A: COACH, Entity B: PLAYER",
-  "Entity A: NATIONAL_TEAM, Entity B: TEAM"
-];
-
 /**
- * Helper to execute an API call with fallback logic for 429 errors.
+ * Asks the server for a verdict. Throws when there is none (the server or the model is down, or
+ * the challenge has expired): the error's message says why, in the player's language, and the
+ * answer must not count as wrong.
  */
-async function generateWithFallback(
-  prompt: string, 
-  schema: Schema, 
-  temperature: number
-): Promise<any> {
-  const modelsToTry = [PRIMARY_MODEL, FALLBACK_MODEL];
-  let lastError;
-
-  for (const model of modelsToTry) {
-    try {
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: schema,
-          temperature: temperature
-        }
-      });
-      return JSON.parse(response.text || "{}");
-    } catch (error: any) {
-      lastError = error;
-      // If error is NOT a quota error (429), throw immediately.
-      // If it IS a quota error, loop to next model.
-      const isQuotaError = error.toString().includes("429") || (error.status === 429);
-      if (!isQuotaError) {
-        throw error;
-      }
-      console.warn(`Model ${model} hit rate limit. Switching to fallback...`);
-      // Small delay before retrying with fallback
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
+export const validateAnswer = async (
+  challengeId: string,
+  userAnswer: string,
+  locale: Locale = Locale.AR
+): Promise<ValidationResult> => {
+  try {
+    return await postJson<ValidationResult>("/validate", { challengeId, answer: userAnswer, locale });
+  } catch (error: unknown) {
+    console.error("Error validating via API:", error);
+    const expired = error instanceof ApiError && (error.status === 404 || error.status === 409);
+    throw new Error(expired ? MESSAGES[locale].challengeExpired : MESSAGES[locale].serviceBusy);
   }
-  throw lastError;
-}
+};
 
-export const generateChallenge = async (
+export const generateReverseChallenge = async (
   difficulty: Difficulty = Difficulty.MEDIUM,
-  excludeEntities: string[] = []
-): Promise<Challenge> => {
-  let difficultyContext = "";
-  
-  const randomTheme = THEMES[Math.floor(Math.random() * THEMES.length)];
-  const randomStructure = STRUCTURES[Math.floor(Math.random() * STRUCTURES.length)];
-  const recentExclusions = excludeEntities.slice(-20).join(", ");
+  excludeEntities: string[] = [],
+  locale: Locale = Locale.AR,
+  gameId?: string
+): Promise<ReverseChallenge> => {
+  return postJson<ReverseChallenge>("/reverse", { difficulty, excludeEntities, locale, gameId });
+};
 
-  switch (difficulty) {
-    case Difficulty.EASY:
-      difficultyContext = "DIFFICULTY: EASY. Use ONLY extremely famous global superstars.";
-      break;
-    case Difficulty.HARD:
-      difficultyContext = "DIFFICULTY: HARD. Use deeper cuts, mid-table teams, or historical players.";
-      break;
-    case Difficulty.MEDIUM:
-    default:
-      difficultyContext = "DIFFICULTY: MEDIUM. Use well-known players, coaches, and teams.";
-      break;
-  }
+/** Submits the grid indexes picked on a reverse puzzle; the puzzle can't be answered again afterwards. */
+export const checkReversePicks = async (challengeId: string, picks: number[]): Promise<ReverseVerdict> => {
+  return postJson<ReverseVerdict>("/reverse/check", { challengeId, picks });
+};
 
-  const prompt = `
-    Generate a challenging but solvable football connection puzzle.
-    THEME: ${randomTheme}
-    REQUIRED STRUCTURE: ${randomStructure}
-    ${difficultyContext}
-    
-    Constraints:
-    1. Output in ARABIC.
-    2. Connection must be factual.
-    3. Exclude: [${recentExclusions}].
-    4. VARIETY: Use Coaches, Trophies, National Teams.
-    5. IMAGES: Must be valid Wikimedia Commons HTTPS URLs (jpg/png) for Logos, Faces, Trophies.
-    
-    The concept is: Find a Player who connects Card A and Card B.
-  `;
+/** Tells the server the game was paused or resumed on this challenge: a run's pauses are checked against it. */
+export const reportPause = async (challengeId: string, paused: boolean): Promise<void> => {
+  await postJson("/pause", { challengeId, paused });
+};
 
-  const data = await generateWithFallback(prompt, challengeSchema, 1.1);
-  
-  return {
-    id: crypto.randomUUID(),
-    cardA: {
-      name: data.cardA.name,
-      type: data.cardA.type as EntityType,
-      imageUrl: data.cardA.imageUrl,
-      color: data.cardA.color
-    },
-    cardB: {
-      name: data.cardB.name,
-      type: data.cardB.type as EntityType,
-      imageUrl: data.cardB.imageUrl,
-      color: data.cardB.color
-    },
-    possibleAnswers: data.possibleSolutions
-  };
+/** Fetches one hint tier for the challenge on screen; the caller charges its time cost. */
+export const fetchHint = async (challengeId: string, type: HintType): Promise<ChallengeHints> => {
+  return postJson<ChallengeHints>("/hint", { challengeId, type });
 };
 
-const normalizeArabic = (text: string): string => {
-  if (!text) return "";
-  return text
-    .trim()
-    .toLowerCase()
-    .replace(/[أإآ]/g, 'ا')
-    .replace(/ة/g, 'ه')
-    .replace(/ى/g, 'ي')
-    .replace(/[\u064B-\u065F]/g, '')
-    .replace(/^(ال)/, '');
+/**
+ * Fetches the accepted answers for finished rounds (keyed by challenge id).
+ * The server locks these challenges, so only call it once the game is over.
+ */
+export const revealAnswers = async (challengeIds: string[]): Promise<Record<string, string[]>> => {
+  if (challengeIds.length === 0) return {};
+  return postJson<Record<string, string[]>>("/reveal", { challengeIds });
 };
 
-export const validateAnswer = async (
-  cardA: string,
-  cardB: string,
-  userAnswer: string,
-  possibleAnswers: string[] = [] 
-): Promise<{ isValid: boolean; reason: string; correctAnswer?: string }> => {
-  
-  if (possibleAnswers && possibleAnswers.length > 0) {
-    const normalizedInput = normalizeArabic(userAnswer);
-    const isMatch = possibleAnswers.some(ans => {
-       const normAns = normalizeArabic(ans);
-       return normAns === normalizedInput || 
-              (normAns.length > 3 && normalizedInput.includes(normAns)) || 
-              (normalizedInput.length > 3 && normAns.includes(normalizedInput));
-    });
+/**
+ * Fetches the fixed puzzle sequence for a daily challenge date (YYYY-MM-DD, UTC). `player` is the
+ * profile playing it: the server only ranks the first daily run each player starts on a date.
+ */
+export const fetchDailyChallenges = async (date: string, locale: Locale = Locale.AR, gameId?: string, player?: string): Promise<Challenge[]> => {
+  return postJson<Challenge[]>("/daily", { date, locale, gameId, player });
+};
 
-    if (isMatch) return { isValid: true, reason: "إجابة صحيحة!" };
-  }
+/**
+ * Submits a finished game to the leaderboard. The server replays the run against the challenges
+ * and verdicts it handed out, so the score it ranks is its own; a run it can't verify is rejected (422).
+ */
+export const submitRun = async (events: RunEvent[], nickname: string): Promise<{ entry: LeaderboardEntry; ranks: BoardRanks }> => {
+  return postJson<{ entry: LeaderboardEntry; ranks: BoardRanks }>("/leaderboard", { events, nickname });
+};
 
-  const prompt = `
-    Context: Football trivia.
-    Question: Connect "${cardA}" and "${cardB}".
-    User Answer: "${userAnswer}".
-    Verify if correct. Output in Arabic.
-  `;
+/** Fetches the top of one board; the daily mode's boards ignore the difficulty. */
+export const fetchLeaderboard = async (mode: GameMode, difficulty: Difficulty, period: BoardPeriod): Promise<LeaderboardEntry[]> => {
+  const response = await fetch(`${API_BASE}/leaderboard?${new URLSearchParams({ mode, difficulty, period })}`);
+  if (!response.ok) throw new Error(`Loading the leaderboard failed with ${response.status}`);
+  return response.json();
+};
 
-  try {
-    const data = await generateWithFallback(prompt, validationSchema, 0.2);
-    return {
-      isValid: data.isValid,
-      reason: data.reason,
-      correctAnswer: data.correctAnswer
-    };
-  } catch (error: any) {
-    console.error("Error validating via API:", error);
-    return { 
-      isValid: false, 
-      reason: "عذراً، الخدمة مشغولة جداً. حاول مرة أخرى." 
-    };
-  }
-};
\ No newline at end of file
+/** The API server's addresses on the local network, for the quiz night's join link. */
+export const fetchQuizAddresses = async (): Promise<string[]> => {
+  const response = await fetch(`${API_BASE}/quiz/addresses`);
+  if (!response.ok) throw new Error(`Loading the addresses failed with ${response.status}`);
+  return response.json();
+};
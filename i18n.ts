@@ -0,0 +1,785 @@
+import { createContext, useContext } from "react";
+import { AnswerStyle, ChallengeSource, Difficulty, EntityType, GameMode, HintType, Locale, PlayerPosition, QuizError, QuizTheme, RoomError, RoundOutcome, VerdictSource } from "../types";
+
+const STORAGE_KEY = "football-link-sprint.locale.v1";
+
+export const LOCALES: Record<Locale, { label: string; dir: "rtl" | "ltr" }> = {
+  [Locale.AR]: { label: "العربية", dir: "rtl" },
+  [Locale.EN]: { label: "English", dir: "ltr" },
+  [Locale.FR]: { label: "Français", dir: "ltr" }
+};
+
+const ar = {
+  appTitle: "سبرينت",
+  appTitleAccent: "الكرة",
+  taglineLine1: "اختبر معلوماتك الكروية في تحدي السرعة.",
+  taglineBeforeLink: "نظهر لك كرتين، وأنت تعطينا",
+  taglineLink: "الرابط",
+  taglineAfterLink: ".",
+  language: "اللغة",
+  chooseDifficulty: "اختر مستوى الصعوبة",
+  difficulties: {
+    [Difficulty.EASY]: "سهل",
+    [Difficulty.MEDIUM]: "متوسط",
+    [Difficulty.HARD]: "صعب"
+  } as Record<Difficulty, string>,
+  secondsLong: (seconds: number) => `${seconds} ثانية`,
+  secondsShort: (ms: number) => `${(ms / 1000).toFixed(1)} ث`,
+  dailyTitle: "التحدي اليومي",
+  dailyBlurb: "نفس الألغاز للجميع، محاولة واحدة يومياً",
+  playNow: "العب الآن",
+  chainTitle: "السلسلة",
+  chainBlurb: "كل إجابة تصبح البطاقة الأولى في الجولة التالية",
+  chainPathTitle: "مسار السلسلة",
+  answerStyles: {
+    [AnswerStyle.TYPED]: "كتابة الإجابة",
+    [AnswerStyle.MULTIPLE_CHOICE]: "اختيار من أربعة"
+  } as Record<AnswerStyle, string>,
+  gameModes: {
+    [GameMode.CLASSIC]: "كلاسيكي",
+    [GameMode.DAILY]: "التحدي اليومي",
+    [GameMode.CHAIN]: "السلسلة",
+    [GameMode.REVERSE]: "اللغز المعكوس"
+  } as Record<GameMode, string>,
+  choicePrompt: "اختر اللاعب، أو اضغط 1–4",
+  choiceRight: "اخترت اللاعب الصحيح",
+  reverseTitle: "اللغز المعكوس",
+  reverseBlurb: "لاعب واحد وعدة بطاقات: اختر ما يرتبط به",
+  reversePrompt: (count: number) => `اختر البطاقات التي يرتبط بها هذا اللاعب (${count})`,
+  reverseCheck: "تحقق",
+  reversePerfect: "وجدت كل الروابط!",
+  reverseResult: (found: number, total: number) => `وجدت ${found} من ${total}`,
+  reverseWrongPicks: (count: number) => `اختيارات خاطئة: ${count}`,
+  reverseLinks: "الروابط",
+  challengeSourceTitle: "مصدر الأسئلة",
+  challengeSources: {
+    [ChallengeSource.AUTO]: "تلقائي",
+    [ChallengeSource.AI]: "ذكاء اصطناعي",
+    [ChallengeSource.OFFLINE]: "بدون إنترنت"
+  } as Record<ChallengeSource, string>,
+  startChallenge: "ابدأ التحدي",
+  bestScore: (score: number) => `أفضل نتيجة: ${score}`,
+  processing: "جاري المعالجة...",
+  validatingAnswer: "جاري التحقق من الإجابة...",
+  preparingNextPuzzle: "جاري تحضير اللغز التالي...",
+  serversBusy: "الخوادم مشغولة حالياً أو انتهت حصة الاستخدام. يرجى المحاولة لاحقاً.",
+  nextRoundFailed: "حدث خطأ أثناء تحميل السؤال التالي.",
+  challengeExpired: "انتهت صلاحية هذا السؤال. تخطاه إلى السؤال التالي.",
+  serviceBusy: "عذراً، الخدمة مشغولة جداً. حاول مرة أخرى.",
+  shareResult: "شارك النتيجة",
+  copied: "تم النسخ!",
+  shareText: (date: string, grid: string) => `سبرينت الكرة ⚽ التحدي اليومي ${date}\n${grid}`,
+  timeUp: "انتهى الوقت!",
+  gameOverSubtitle: "أداء رائع، هل يمكنك تحطيم رقمك؟",
+  finalScore: "النتيجة النهائية",
+  newRecord: "رقم قياسي جديد!",
+  reviewRounds: (count: number) => `مراجعة الجولات (${count})`,
+  leaderboardTitle: "لوحة الصدارة",
+  nicknamePlaceholder: "اسمك في لوحة الصدارة",
+  submitRun: "أرسل النتيجة",
+  submittingRun: "جاري التحقق...",
+  rankToday: "ترتيبك اليوم",
+  rankAllTime: "ترتيبك على الإطلاق",
+  runRejected: "تعذر على الخادم التحقق من هذه المباراة، لذلك لم تُرتَّب.",
+  leaderboardUnavailable: "لوحة الصدارة غير متاحة حالياً. حاول مرة أخرى.",
+  headToHeadTitle: "مواجهة مباشرة",
+  headToHeadBlurb: "نفس الأسئلة لك ولصديقك في الوقت نفسه، والأسرع يفوز",
+  yourName: "اسمك",
+  createRoom: "إنشاء غرفة",
+  joinRoom: "انضمام",
+  roomCodePlaceholder: "رمز الغرفة",
+  roundsLabel: "الجولات",
+  roomCodeHint: "أعطِ هذا الرمز لصديقك",
+  waitingForOpponent: "في انتظار المنافس...",
+  waitingForHost: "في انتظار بدء المضيف للمباراة",
+  startMatch: "ابدأ المباراة",
+  roundOf: (round: number, total: number) => `الجولة ${round} من ${total}`,
+  loadingRound: "الجولة التالية قادمة...",
+  youWonRound: "أنت الأسرع!",
+  roundWonBy: (name: string) => `${name} كان الأسرع!`,
+  nobodyWonRound: "انتهى الوقت ولم يجب أحد.",
+  winningAnswer: (answer: string) => `الإجابة: ${answer}`,
+  matchWon: "فزت بالمباراة!",
+  matchLost: (name: string) => `${name} فاز بالمباراة`,
+  matchDraw: "تعادل!",
+  opponentLeft: "غادر منافسك المباراة.",
+  rematch: "مباراة أخرى",
+  leaveRoom: "مغادرة",
+  waitingForReconnect: (name: string) => `انقطع اتصال ${name}، في انتظار عودته...`,
+  reconnecting: "انقطع الاتصال، جاري إعادة الاتصال...",
+  you: "أنت",
+  roomErrors: {
+    [RoomError.ROOM_NOT_FOUND]: "لا توجد غرفة بهذا الرمز.",
+    [RoomError.ROOM_FULL]: "هذه الغرفة ممتلئة.",
+    [RoomError.MATCH_RUNNING]: "بدأت المباراة في هذه الغرفة بالفعل.",
+    [RoomError.SESSION_EXPIRED]: "انتهت مدة الاحتفاظ بمقعدك في الغرفة.",
+    [RoomError.INVALID_NAME]: "يجب أن يتكون الاسم من 2 إلى 20 حرفاً أو رقماً.",
+    [RoomError.ROUND_FAILED]: "تعذر تحميل الجولة التالية."
+  } as Record<RoomError, string>,
+  quizNightTitle: "أمسية المسابقات",
+  quizNightBlurb: "اعرض الأسئلة على جهاز العرض، والفرق تضغط الجرس من هواتفها",
+  hostQuiz: "استضف مسابقة",
+  quizThemesLabel: "المواضيع",
+  quizThemesHint: "بدون اختيار: كل المواضيع",
+  quizThemes: {
+    [QuizTheme.CLUBS]: "الأندية",
+    [QuizTheme.NATIONAL_TEAMS]: "المنتخبات",
+    [QuizTheme.COACHES]: "المدربون",
+    [QuizTheme.TROPHIES]: "البطولات",
+    [QuizTheme.YEARS]: "السنوات"
+  } as Record<QuizTheme, string>,
+  quizPointsLabel: "نقاط الإجابة الصحيحة",
+  quizJoinHint: "انضموا من هواتفكم على",
+  quizCodeLabel: "رمز المسابقة",
+  openProjector: "افتح شاشة العرض",
+  showOnProjector: "اعرض",
+  startQuiz: "ابدأ المسابقة",
+  waitingForTeams: "في انتظار انضمام الفرق...",
+  waitingForQuiz: "في انتظار بدء المسابقة...",
+  teamsLabel: "الفرق",
+  teamName: "اسم الفريق",
+  buzz: "الجرس!",
+  buzzedIn: (name: string) => `${name} ضغط الجرس!`,
+  yourTurnToAnswer: "دوركم! اكتبوا إجابتكم",
+  sendAnswer: "إرسال",
+  answerSent: "تم إرسال الإجابة، في انتظار قرار المقدم...",
+  waitingForTeamAnswer: "في انتظار الإجابة...",
+  lockedOutThisRound: "إجابة خاطئة، أنتم خارج هذه الجولة",
+  suggestionLabel: "اقتراح المدقق",
+  suggestionChecking: "جاري التحقق...",
+  suggestionCorrect: "تبدو صحيحة",
+  suggestionWrong: "تبدو خاطئة",
+  acceptAnswer: "قبول",
+  rejectAnswer: "رفض",
+  revealAnswers: "اكشف الإجابات",
+  teamScored: (name: string, points: number) => `${name} يحصل على ${points}!`,
+  nobodyScored: "لم يجب أحد هذه المرة.",
+  endQuiz: "إنهاء المسابقة",
+  closeQuiz: "إغلاق المسابقة",
+  finalStandings: "الترتيب النهائي",
+  quizWonBy: (name: string) => `${name} فاز بالمسابقة!`,
+  quizErrors: {
+    [QuizError.QUIZ_NOT_FOUND]: "لا توجد مسابقة بهذا الرمز.",
+    [QuizError.QUIZ_FULL]: "اكتمل عدد الفرق في هذه المسابقة.",
+    [QuizError.NAME_TAKEN]: "يوجد فريق بهذا الاسم بالفعل.",
+    [QuizError.INVALID_NAME]: "يجب أن يتكون الاسم من 2 إلى 20 حرفاً أو رقماً.",
+    [QuizError.SESSION_EXPIRED]: "لم يعد فريقك في هذه المسابقة.",
+    [QuizError.ROUND_FAILED]: "تعذر تحميل الجولة التالية.",
+    [QuizError.QUIZ_CLOSED]: "انتهت المسابقة."
+  } as Record<QuizError, string>,
+  playAgain: "لعب مرة أخرى",
+  mainMenu: "القائمة الرئيسية",
+  poweredBy: "مدعوم بواسطة Gemini AI",
+  score: "النقاط",
+  timeLeft: "الوقت المتبقي",
+  pause: "إيقاف مؤقت",
+  answerPlaceholder: "اكتب اسم اللاعب الذي يربط بينهما...",
+  correctWithBonus: (seconds: number) => `إجابة صحيحة! +${seconds} ثواني`,
+  wrongAnswer: "إجابة خاطئة، حاول مرة أخرى",
+  verdictSource: (source: string) => `المصدر: ${source}`,
+  verdictSources: {
+    [VerdictSource.GRAPH]: "قاعدة بيانات اللاعبين",
+    [VerdictSource.ANSWER_LIST]: "قائمة الإجابات",
+    [VerdictSource.MODEL]: "الذكاء الاصطناعي"
+  } as Record<VerdictSource, string>,
+  skipQuestion: "تخطي السؤال (بدون نقاط)",
+  hintButton: (label: string, seconds: number) => `تلميح: ${label} (-${seconds} ث)`,
+  noMoreHints: "لا مزيد من التلميحات",
+  hintFailed: "تعذر تحميل التلميح، حاول مرة أخرى.",
+  hintTypes: {
+    [HintType.NATIONALITY]: "الجنسية",
+    [HintType.POSITION]: "المركز",
+    [HintType.ERA]: "الحقبة",
+    [HintType.INITIAL]: "أول حرف"
+  } as Record<HintType, string>,
+  positions: {
+    [PlayerPosition.GOALKEEPER]: "حارس مرمى",
+    [PlayerPosition.DEFENDER]: "مدافع",
+    [PlayerPosition.MIDFIELDER]: "لاعب وسط",
+    [PlayerPosition.FORWARD]: "مهاجم"
+  } as Record<PlayerPosition, string>,
+  hintEra: (from: number, to: number) => `من ${from} إلى ${to}`,
+  hintInitial: (letter: string, length: number) => `«${letter}»، ${length} حروف`,
+  breakdownBase: "نقاط الصعوبة",
+  breakdownSpeed: "مكافأة السرعة",
+  breakdownStreak: (streak: number) => `سلسلة الإجابات (${streak})`,
+  breakdownHints: "التلميحات",
+  breakdownAttempts: "الإجابات الخاطئة",
+  breakdownTotal: "المجموع",
+  scoreBreakdownTitle: "تفاصيل النقاط",
+  livesLabel: "الأرواح",
+  attemptsLabel: "المحاولات",
+  wrongAnswerCost: (seconds: number) => `-${seconds} ث لكل خطأ`,
+  penaltySeconds: (seconds: number) => `-${seconds} ثوانٍ`,
+  penaltyLife: (left: number) => `خسرت روحاً، تبقى ${left}`,
+  outOfAttempts: "نفدت محاولاتك لهذا السؤال، ننتقل إلى التالي.",
+  outOfLives: "نفدت الأرواح!",
+  paused: "اللعبة متوقفة مؤقتاً",
+  resume: "متابعة اللعب",
+  entityTypes: {
+    [EntityType.TEAM]: "فريق",
+    [EntityType.PLAYER]: "لاعب",
+    [EntityType.COACH]: "مدرب",
+    [EntityType.TROPHY]: "بطولة / لقب",
+    [EntityType.NATIONAL_TEAM]: "منتخب",
+    [EntityType.YEAR]: "سنة"
+  } as Record<EntityType, string>,
+  unknownEntity: "كيان",
+  reviewTitle: "مراجعة الجولات",
+  outcomes: {
+    [RoundOutcome.SOLVED]: "تم الحل",
+    [RoundOutcome.SKIPPED]: "تم التخطي",
+    [RoundOutcome.TIMED_OUT]: "انتهى الوقت",
+    [RoundOutcome.FAILED]: "نفدت المحاولات",
+    [RoundOutcome.PARTIAL]: "حل جزئي"
+  } as Record<RoundOutcome, string>,
+  yourAttempts: "محاولاتك",
+  noAttempts: "لم تكتب أي إجابة في هذه الجولة.",
+  hintsUsed: "التلميحات المستخدمة",
+  noHintsUsed: "لم تستخدم أي تلميح.",
+  acceptedAnswers: "إجابات مقبولة",
+  loadingAnswers: "جاري تحميل الإجابات...",
+  previous: "السابق",
+  next: "التالي",
+  backToResults: "العودة إلى النتيجة",
+  statsTitle: "الإحصائيات",
+  profile: "الملف الشخصي",
+  defaultPlayerName: "لاعب 1",
+  newProfilePlaceholder: "اسم لاعب جديد...",
+  add: "إضافة",
+  deleteProfile: "حذف الملف",
+  confirmDeleteProfile: (name: string) => `حذف الملف "${name}" وجميع إحصائياته؟`,
+  statBestScore: "أفضل نتيجة",
+  statGamesPlayed: "عدد المباريات",
+  statAccuracy: "دقة الإجابات",
+  statAverageSolveTime: "متوسط وقت الحل",
+  statSkipRate: "نسبة التخطي",
+  statLongestStreak: "أطول سلسلة"
+};
+
+export type Messages = typeof ar;
+
+const en: Messages = {
+  appTitle: "Football",
+  appTitleAccent: "Sprint",
+  taglineLine1: "Test your football knowledge against the clock.",
+  taglineBeforeLink: "We show you two cards, you give us the",
+  taglineLink: "link",
+  taglineAfterLink: ".",
+  language: "Language",
+  chooseDifficulty: "Choose a difficulty",
+  difficulties: {
+    [Difficulty.EASY]: "Easy",
+    [Difficulty.MEDIUM]: "Medium",
+    [Difficulty.HARD]: "Hard"
+  },
+  secondsLong: seconds => `${seconds} seconds`,
+  secondsShort: ms => `${(ms / 1000).toFixed(1)}s`,
+  dailyTitle: "Daily Challenge",
+  dailyBlurb: "Same puzzles for everyone, one try a day",
+  playNow: "Play now",
+  chainTitle: "Chain",
+  chainBlurb: "Each answer becomes the first card of the next round",
+  chainPathTitle: "Your chain",
+  answerStyles: {
+    [AnswerStyle.TYPED]: "Type the answer",
+    [AnswerStyle.MULTIPLE_CHOICE]: "Pick from four"
+  },
+  gameModes: {
+    [GameMode.CLASSIC]: "Classic",
+    [GameMode.DAILY]: "Daily Challenge",
+    [GameMode.CHAIN]: "Chain",
+    [GameMode.REVERSE]: "Reverse puzzle"
+  },
+  choicePrompt: "Pick the player, or press 1–4",
+  choiceRight: "You picked the right player",
+  reverseTitle: "Reverse puzzle",
+  reverseBlurb: "One player, a grid of cards: pick the ones they're linked to",
+  reversePrompt: count => `Pick the ${count} cards this player is linked to`,
+  reverseCheck: "Check",
+  reversePerfect: "Every link found!",
+  reverseResult: (found, total) => `${found} of ${total} links found`,
+  reverseWrongPicks: count => `Wrong picks: ${count}`,
+  reverseLinks: "The links",
+  challengeSourceTitle: "Question source",
+  challengeSources: {
+    [ChallengeSource.AUTO]: "Automatic",
+    [ChallengeSource.AI]: "AI",
+    [ChallengeSource.OFFLINE]: "Offline"
+  },
+  startChallenge: "Start the challenge",
+  bestScore: score => `Best score: ${score}`,
+  processing: "Processing...",
+  validatingAnswer: "Checking your answer...",
+  preparingNextPuzzle: "Preparing the next puzzle...",
+  serversBusy: "The servers are busy or the usage quota has run out. Please try again later.",
+  nextRoundFailed: "Something went wrong while loading the next question.",
+  challengeExpired: "This question has expired. Skip to the next one.",
+  serviceBusy: "Sorry, the service is very busy. Please try again.",
+  shareResult: "Share result",
+  copied: "Copied!",
+  shareText: (date, grid) => `Football Sprint ⚽ Daily Challenge ${date}\n${grid}`,
+  timeUp: "Time's up!",
+  gameOverSubtitle: "Great game. Can you beat your record?",
+  finalScore: "Final score",
+  newRecord: "New record!",
+  reviewRounds: count => `Review rounds (${count})`,
+  leaderboardTitle: "Leaderboard",
+  nicknamePlaceholder: "Your nickname",
+  submitRun: "Submit",
+  submittingRun: "Checking...",
+  rankToday: "Today",
+  rankAllTime: "All time",
+  runRejected: "The server couldn't verify this game, so it wasn't ranked.",
+  leaderboardUnavailable: "The leaderboard is unavailable right now. Try again.",
+  headToHeadTitle: "Head-to-head",
+  headToHeadBlurb: "Race a friend through the same puzzles, live",
+  yourName: "Your name",
+  createRoom: "Create a room",
+  joinRoom: "Join",
+  roomCodePlaceholder: "Room code",
+  roundsLabel: "Rounds",
+  roomCodeHint: "Give this code to your friend",
+  waitingForOpponent: "Waiting for an opponent...",
+  waitingForHost: "Waiting for the host to start the match",
+  startMatch: "Start the match",
+  roundOf: (round, total) => `Round ${round} of ${total}`,
+  loadingRound: "Next round coming...",
+  youWonRound: "You got it first!",
+  roundWonBy: name => `${name} got it first!`,
+  nobodyWonRound: "Time's up, nobody got it.",
+  winningAnswer: answer => `Answer: ${answer}`,
+  matchWon: "You win the match!",
+  matchLost: name => `${name} wins the match`,
+  matchDraw: "It's a draw!",
+  opponentLeft: "Your opponent left the match.",
+  rematch: "Rematch",
+  leaveRoom: "Leave",
+  waitingForReconnect: name => `${name} lost connection. Waiting for them to come back...`,
+  reconnecting: "Connection lost, reconnecting...",
+  you: "You",
+  roomErrors: {
+    [RoomError.ROOM_NOT_FOUND]: "There is no room with this code.",
+    [RoomError.ROOM_FULL]: "This room is full.",
+    [RoomError.MATCH_RUNNING]: "The match in this room has already started.",
+    [RoomError.SESSION_EXPIRED]: "Your seat in the room has expired.",
+    [RoomError.INVALID_NAME]: "Names need 2 to 20 letters or digits.",
+    [RoomError.ROUND_FAILED]: "The next round couldn't be loaded."
+  },
+  quizNightTitle: "Quiz night",
+  quizNightBlurb: "Put the cards on a projector; teams buzz in from their phones",
+  hostQuiz: "Host a quiz",
+  quizThemesLabel: "Themes",
+  quizThemesHint: "None picked: any theme",
+  quizThemes: {
+    [QuizTheme.CLUBS]: "Clubs",
+    [QuizTheme.NATIONAL_TEAMS]: "National teams",
+    [QuizTheme.COACHES]: "Coaches",
+    [QuizTheme.TROPHIES]: "Trophies",
+    [QuizTheme.YEARS]: "Years"
+  },
+  quizPointsLabel: "Points for a correct answer",
+  quizJoinHint: "Join from your phone at",
+  quizCodeLabel: "Quiz code",
+  openProjector: "Open the projector view",
+  showOnProjector: "Show",
+  startQuiz: "Start the quiz",
+  waitingForTeams: "Waiting for teams to join...",
+  waitingForQuiz: "Waiting for the quiz to start...",
+  teamsLabel: "Teams",
+  teamName: "Team name",
+  buzz: "BUZZ!",
+  buzzedIn: (name) => `${name} buzzed in!`,
+  yourTurnToAnswer: "You have the floor! Type your answer",
+  sendAnswer: "Send",
+  answerSent: "Answer sent, waiting for the host...",
+  waitingForTeamAnswer: "Waiting for their answer...",
+  lockedOutThisRound: "Wrong answer, you're out for this round",
+  suggestionLabel: "Validator's suggestion",
+  suggestionChecking: "Checking...",
+  suggestionCorrect: "Looks correct",
+  suggestionWrong: "Looks wrong",
+  acceptAnswer: "Accept",
+  rejectAnswer: "Reject",
+  revealAnswers: "Reveal the answers",
+  teamScored: (name, points) => `${name} scores ${points}!`,
+  nobodyScored: "Nobody got this one.",
+  endQuiz: "End the quiz",
+  closeQuiz: "Close the quiz",
+  finalStandings: "Final standings",
+  quizWonBy: (name) => `${name} wins the quiz!`,
+  quizErrors: {
+    [QuizError.QUIZ_NOT_FOUND]: "No quiz with that code.",
+    [QuizError.QUIZ_FULL]: "This quiz has all the teams it can take.",
+    [QuizError.NAME_TAKEN]: "A team already has that name.",
+    [QuizError.INVALID_NAME]: "Names are 2 to 20 letters or digits.",
+    [QuizError.SESSION_EXPIRED]: "Your team is no longer in this quiz.",
+    [QuizError.ROUND_FAILED]: "The next round couldn't be loaded.",
+    [QuizError.QUIZ_CLOSED]: "The quiz is over."
+  },
+  playAgain: "Play again",
+  mainMenu: "Main menu",
+  poweredBy: "Powered by Gemini AI",
+  score: "Score",
+  timeLeft: "Time left",
+  pause: "Pause",
+  answerPlaceholder: "Type the player who links them...",
+  correctWithBonus: seconds => `Correct! +${seconds} seconds`,
+  wrongAnswer: "Wrong answer, try again",
+  verdictSource: source => `Source: ${source}`,
+  verdictSources: {
+    [VerdictSource.GRAPH]: "Player database",
+    [VerdictSource.ANSWER_LIST]: "Answer list",
+    [VerdictSource.MODEL]: "AI"
+  },
+  skipQuestion: "Skip question (no points)",
+  hintButton: (label, seconds) => `Hint: ${label} (−${seconds}s)`,
+  noMoreHints: "No more hints",
+  hintFailed: "Couldn't load the hint, try again.",
+  hintTypes: {
+    [HintType.NATIONALITY]: "Nationality",
+    [HintType.POSITION]: "Position",
+    [HintType.ERA]: "Era",
+    [HintType.INITIAL]: "First letter"
+  },
+  positions: {
+    [PlayerPosition.GOALKEEPER]: "Goalkeeper",
+    [PlayerPosition.DEFENDER]: "Defender",
+    [PlayerPosition.MIDFIELDER]: "Midfielder",
+    [PlayerPosition.FORWARD]: "Forward"
+  },
+  hintEra: (from, to) => `${from}–${to}`,
+  hintInitial: (letter, length) => `"${letter}", ${length} letters`,
+  breakdownBase: "Difficulty points",
+  breakdownSpeed: "Speed bonus",
+  breakdownStreak: streak => `Streak (${streak})`,
+  breakdownHints: "Hints",
+  breakdownAttempts: "Wrong answers",
+  breakdownTotal: "Total",
+  scoreBreakdownTitle: "Score breakdown",
+  livesLabel: "Lives",
+  attemptsLabel: "Attempts",
+  wrongAnswerCost: seconds => `−${seconds}s per miss`,
+  penaltySeconds: seconds => `−${seconds} seconds`,
+  penaltyLife: left => `Life lost, ${left} left`,
+  outOfAttempts: "Out of attempts for this one, moving on.",
+  outOfLives: "Out of lives!",
+  paused: "Game paused",
+  resume: "Resume",
+  entityTypes: {
+    [EntityType.TEAM]: "Team",
+    [EntityType.PLAYER]: "Player",
+    [EntityType.COACH]: "Coach",
+    [EntityType.TROPHY]: "Trophy / title",
+    [EntityType.NATIONAL_TEAM]: "National team",
+    [EntityType.YEAR]: "Year"
+  },
+  unknownEntity: "Entity",
+  reviewTitle: "Round review",
+  outcomes: {
+    [RoundOutcome.SOLVED]: "Solved",
+    [RoundOutcome.SKIPPED]: "Skipped",
+    [RoundOutcome.TIMED_OUT]: "Timed out",
+    [RoundOutcome.FAILED]: "Out of attempts",
+    [RoundOutcome.PARTIAL]: "Partly solved"
+  },
+  yourAttempts: "Your attempts",
+  noAttempts: "You didn't type any answer this round.",
+  hintsUsed: "Hints used",
+  noHintsUsed: "No hints used.",
+  acceptedAnswers: "Accepted answers",
+  loadingAnswers: "Loading answers...",
+  previous: "Previous",
+  next: "Next",
+  backToResults: "Back to results",
+  statsTitle: "Statistics",
+  profile: "Profile",
+  defaultPlayerName: "Player 1",
+  newProfilePlaceholder: "New player name...",
+  add: "Add",
+  deleteProfile: "Delete profile",
+  confirmDeleteProfile: name => `Delete the profile "${name}" and all its statistics?`,
+  statBestScore: "Best score",
+  statGamesPlayed: "Games played",
+  statAccuracy: "Answer accuracy",
+  statAverageSolveTime: "Average solve time",
+  statSkipRate: "Skip rate",
+  statLongestStreak: "Longest streak"
+};
+
+const fr: Messages = {
+  appTitle: "Sprint",
+  appTitleAccent: "Foot",
+  taglineLine1: "Testez votre culture foot contre la montre.",
+  taglineBeforeLink: "On vous montre deux cartes, vous trouvez le",
+  taglineLink: "lien",
+  taglineAfterLink: ".",
+  language: "Langue",
+  chooseDifficulty: "Choisissez la difficulté",
+  difficulties: {
+    [Difficulty.EASY]: "Facile",
+    [Difficulty.MEDIUM]: "Moyen",
+    [Difficulty.HARD]: "Difficile"
+  },
+  secondsLong: seconds => `${seconds} secondes`,
+  secondsShort: ms => `${(ms / 1000).toFixed(1)} s`,
+  dailyTitle: "Défi du jour",
+  dailyBlurb: "Les mêmes énigmes pour tous, un essai par jour",
+  playNow: "Jouer",
+  chainTitle: "Chaîne",
+  chainBlurb: "Chaque réponse devient la première carte de la manche suivante",
+  chainPathTitle: "Votre chaîne",
+  answerStyles: {
+    [AnswerStyle.TYPED]: "Saisir la réponse",
+    [AnswerStyle.MULTIPLE_CHOICE]: "Choisir parmi quatre"
+  },
+  gameModes: {
+    [GameMode.CLASSIC]: "Classique",
+    [GameMode.DAILY]: "Défi du jour",
+    [GameMode.CHAIN]: "Chaîne",
+    [GameMode.REVERSE]: "Énigme inversée"
+  },
+  choicePrompt: "Choisissez le joueur, ou appuyez sur 1–4",
+  choiceRight: "Vous avez choisi le bon joueur",
+  reverseTitle: "Énigme inversée",
+  reverseBlurb: "Un joueur, une grille de cartes : choisissez celles qui lui sont liées",
+  reversePrompt: count => `Choisissez les ${count} cartes liées à ce joueur`,
+  reverseCheck: "Vérifier",
+  reversePerfect: "Tous les liens trouvés !",
+  reverseResult: (found, total) => `${found} liens trouvés sur ${total}`,
+  reverseWrongPicks: count => `Mauvais choix : ${count}`,
+  reverseLinks: "Les liens",
+  challengeSourceTitle: "Source des questions",
+  challengeSources: {
+    [ChallengeSource.AUTO]: "Automatique",
+    [ChallengeSource.AI]: "IA",
+    [ChallengeSource.OFFLINE]: "Hors ligne"
+  },
+  startChallenge: "Lancer le défi",
+  bestScore: score => `Meilleur score : ${score}`,
+  processing: "Traitement...",
+  validatingAnswer: "Vérification de la réponse...",
+  preparingNextPuzzle: "Préparation de la prochaine énigme...",
+  serversBusy: "Les serveurs sont occupés ou le quota est épuisé. Réessayez plus tard.",
+  nextRoundFailed: "Erreur lors du chargement de la question suivante.",
+  challengeExpired: "Cette question a expiré. Passez à la suivante.",
+  serviceBusy: "Désolé, le service est très sollicité. Réessayez.",
+  shareResult: "Partager",
+  copied: "Copié !",
+  shareText: (date, grid) => `Sprint Foot ⚽ Défi du jour ${date}\n${grid}`,
+  timeUp: "Temps écoulé !",
+  gameOverSubtitle: "Belle partie ! Pouvez-vous battre votre record ?",
+  finalScore: "Score final",
+  newRecord: "Nouveau record !",
+  reviewRounds: count => `Revoir les manches (${count})`,
+  leaderboardTitle: "Classement",
+  nicknamePlaceholder: "Votre pseudo",
+  submitRun: "Envoyer",
+  submittingRun: "Vérification...",
+  rankToday: "Aujourd'hui",
+  rankAllTime: "Depuis toujours",
+  runRejected: "Le serveur n'a pas pu vérifier cette partie, elle n'est donc pas classée.",
+  leaderboardUnavailable: "Le classement est indisponible pour le moment. Réessayez.",
+  headToHeadTitle: "Face-à-face",
+  headToHeadBlurb: "Affrontez un ami sur les mêmes énigmes, en direct",
+  yourName: "Votre nom",
+  createRoom: "Créer une salle",
+  joinRoom: "Rejoindre",
+  roomCodePlaceholder: "Code de la salle",
+  roundsLabel: "Manches",
+  roomCodeHint: "Donnez ce code à votre ami",
+  waitingForOpponent: "En attente d'un adversaire...",
+  waitingForHost: "En attente du lancement par l'hôte",
+  startMatch: "Lancer le match",
+  roundOf: (round, total) => `Manche ${round} sur ${total}`,
+  loadingRound: "La prochaine manche arrive...",
+  youWonRound: "Vous avez été le plus rapide !",
+  roundWonBy: name => `${name} a été le plus rapide !`,
+  nobodyWonRound: "Temps écoulé, personne n'a trouvé.",
+  winningAnswer: answer => `Réponse : ${answer}`,
+  matchWon: "Vous gagnez le match !",
+  matchLost: name => `${name} gagne le match`,
+  matchDraw: "Match nul !",
+  opponentLeft: "Votre adversaire a quitté le match.",
+  rematch: "Revanche",
+  leaveRoom: "Quitter",
+  waitingForReconnect: name => `${name} a perdu la connexion. En attente de son retour...`,
+  reconnecting: "Connexion perdue, reconnexion...",
+  you: "Vous",
+  roomErrors: {
+    [RoomError.ROOM_NOT_FOUND]: "Aucune salle avec ce code.",
+    [RoomError.ROOM_FULL]: "Cette salle est pleine.",
+    [RoomError.MATCH_RUNNING]: "Le match de cette salle a déjà commencé.",
+    [RoomError.SESSION_EXPIRED]: "Votre place dans la salle a expiré.",
+    [RoomError.INVALID_NAME]: "Le nom doit compter 2 à 20 lettres ou chiffres.",
+    [RoomError.ROUND_FAILED]: "La manche suivante n'a pas pu être chargée."
+  },
+  quizNightTitle: "Soirée quiz",
+  quizNightBlurb: "Les cartes au vidéoprojecteur, les équipes buzzent depuis leur téléphone",
+  hostQuiz: "Animer un quiz",
+  quizThemesLabel: "Thèmes",
+  quizThemesHint: "Aucun choisi : tous les thèmes",
+  quizThemes: {
+    [QuizTheme.CLUBS]: "Clubs",
+    [QuizTheme.NATIONAL_TEAMS]: "Sélections",
+    [QuizTheme.COACHES]: "Entraîneurs",
+    [QuizTheme.TROPHIES]: "Trophées",
+    [QuizTheme.YEARS]: "Années"
+  },
+  quizPointsLabel: "Points par bonne réponse",
+  quizJoinHint: "Rejoignez depuis votre téléphone sur",
+  quizCodeLabel: "Code du quiz",
+  openProjector: "Ouvrir l'écran de projection",
+  showOnProjector: "Afficher",
+  startQuiz: "Lancer le quiz",
+  waitingForTeams: "En attente des équipes...",
+  waitingForQuiz: "En attente du début du quiz...",
+  teamsLabel: "Équipes",
+  teamName: "Nom de l'équipe",
+  buzz: "BUZZ !",
+  buzzedIn: (name) => `${name} a buzzé !`,
+  yourTurnToAnswer: "À vous ! Tapez votre réponse",
+  sendAnswer: "Envoyer",
+  answerSent: "Réponse envoyée, en attente de l'animateur...",
+  waitingForTeamAnswer: "En attente de leur réponse...",
+  lockedOutThisRound: "Mauvaise réponse, vous êtes hors jeu pour cette manche",
+  suggestionLabel: "Suggestion du validateur",
+  suggestionChecking: "Vérification...",
+  suggestionCorrect: "Semble correcte",
+  suggestionWrong: "Semble fausse",
+  acceptAnswer: "Accepter",
+  rejectAnswer: "Refuser",
+  revealAnswers: "Révéler les réponses",
+  teamScored: (name, points) => `${name} marque ${points} !`,
+  nobodyScored: "Personne n'a trouvé.",
+  endQuiz: "Terminer le quiz",
+  closeQuiz: "Fermer le quiz",
+  finalStandings: "Classement final",
+  quizWonBy: (name) => `${name} remporte le quiz !`,
+  quizErrors: {
+    [QuizError.QUIZ_NOT_FOUND]: "Aucun quiz avec ce code.",
+    [QuizError.QUIZ_FULL]: "Ce quiz a atteint son nombre d'équipes.",
+    [QuizError.NAME_TAKEN]: "Une équipe porte déjà ce nom.",
+    [QuizError.INVALID_NAME]: "Les noms font de 2 à 20 lettres ou chiffres.",
+    [QuizError.SESSION_EXPIRED]: "Votre équipe ne fait plus partie de ce quiz.",
+    [QuizError.ROUND_FAILED]: "Impossible de charger la manche suivante.",
+    [QuizError.QUIZ_CLOSED]: "Le quiz est terminé."
+  },
+  playAgain: "Rejouer",
+  mainMenu: "Menu principal",
+  poweredBy: "Propulsé par Gemini AI",
+  score: "Points",
+  timeLeft: "Temps restant",
+  pause: "Pause",
+  answerPlaceholder: "Tapez le joueur qui les relie...",
+  correctWithBonus: seconds => `Bonne réponse ! +${seconds} secondes`,
+  wrongAnswer: "Mauvaise réponse, réessayez",
+  verdictSource: source => `Source : ${source}`,
+  verdictSources: {
+    [VerdictSource.GRAPH]: "Base de joueurs",
+    [VerdictSource.ANSWER_LIST]: "Liste des réponses",
+    [VerdictSource.MODEL]: "IA"
+  },
+  skipQuestion: "Passer la question (sans points)",
+  hintButton: (label, seconds) => `Indice : ${label} (−${seconds} s)`,
+  noMoreHints: "Plus d'indices",
+  hintFailed: "Impossible de charger l'indice, réessayez.",
+  hintTypes: {
+    [HintType.NATIONALITY]: "Nationalité",
+    [HintType.POSITION]: "Poste",
+    [HintType.ERA]: "Époque",
+    [HintType.INITIAL]: "Première lettre"
+  },
+  positions: {
+    [PlayerPosition.GOALKEEPER]: "Gardien",
+    [PlayerPosition.DEFENDER]: "Défenseur",
+    [PlayerPosition.MIDFIELDER]: "Milieu",
+    [PlayerPosition.FORWARD]: "Attaquant"
+  },
+  hintEra: (from, to) => `de ${from} à ${to}`,
+  hintInitial: (letter, length) => `« ${letter} », ${length} lettres`,
+  breakdownBase: "Points de difficulté",
+  breakdownSpeed: "Bonus de rapidité",
+  breakdownStreak: streak => `Série (${streak})`,
+  breakdownHints: "Indices",
+  breakdownAttempts: "Mauvaises réponses",
+  breakdownTotal: "Total",
+  scoreBreakdownTitle: "Détail des points",
+  livesLabel: "Vies",
+  attemptsLabel: "Essais",
+  wrongAnswerCost: seconds => `−${seconds} s par erreur`,
+  penaltySeconds: seconds => `−${seconds} secondes`,
+  penaltyLife: left => `Vie perdue, il en reste ${left}`,
+  outOfAttempts: "Plus d'essais pour cette question, on passe à la suivante.",
+  outOfLives: "Plus de vies !",
+  paused: "Jeu en pause",
+  resume: "Reprendre",
+  entityTypes: {
+    [EntityType.TEAM]: "Club",
+    [EntityType.PLAYER]: "Joueur",
+    [EntityType.COACH]: "Entraîneur",
+    [EntityType.TROPHY]: "Trophée / titre",
+    [EntityType.NATIONAL_TEAM]: "Sélection",
+    [EntityType.YEAR]: "Année"
+  },
+  unknownEntity: "Entité",
+  reviewTitle: "Revue des manches",
+  outcomes: {
+    [RoundOutcome.SOLVED]: "Résolue",
+    [RoundOutcome.SKIPPED]: "Passée",
+    [RoundOutcome.TIMED_OUT]: "Temps écoulé",
+    [RoundOutcome.FAILED]: "Essais épuisés",
+    [RoundOutcome.PARTIAL]: "Résolu en partie"
+  },
+  yourAttempts: "Vos essais",
+  noAttempts: "Aucune réponse saisie pendant cette manche.",
+  hintsUsed: "Indices utilisés",
+  noHintsUsed: "Aucun indice utilisé.",
+  acceptedAnswers: "Réponses acceptées",
+  loadingAnswers: "Chargement des réponses...",
+  previous: "Précédente",
+  next: "Suivante",
+  backToResults: "Retour au score",
+  statsTitle: "Statistiques",
+  profile: "Profil",
+  defaultPlayerName: "Joueur 1",
+  newProfilePlaceholder: "Nom du nouveau joueur...",
+  add: "Ajouter",
+  deleteProfile: "Supprimer le profil",
+  confirmDeleteProfile: name => `Supprimer le profil « ${name} » et toutes ses statistiques ?`,
+  statBestScore: "Meilleur score",
+  statGamesPlayed: "Parties jouées",
+  statAccuracy: "Précision",
+  statAverageSolveTime: "Temps moyen de résolution",
+  statSkipRate: "Taux de questions passées",
+  statLongestStreak: "Plus longue série"
+};
+
+export const MESSAGES: Record<Locale, Messages> = {
+  [Locale.AR]: ar,
+  [Locale.EN]: en,
+  [Locale.FR]: fr
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (Object.values(Locale).includes(saved as Locale)) return saved as Locale;
+  } catch {
+    // Storage unavailable: fall through to the default
+  }
+  return Locale.AR;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.error("Failed to save language:", e);
+  }
+};
+
+export const I18nContext = createContext<{ locale: Locale; t: Messages }>({ locale: Locale.AR, t: ar });
+
+/** The current language and its strings, for components below App. */
+export const useI18n = () => useContext(I18nContext);
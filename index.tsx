@@ -1,15 +1,22 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import QuizNight, { QuizView } from './components/QuizNight';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Quiz-night links (the host's panel, the projector, the teams' phones) skip the game's menu
+const params = new URLSearchParams(location.search);
+const quizView = params.get('quiz') as QuizView | null;
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {quizView && ['host', 'screen', 'team'].includes(quizView)
+      ? <QuizNight view={quizView} code={params.get('code') || ''} />
+      : <App />}
   </React.StrictMode>
 );
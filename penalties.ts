@@ -0,0 +1,47 @@
+import { GameMode } from "../types";
+
+// What a wrong answer costs. Every rule is optional; a mode combines the ones it wants.
+export interface PenaltyRules {
+  lives?: number;              // Wrong answers allowed over the whole game before it ends
+  wrongAnswerSeconds?: number; // Taken off the clock for each wrong answer
+  maxAttemptsPerRound?: number; // Wrong answers allowed on one puzzle before it is skipped
+}
+
+export const PENALTY_RULES: Record<GameMode, PenaltyRules> = {
+  // Long runs: misses cost time, and a puzzle can't be hammered with guesses
+  [GameMode.CLASSIC]: { wrongAnswerSeconds: 5, maxAttemptsPerRound: 3 },
+  // Five fixed puzzles: three strikes and the run is over
+  [GameMode.DAILY]: { lives: 3 },
+  // A failed round doesn't break the chain (its last player stays as card A), so misses cost like classic
+  [GameMode.CHAIN]: { wrongAnswerSeconds: 5, maxAttemptsPerRound: 3 },
+  // One submission per grid; mistakes cost points instead (see scoreReverseRound)
+  [GameMode.REVERSE]: {}
+};
+
+// Four names to pick from: a second pick would make guessing through them win the round three times in four
+const MULTIPLE_CHOICE_ATTEMPTS = 1;
+
+/** The rules for one round: a mode's, with a single wrong pick allowed when the round is multiple choice. */
+export const roundPenaltyRules = (mode: GameMode, multipleChoice: boolean): PenaltyRules =>
+  multipleChoice && PENALTY_RULES[mode].maxAttemptsPerRound !== undefined
+    ? { ...PENALTY_RULES[mode], maxAttemptsPerRound: MULTIPLE_CHOICE_ATTEMPTS }
+    : PENALTY_RULES[mode];
+
+export interface PenaltyResult {
+  secondsLost: number;
+  livesLeft: number | null; // null when the mode has no lives
+  roundOver: boolean; // The puzzle ran out of attempts and gets skipped
+  gameOver: boolean;
+}
+
+/** What one more wrong answer does under the given rules. */
+export const applyWrongAnswer = (
+  rules: PenaltyRules,
+  state: { timeLeft: number; livesLeft: number | null; wrongAttempts: number }
+): PenaltyResult => {
+  const secondsLost = Math.min(state.timeLeft, rules.wrongAnswerSeconds ?? 0);
+  const livesLeft = state.livesLeft === null ? null : Math.max(0, state.livesLeft - 1);
+  const gameOver = livesLeft === 0 || (secondsLost > 0 && secondsLost >= state.timeLeft);
+  const roundOver = !gameOver && rules.maxAttemptsPerRound !== undefined && state.wrongAttempts >= rules.maxAttemptsPerRound;
+  return { secondsLost, livesLeft, roundOver, gameOver };
+};
@@ -0,0 +1,139 @@
+import { Difficulty, DifficultyStats, PlayerProfile, RoundOutcome, RoundRecord } from "../types";
+
+// Profiles live in localStorage so several players can share one device
+const STORAGE_KEY = "football-link-sprint.profiles.v1";
+
+export interface ProfilesState {
+  activeProfileId: string;
+  profiles: PlayerProfile[];
+}
+
+export interface FinishedGame {
+  difficulty: Difficulty;
+  score: number;
+  history: RoundRecord[];
+}
+
+const emptyStats = (): DifficultyStats => ({
+  bestScore: 0,
+  gamesPlayed: 0,
+  roundsPlayed: 0,
+  roundsSolved: 0,
+  roundsSkipped: 0,
+  attempts: 0,
+  correctAttempts: 0,
+  totalSolveTimeMs: 0,
+  longestStreak: 0
+});
+
+const newProfile = (name: string): PlayerProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: Date.now(),
+  stats: {
+    [Difficulty.EASY]: emptyStats(),
+    [Difficulty.MEDIUM]: emptyStats(),
+    [Difficulty.HARD]: emptyStats()
+  }
+});
+
+// The first profile, named in the player's language
+const defaultState = (playerName: string): ProfilesState => {
+  const profile = newProfile(playerName);
+  return { activeProfileId: profile.id, profiles: [profile] };
+};
+
+export const loadProfiles = (defaultName: string): ProfilesState => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultState(defaultName);
+    const state = JSON.parse(raw) as ProfilesState;
+    if (!Array.isArray(state.profiles) || state.profiles.length === 0) return defaultState(defaultName);
+
+    // Fill in stats for any difficulty added after the profile was saved
+    const profiles = state.profiles.map(profile => ({
+      ...profile,
+      stats: Object.fromEntries(
+        Object.values(Difficulty).map(level => [level, { ...emptyStats(), ...profile.stats?.[level] }])
+      ) as Record<Difficulty, DifficultyStats>
+    }));
+    const activeProfileId = profiles.some(p => p.id === state.activeProfileId)
+      ? state.activeProfileId
+      : profiles[0].id;
+    return { activeProfileId, profiles };
+  } catch (e) {
+    console.error("Failed to load profiles, starting fresh:", e);
+    return defaultState(defaultName);
+  }
+};
+
+export const saveProfiles = (state: ProfilesState) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save profiles:", e);
+  }
+};
+
+export const getActiveProfile = (state: ProfilesState): PlayerProfile =>
+  state.profiles.find(p => p.id === state.activeProfileId) || state.profiles[0];
+
+export const addProfile = (state: ProfilesState, name: string): ProfilesState => {
+  const profile = newProfile(name.trim());
+  return { activeProfileId: profile.id, profiles: [...state.profiles, profile] };
+};
+
+export const switchProfile = (state: ProfilesState, profileId: string): ProfilesState =>
+  state.profiles.some(p => p.id === profileId) ? { ...state, activeProfileId: profileId } : state;
+
+export const removeProfile = (state: ProfilesState, profileId: string, defaultName: string): ProfilesState => {
+  const profiles = state.profiles.filter(p => p.id !== profileId);
+  if (profiles.length === 0) return defaultState(defaultName);
+  return {
+    activeProfileId: state.activeProfileId === profileId ? profiles[0].id : state.activeProfileId,
+    profiles
+  };
+};
+
+const longestSolvedStreak = (history: RoundRecord[]): number => {
+  let best = 0;
+  let current = 0;
+  for (const round of history) {
+    current = round.outcome === RoundOutcome.SOLVED ? current + 1 : 0;
+    best = Math.max(best, current);
+  }
+  return best;
+};
+
+/** Folds a finished game into the active profile's statistics. */
+export const recordGame = (state: ProfilesState, game: FinishedGame): ProfilesState => {
+  const active = getActiveProfile(state);
+  const prev = active.stats[game.difficulty];
+  const solved = game.history.filter(r => r.outcome === RoundOutcome.SOLVED);
+  const attempts = game.history.flatMap(r => r.attempts);
+
+  const stats: DifficultyStats = {
+    bestScore: Math.max(prev.bestScore, game.score),
+    gamesPlayed: prev.gamesPlayed + 1,
+    roundsPlayed: prev.roundsPlayed + game.history.length,
+    roundsSolved: prev.roundsSolved + solved.length,
+    roundsSkipped: prev.roundsSkipped + game.history.filter(r => r.outcome === RoundOutcome.SKIPPED).length,
+    attempts: prev.attempts + attempts.length,
+    correctAttempts: prev.correctAttempts + attempts.filter(a => a.isCorrect).length,
+    totalSolveTimeMs: prev.totalSolveTimeMs + solved.reduce((sum, r) => sum + r.timeSpentMs, 0),
+    longestStreak: Math.max(prev.longestStreak, longestSolvedStreak(game.history))
+  };
+
+  return {
+    ...state,
+    profiles: state.profiles.map(p =>
+      p.id === active.id ? { ...p, stats: { ...p.stats, [game.difficulty]: stats } } : p
+    )
+  };
+};
+
+// --- Derived figures for display ---
+
+export const accuracy = (s: DifficultyStats) => (s.attempts > 0 ? s.correctAttempts / s.attempts : 0);
+export const skipRate = (s: DifficultyStats) => (s.roundsPlayed > 0 ? s.roundsSkipped / s.roundsPlayed : 0);
+export const averageSolveTimeMs = (s: DifficultyStats) => (s.roundsSolved > 0 ? s.totalSolveTimeMs / s.roundsSolved : 0);
@@ -0,0 +1,176 @@
+import { QuizClientMessage, QuizError, QuizRole, QuizServerMessage, QuizSettings, QuizSnapshot } from "../types";
+import { ConnectionStatus } from "./roomConnection";
+
+// The quiz server lives next to the API (server/quizNight.ts); Vite proxies it in development
+const QUIZ_SOCKET_PATH = "/api/quiz";
+// Survives a reload of the tab, not closing it; one per role, as a projector window opened
+// from the host's tab starts with a copy of its session storage
+const SESSION_KEY = "football-link-sprint.quiz.v1";
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000];
+
+interface QuizSession {
+  code: string;
+  token: string | null; // The projector has no seat to take back, only a quiz to watch
+}
+
+export interface QuizSeat {
+  role: QuizRole;
+  teamId: string | null;
+}
+
+export interface QuizHandlers {
+  onQuiz: (quiz: QuizSnapshot, seat: QuizSeat) => void;
+  onError: (error: QuizError) => void;
+  onStatus: (status: ConnectionStatus) => void;
+  onLeft: () => void; // The seat is gone: left on purpose, expired, or the quiz was closed
+}
+
+const sessionKey = (role: QuizRole) => `${SESSION_KEY}.${role.toLowerCase()}`;
+
+const loadSession = (role: QuizRole): QuizSession | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(sessionKey(role)) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (role: QuizRole, session: QuizSession | null) => {
+  if (session) sessionStorage.setItem(sessionKey(role), JSON.stringify(session));
+  else sessionStorage.removeItem(sessionKey(role));
+};
+
+/**
+ * Where teams open the quiz on their phones. Opened on the host's machine as localhost, the page
+ * is reachable from the local network at one of the server's own addresses instead.
+ */
+export const quizJoinUrl = (code: string, addresses: string[]): string => {
+  const local = ["localhost", "127.0.0.1", "[::1]"].includes(location.hostname);
+  const origin = local && addresses.length > 0
+    ? `${location.protocol}//${addresses[0]}${location.port ? `:${location.port}` : ""}`
+    : location.origin;
+  return `${origin}/?quiz=team&code=${code}`;
+};
+
+/**
+ * A host's, projector's or team's connection to the quiz server. Like the head-to-head
+ * connection it reconnects on its own and takes its seat back, so a phone that slept through
+ * a round (or a reloaded projector tab) picks the quiz up where it is.
+ */
+export const createQuizConnection = (role: QuizRole, handlers: QuizHandlers) => {
+  let socket: WebSocket | null = null;
+  let session = loadSession(role);
+  let seat: QuizSeat | null = null;
+  let closed = false;
+  let attempt = 0;
+  let outbox: QuizClientMessage[] = [];
+
+  const send = (message: QuizClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else outbox.push(message);
+  };
+
+  const forget = () => {
+    session = null;
+    seat = null;
+    saveSession(role, null);
+    handlers.onLeft();
+  };
+
+  const receive = (message: QuizServerMessage) => {
+    switch (message.type) {
+      case "joined":
+        seat = { role: message.role, teamId: message.teamId };
+        session = { code: message.code, token: message.token };
+        saveSession(role, session);
+        return;
+      case "quiz":
+        if (seat) handlers.onQuiz(message.quiz, seat);
+        return;
+      case "error":
+        if (message.error === QuizError.SESSION_EXPIRED || message.error === QuizError.QUIZ_CLOSED) forget();
+        // A projector whose quiz is gone has nothing left to show
+        else if (message.error === QuizError.QUIZ_NOT_FOUND && role === QuizRole.SCREEN) forget();
+        handlers.onError(message.error);
+        return;
+    }
+  };
+
+  const connect = () => {
+    const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${location.host}${QUIZ_SOCKET_PATH}`);
+    socket = ws;
+    handlers.onStatus(attempt === 0 ? "connecting" : "reconnecting");
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onStatus("open");
+      // Take the seat back first; anything queued while away follows
+      if (session) {
+        const rejoin: QuizClientMessage = session.token
+          ? { type: "resume", code: session.code, token: session.token }
+          : { type: "watch", code: session.code };
+        ws.send(JSON.stringify(rejoin));
+      }
+      const queued = outbox;
+      outbox = [];
+      queued.forEach(send);
+    };
+    ws.onmessage = event => {
+      try {
+        receive(JSON.parse(event.data));
+      } catch (e) {
+        console.error("Bad message from the quiz server:", e);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      // A buzz or an answer is only worth sending while the moment lasts
+      outbox = outbox.filter(message => message.type !== "buzz" && message.type !== "answer");
+      if (closed) return;
+      handlers.onStatus("reconnecting");
+      setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)]);
+    };
+  };
+
+  connect();
+
+  return {
+    /** The quiz this tab was in before a reload, if any. */
+    session: () => session,
+
+    host: (settings: QuizSettings) => send({ type: "host", settings }),
+    watch: (code: string) => send({ type: "watch", code }),
+    join: (code: string, name: string) => send({ type: "join", code, name }),
+
+    // The host's controls
+    settings: (settings: QuizSettings) => send({ type: "settings", settings }),
+    start: () => send({ type: "start" }),
+    accept: () => send({ type: "accept" }),
+    reject: () => send({ type: "reject" }),
+    reveal: () => send({ type: "reveal" }),
+    next: () => send({ type: "next" }),
+    award: (teamId: string, points: number) => send({ type: "award", teamId, points }),
+    end: () => send({ type: "end" }),
+
+    // A team's buzzer
+    buzz: () => send({ type: "buzz" }),
+    answer: (answer: string) => send({ type: "answer", answer }),
+
+    /** Gives up the seat; for the host, this closes the quiz for everyone. */
+    leave() {
+      send({ type: "leave" });
+      forget();
+    },
+
+    /** Stops reconnecting; the seat is held on the server, unless left first. */
+    close() {
+      closed = true;
+      socket?.close();
+      socket = null;
+    }
+  };
+};
+
+export type QuizConnection = ReturnType<typeof createQuizConnection>;
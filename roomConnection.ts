@@ -0,0 +1,158 @@
+import { RoomClientMessage, RoomError, RoomServerMessage, RoomSettings, RoomSnapshot, ValidationResult } from "../types";
+
+// The room server lives next to the API (server/sockets.ts); Vite proxies it in development
+const ROOM_SOCKET_PATH = "/api/rooms";
+// Survives a reload of the tab, not closing it
+const SESSION_KEY = "football-link-sprint.room.v1";
+const RECONNECT_DELAYS_MS = [500, 1000, 2000, 4000];
+
+export type ConnectionStatus = "connecting" | "open" | "reconnecting";
+
+interface RoomSession {
+  code: string;
+  token: string;
+}
+
+export interface RoomHandlers {
+  onRoom: (room: RoomSnapshot, playerId: string) => void;
+  onError: (error: RoomError) => void;
+  onStatus: (status: ConnectionStatus) => void;
+  onLeft: () => void; // The seat is gone: left on purpose, or expired while away
+}
+
+const loadSession = (): RoomSession | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SESSION_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (session: RoomSession | null) => {
+  if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else sessionStorage.removeItem(SESSION_KEY);
+};
+
+/**
+ * A player's connection to the head-to-head room server. Reconnects on its own and takes the
+ * seat back with the token the server handed out, so a dropped connection (or a reloaded tab)
+ * carries on where it was; answers still waiting for a verdict when it drops count as wrong.
+ */
+export const createRoomConnection = (handlers: RoomHandlers) => {
+  let socket: WebSocket | null = null;
+  let session = loadSession();
+  let playerId = "";
+  let closed = false;
+  let attempt = 0;
+  let nextAnswerId = 1;
+  let outbox: RoomClientMessage[] = [];
+  const pending = new Map<number, { resolve: (result: ValidationResult) => void; reject: (error: Error) => void }>();
+
+  const send = (message: RoomClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else outbox.push(message);
+  };
+
+  // An answer that didn't get its verdict is dropped, never sent late
+  const settlePending = () => {
+    pending.forEach(({ resolve }) => resolve({ isValid: false, reason: "" }));
+    pending.clear();
+    outbox = outbox.filter(message => message.type !== "answer");
+  };
+
+  const receive = (message: RoomServerMessage) => {
+    switch (message.type) {
+      case "joined":
+        playerId = message.playerId;
+        session = { code: message.code, token: message.token };
+        saveSession(session);
+        return;
+      case "room":
+        handlers.onRoom(message.room, playerId);
+        return;
+      case "verdict":
+        pending.get(message.id)?.resolve(message.result);
+        pending.delete(message.id);
+        return;
+      case "checkFailed":
+        // No message of its own: the game screen says the service is busy, and the answer can be sent again
+        pending.get(message.id)?.reject(new Error());
+        pending.delete(message.id);
+        return;
+      case "error":
+        if (message.error === RoomError.SESSION_EXPIRED) {
+          session = null;
+          saveSession(null);
+          handlers.onLeft();
+        }
+        handlers.onError(message.error);
+        return;
+    }
+  };
+
+  const connect = () => {
+    const protocol = location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${location.host}${ROOM_SOCKET_PATH}`);
+    socket = ws;
+    handlers.onStatus(attempt === 0 ? "connecting" : "reconnecting");
+
+    ws.onopen = () => {
+      attempt = 0;
+      handlers.onStatus("open");
+      // Take the seat back first; anything queued while away follows
+      if (session) ws.send(JSON.stringify({ type: "resume", code: session.code, token: session.token }));
+      const queued = outbox;
+      outbox = [];
+      queued.forEach(send);
+    };
+    ws.onmessage = event => {
+      try {
+        receive(JSON.parse(event.data));
+      } catch (e) {
+        console.error("Bad message from the room server:", e);
+      }
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      settlePending();
+      if (closed) return;
+      handlers.onStatus("reconnecting");
+      setTimeout(connect, RECONNECT_DELAYS_MS[Math.min(attempt++, RECONNECT_DELAYS_MS.length - 1)]);
+    };
+  };
+
+  connect();
+
+  return {
+    create: (name: string, settings: RoomSettings) => send({ type: "create", name, settings }),
+    join: (code: string, name: string) => send({ type: "join", code, name }),
+    start: () => send({ type: "start" }),
+
+    /** Sends an answer for the round on screen and waits for the server's verdict on it; rejects when there is none. */
+    answer(answer: string): Promise<ValidationResult> {
+      const id = nextAnswerId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        send({ type: "answer", id, answer });
+      });
+    },
+
+    leave() {
+      send({ type: "leave" });
+      session = null;
+      saveSession(null);
+      handlers.onLeft();
+    },
+
+    /** Stops reconnecting; the seat is held on the server until it expires, unless left first. */
+    close() {
+      closed = true;
+      settlePending();
+      socket?.close();
+      socket = null;
+    }
+  };
+};
+
+export type RoomConnection = ReturnType<typeof createRoomConnection>;
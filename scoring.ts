@@ -0,0 +1,108 @@
+import { Difficulty, RoundRecord, RoundOutcome, RoundScore } from "../types";
+
+export interface ScoringRules {
+  basePoints: number; // What a solved round is worth before bonuses and penalties
+  timeBonus: number;  // Seconds added to the clock for a solved round
+}
+
+export const SCORING_RULES: Record<Difficulty, ScoringRules> = {
+  [Difficulty.EASY]: { basePoints: 100, timeBonus: 12 },
+  [Difficulty.MEDIUM]: { basePoints: 150, timeBonus: 10 },
+  [Difficulty.HARD]: { basePoints: 200, timeBonus: 8 }
+};
+
+// The daily run ramps from easy to hard; everyone scores it on the same middle scale
+export const DAILY_SCORING_RULES = SCORING_RULES[Difficulty.MEDIUM];
+
+// Solving within FAST_SOLVE_MS earns the full speed bonus, which shrinks to nothing at SLOW_SOLVE_MS
+const FAST_SOLVE_MS = 5000;
+const SLOW_SOLVE_MS = 30000;
+const MAX_SPEED_BONUS = 0.5;
+
+// Fractions of the base points
+export const HINT_PENALTY = 0.25;
+const WRONG_ATTEMPT_PENALTY = 0.1;
+const MAX_PENALIZED_ATTEMPTS = 3;
+
+// Each earlier round of an unbroken streak adds this much, up to the cap
+const STREAK_STEP = 0.1;
+const MAX_STREAK_BONUS = 0.5;
+
+export interface SolvedRound {
+  timeSpentMs: number;
+  hintsUsed: number;
+  wrongAttempts: number;
+  streak: number; // Consecutive solved rounds, this one included
+}
+
+export const scoreRound = (rules: ScoringRules, round: SolvedRound): RoundScore => {
+  const { basePoints } = rules;
+  const speed = Math.min(1, Math.max(0, (SLOW_SOLVE_MS - round.timeSpentMs) / (SLOW_SOLVE_MS - FAST_SOLVE_MS)));
+  const speedBonus = Math.round(basePoints * MAX_SPEED_BONUS * speed);
+  const hintPenalty = Math.round(basePoints * HINT_PENALTY * round.hintsUsed);
+  const attemptPenalty = Math.round(basePoints * WRONG_ATTEMPT_PENALTY * Math.min(round.wrongAttempts, MAX_PENALIZED_ATTEMPTS));
+
+  const subtotal = Math.max(0, basePoints + speedBonus - hintPenalty - attemptPenalty);
+  const streakBonus = Math.round(subtotal * Math.min(MAX_STREAK_BONUS, STREAK_STEP * (round.streak - 1)));
+
+  return {
+    basePoints,
+    speedBonus,
+    hintPenalty,
+    attemptPenalty,
+    streakBonus,
+    streak: round.streak,
+    total: subtotal + streakBonus,
+    timeBonus: rules.timeBonus
+  };
+};
+
+export interface ReverseRound {
+  timeSpentMs: number;
+  linkCount: number;
+  missed: number; // Linked cards left unpicked
+  wrongPicks: number; // Picked cards the player isn't linked to
+  streak: number; // As for a solved round, if the grid is perfect
+}
+
+/**
+ * A reverse puzzle is answered once. A perfect grid scores like a solved round; otherwise each
+ * missed or wrong card costs its share of the base points, and there are no bonuses.
+ */
+export const scoreReverseRound = (rules: ScoringRules, round: ReverseRound): RoundScore => {
+  if (round.missed === 0 && round.wrongPicks === 0) {
+    return scoreRound(rules, { timeSpentMs: round.timeSpentMs, hintsUsed: 0, wrongAttempts: 0, streak: round.streak });
+  }
+  const { basePoints } = rules;
+  const attemptPenalty = Math.min(basePoints, Math.round(basePoints * (round.missed + round.wrongPicks) / round.linkCount));
+  return {
+    basePoints,
+    speedBonus: 0,
+    hintPenalty: 0,
+    attemptPenalty,
+    streakBonus: 0,
+    streak: 0,
+    total: basePoints - attemptPenalty,
+    timeBonus: 0
+  };
+};
+
+/** How many rounds in a row were solved at the end of the history. */
+export const currentStreak = (history: RoundRecord[]): number => {
+  let streak = 0;
+  for (let i = history.length - 1; i >= 0 && history[i].outcome === RoundOutcome.SOLVED; i--) streak++;
+  return streak;
+};
+
+/** Adds up the scored rounds of a game, for the breakdown on the results screen. */
+export const sumRoundScores = (scores: RoundScore[]): RoundScore =>
+  scores.reduce<RoundScore>((sum, s) => ({
+    basePoints: sum.basePoints + s.basePoints,
+    speedBonus: sum.speedBonus + s.speedBonus,
+    hintPenalty: sum.hintPenalty + s.hintPenalty,
+    attemptPenalty: sum.attemptPenalty + s.attemptPenalty,
+    streakBonus: sum.streakBonus + s.streakBonus,
+    streak: Math.max(sum.streak, s.streak),
+    total: sum.total + s.total,
+    timeBonus: sum.timeBonus + s.timeBonus
+  }), { basePoints: 0, speedBonus: 0, hintPenalty: 0, attemptPenalty: 0, streakBonus: 0, streak: 0, total: 0, timeBonus: 0 });
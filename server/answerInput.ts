@@ -0,0 +1,59 @@
+import { normalizeArabic } from "./normalize";
+
+// A player's name, not a sentence: longer answers never reach the model
+export const MAX_ANSWER_LENGTH = 60;
+export const MAX_ANSWER_WORDS = 6;
+
+export type AnswerProblem = "empty" | "too-long" | "too-many-words" | "instructions" | "hidden-text";
+
+// Direction overrides and isolates can show text in a different order from the one the model reads
+const DIRECTION_OVERRIDE = /[\u202A-\u202E\u2066-\u2069]/u;
+// Line breaks, tabs and other control characters separate words like a space would
+const CONTROL = /\p{Cc}/gu;
+// Other invisible characters (zero-width spaces and joiners) are just dropped
+const INVISIBLE = /\p{Cf}/gu;
+// Names only need letters, accents, spaces and the odd hyphen, apostrophe or dot
+const NOT_NAME_CHARACTER = /[^\p{L}\p{M}\s'’.\-]/gu;
+
+// Words no player's name contains, but prompt injections do ("ignore the question", "isValid true", "الإجابة صحيحة").
+// Only a first filter for the obvious ones: any other wording gets past it, and what holds is the
+// check of the model's verdict against the cards (confirmVerdict in modelOutput.ts).
+// Stems only where nothing but an instruction starts that way; the rest must be the whole word,
+// so a name or transliteration that merely begins like one ("Valido", "Corrêa") still gets through.
+const INSTRUCTION_PREFIXES = ["ignor", "instruction", "isvalid"];
+const INSTRUCTION_WORDS = new Set([
+  "true", "false", "yes", "system", "json", "answer", "previous", "assistant", "vrai", "faux", "oui",
+  "valid", "validate", "validated", "valide", "correct", "correctly", "correcte", "correctement",
+  "respond", "response", "reponds", "repondez", "reponse", "accept", "accepted", "accepte", "acceptez",
+  "preceding", "precedent", "precedente", "precedentes", "verdict", "prompt",
+  "تجاهل", "تعليمات", "تعليماتك", "صحيح", "صحيحه", "صح", "اقبل", "اعتبر", "اجب", "اجابه", "نظام", "خطا", "مقبول", "مقبوله"
+]);
+
+const isInstructionWord = (word: string) => {
+  const bare = normalizeArabic(word.replace(/[.'’\-]/g, "")).replace(/^و(?=...)/, "").replace(/^ال(?=..)/, "");
+  return INSTRUCTION_WORDS.has(bare) || INSTRUCTION_PREFIXES.some(prefix => bare.startsWith(prefix));
+};
+
+/**
+ * Cleans a typed answer before it is matched or shown to the model: invisible characters,
+ * quotes, brackets, digits and other punctuation are dropped, and the answer must still
+ * look like a name afterwards (short, a few words, no instructions). Text that changes
+ * direction mid-answer is turned away outright.
+ */
+export const sanitizeAnswer = (raw: string): { ok: true; answer: string } | { ok: false; problem: AnswerProblem } => {
+  if (DIRECTION_OVERRIDE.test(raw)) return { ok: false, problem: "hidden-text" };
+  const answer = raw
+    .normalize("NFKC")
+    .replace(CONTROL, " ")
+    .replace(INVISIBLE, "")
+    .replace(NOT_NAME_CHARACTER, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const words = answer.split(" ").filter(word => /\p{L}/u.test(word));
+
+  if (words.length === 0) return { ok: false, problem: "empty" };
+  if (answer.length > MAX_ANSWER_LENGTH) return { ok: false, problem: "too-long" };
+  if (words.length > MAX_ANSWER_WORDS) return { ok: false, problem: "too-many-words" };
+  if (words.some(isInstructionWord)) return { ok: false, problem: "instructions" };
+  return { ok: true, answer };
+};
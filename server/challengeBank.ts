@@ -0,0 +1,331 @@
+import { Challenge, Difficulty, EntityType } from "../types";
+
+export interface BankChallenge extends Challenge {
+  difficulty: Difficulty;
+}
+
+// Curated, hand-checked puzzles bundled with the app.
+// Used when playing offline or when the AI provider is unavailable (e.g. quota exhausted).
+// Images are left out on purpose: the Card component already renders a per-type fallback.
+export const CHALLENGE_BANK: BankChallenge[] = [
+  // --- EASY ---
+  {
+    id: "bank-easy-01",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "ريال مدريد", type: EntityType.TEAM, color: "#FEBE10" },
+    cardB: { name: "مانشستر يونايتد", type: EntityType.TEAM, color: "#DA291C" },
+    possibleAnswers: ["كريستيانو رونالدو", "ديفيد بيكهام", "رود فان نيستلروي", "رافائيل فاران", "كاسيميرو", "أنخيل دي ماريا"]
+  },
+  {
+    id: "bank-easy-02",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    cardB: { name: "باريس سان جيرمان", type: EntityType.TEAM, color: "#004170" },
+    possibleAnswers: ["ليونيل ميسي", "نيمار", "رونالدينيو"]
+  },
+  {
+    id: "bank-easy-03",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "بيب غوارديولا", type: EntityType.COACH, color: "#6CABDD" },
+    cardB: { name: "مانشستر سيتي", type: EntityType.TEAM, color: "#6CABDD" },
+    possibleAnswers: ["كيفين دي بروين", "إيرلينغ هالاند", "رودري", "برناردو سيلفا", "رحيم سترلينج"]
+  },
+  {
+    id: "bank-easy-04",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "مصر", type: EntityType.NATIONAL_TEAM, color: "#CE1126" },
+    cardB: { name: "ليفربول", type: EntityType.TEAM, color: "#C8102E" },
+    possibleAnswers: ["محمد صلاح"]
+  },
+  {
+    id: "bank-easy-05",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "ليونيل ميسي", type: EntityType.PLAYER, color: "#75AADB" },
+    cardB: { name: "نيمار", type: EntityType.PLAYER, color: "#FFDF00" },
+    possibleAnswers: ["لويس سواريز", "أندريس إنييستا", "سيرجيو بوسكيتس", "جوردي ألبا", "جيرارد بيكيه", "داني ألفيش"]
+  },
+  {
+    id: "bank-easy-06",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "فرنسا", type: EntityType.NATIONAL_TEAM, color: "#002395" },
+    cardB: { name: "ريال مدريد", type: EntityType.TEAM, color: "#FEBE10" },
+    possibleAnswers: ["زين الدين زيدان", "كريم بنزيما", "رافائيل فاران", "كيليان مبابي", "أوريلين تشواميني", "إدواردو كامافينغا", "كلود ماكيليلي"]
+  },
+  {
+    id: "bank-easy-07",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "دوري أبطال أوروبا", type: EntityType.TROPHY, color: "#0E1E5B" },
+    cardB: { name: "ليفربول", type: EntityType.TEAM, color: "#C8102E" },
+    possibleAnswers: ["محمد صلاح", "ساديو ماني", "فيرجيل فان دايك", "ستيفن جيرارد", "جوردان هندرسون", "أليسون بيكر"]
+  },
+  {
+    id: "bank-easy-08",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "الكرة الذهبية", type: EntityType.TROPHY, color: "#D4AF37" },
+    cardB: { name: "ميلان", type: EntityType.TEAM, color: "#FB090B" },
+    possibleAnswers: ["كاكا", "أندريه شيفتشينكو", "جورج ويا", "رود خوليت", "ماركو فان باستن"]
+  },
+  {
+    id: "bank-easy-09",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "كأس العالم 2014", type: EntityType.TROPHY, color: "#D4AF37" },
+    cardB: { name: "بايرن ميونخ", type: EntityType.TEAM, color: "#DC052D" },
+    possibleAnswers: ["توماس مولر", "مانويل نوير", "فيليب لام", "باستيان شفاينشتايغر", "جيروم بواتينغ", "ماريو غوتزه", "ميروسلاف كلوزه"]
+  },
+  {
+    id: "bank-easy-10",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "2009", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    possibleAnswers: ["ليونيل ميسي", "أندريس إنييستا", "تشافي", "سيرجيو بوسكيتس", "جيرارد بيكيه", "كارليس بويول", "داني ألفيش", "تييري هنري", "يايا توريه", "صامويل إيتو"]
+  },
+  {
+    id: "bank-easy-11",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "2019", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "ليفربول", type: EntityType.TEAM, color: "#C8102E" },
+    possibleAnswers: ["محمد صلاح", "ساديو ماني", "فيرجيل فان دايك", "جوردان هندرسون", "أليسون بيكر", "ترينت ألكسندر أرنولد"]
+  },
+  {
+    id: "bank-easy-12",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "أليكس فيرغسون", type: EntityType.COACH, color: "#DA291C" },
+    cardB: { name: "مانشستر يونايتد", type: EntityType.TEAM, color: "#DA291C" },
+    possibleAnswers: ["كريستيانو رونالدو", "ديفيد بيكهام", "رود فان نيستلروي", "بارك جي سونغ", "رايان غيغز", "بول سكولز", "واين روني"]
+  },
+  {
+    id: "bank-easy-13",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "أرسين فينغر", type: EntityType.COACH, color: "#EF0107" },
+    cardB: { name: "أرسنال", type: EntityType.TEAM, color: "#EF0107" },
+    possibleAnswers: ["تييري هنري", "سيسك فابريغاس", "روبير بيريس", "مارك أوفرمارس", "إيمانويل بوتي", "سانتي كازورلا", "نوانكو كانو", "بيير إيميريك أوباميانغ"]
+  },
+  {
+    id: "bank-easy-14",
+    difficulty: Difficulty.EASY,
+    cardA: { name: "كأس العالم 2010", type: EntityType.TROPHY, color: "#D4AF37" },
+    cardB: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    possibleAnswers: ["أندريس إنييستا", "تشافي", "سيرجيو بوسكيتس", "جيرارد بيكيه", "كارليس بويول", "سيسك فابريغاس"]
+  },
+
+  // --- MEDIUM ---
+  {
+    id: "bank-medium-01",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "جوزيه مورينيو", type: EntityType.COACH, color: "#1E3A8A" },
+    cardB: { name: "إنتر ميلان", type: EntityType.TEAM, color: "#010E80" },
+    possibleAnswers: ["صامويل إيتو", "ويسلي شنايدر", "دييغو ميليتو", "خافيير زانيتي", "لوسيو", "جوليو سيزار", "ماركو ماتيراتزي"]
+  },
+  {
+    id: "bank-medium-02",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "تشيلسي", type: EntityType.TEAM, color: "#034694" },
+    cardB: { name: "ريال مدريد", type: EntityType.TEAM, color: "#FEBE10" },
+    possibleAnswers: ["إدين هازارد", "تيبو كورتوا", "أنطونيو روديغر", "ماتيو كوفاسيتش", "كلود ماكيليلي", "أريين روبن"]
+  },
+  {
+    id: "bank-medium-03",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "أرسنال", type: EntityType.TEAM, color: "#EF0107" },
+    cardB: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    possibleAnswers: ["تييري هنري", "سيسك فابريغاس", "ألكسندر هليب", "جيوفاني فان برونكهورست", "مارك أوفرمارس", "بيير إيميريك أوباميانغ", "إيمانويل بوتي", "أليكس سونغ"]
+  },
+  {
+    id: "bank-medium-04",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "الأرجنتين", type: EntityType.NATIONAL_TEAM, color: "#75AADB" },
+    cardB: { name: "دييغو سيميوني", type: EntityType.COACH, color: "#CB3524" },
+    possibleAnswers: ["أنخيل كوريا", "رودريغو دي بول", "ناهويل مولينا", "خوليان ألفاريز"]
+  },
+  {
+    id: "bank-medium-05",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "كأس العالم", type: EntityType.TROPHY, color: "#D4AF37" },
+    cardB: { name: "بايرن ميونخ", type: EntityType.TEAM, color: "#DC052D" },
+    possibleAnswers: ["توماس مولر", "مانويل نوير", "فيليب لام", "باستيان شفاينشتايغر", "جيروم بواتينغ", "ماريو غوتزه", "ميروسلاف كلوزه", "بنجامين بافار", "لوكاس هيرنانديز"]
+  },
+  {
+    id: "bank-medium-06",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "زلاتان إبراهيموفيتش", type: EntityType.PLAYER, color: "#FECC00" },
+    cardB: { name: "ليونيل ميسي", type: EntityType.PLAYER, color: "#75AADB" },
+    possibleAnswers: ["تشافي", "أندريس إنييستا", "كارليس بويول", "داني ألفيش", "سيرجيو بوسكيتس", "جيرارد بيكيه", "تييري هنري", "يايا توريه"]
+  },
+  {
+    id: "bank-medium-07",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "كارلو أنشيلوتي", type: EntityType.COACH, color: "#FB090B" },
+    cardB: { name: "ميلان", type: EntityType.TEAM, color: "#FB090B" },
+    possibleAnswers: ["كاكا", "باولو مالديني", "أندريا بيرلو", "أندريه شيفتشينكو", "كلارنس سيدورف", "جينارو غاتوزو", "أليساندرو نيستا", "فيليبو إنزاغي"]
+  },
+  {
+    id: "bank-medium-08",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "المغرب", type: EntityType.NATIONAL_TEAM, color: "#C1272D" },
+    cardB: { name: "باريس سان جيرمان", type: EntityType.TEAM, color: "#004170" },
+    possibleAnswers: ["أشرف حكيمي"]
+  },
+  {
+    id: "bank-medium-09",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "كوريا الجنوبية", type: EntityType.NATIONAL_TEAM, color: "#CD2E3A" },
+    cardB: { name: "مانشستر يونايتد", type: EntityType.TEAM, color: "#DA291C" },
+    possibleAnswers: ["بارك جي سونغ"]
+  },
+  {
+    id: "bank-medium-10",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "ليفربول", type: EntityType.TEAM, color: "#C8102E" },
+    cardB: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    possibleAnswers: ["لويس سواريز", "فيليبي كوتينيو", "خافيير ماسكيرانو"]
+  },
+  {
+    id: "bank-medium-11",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "2014", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "دوري أبطال أوروبا", type: EntityType.TROPHY, color: "#0E1E5B" },
+    possibleAnswers: ["كريستيانو رونالدو", "سيرجيو راموس", "لوكا مودريتش", "كريم بنزيما", "أنخيل دي ماريا", "رافائيل فاران", "غاريث بيل"]
+  },
+  {
+    id: "bank-medium-12",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "2010", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "إنتر ميلان", type: EntityType.TEAM, color: "#010E80" },
+    possibleAnswers: ["ويسلي شنايدر", "صامويل إيتو", "دييغو ميليتو", "خافيير زانيتي", "لوسيو", "جوليو سيزار", "ماركو ماتيراتزي", "والتر صامويل"]
+  },
+  {
+    id: "bank-medium-13",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "2012", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "كأس أمم أوروبا", type: EntityType.TROPHY, color: "#143CDA" },
+    possibleAnswers: ["أندريس إنييستا", "تشافي", "سيرجيو بوسكيتس", "جوردي ألبا", "جيرارد بيكيه", "سيسك فابريغاس", "سانتي كازورلا", "خيسوس نافاس"]
+  },
+  {
+    id: "bank-medium-14",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "2021", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "كوبا أمريكا", type: EntityType.TROPHY, color: "#002F6C" },
+    possibleAnswers: ["ليونيل ميسي", "أنخيل دي ماريا", "أنخيل كوريا", "رودريغو دي بول", "خوليان ألفاريز"]
+  },
+  {
+    id: "bank-medium-15",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "تشافي", type: EntityType.COACH, color: "#A50044" },
+    cardB: { name: "برشلونة", type: EntityType.TEAM, color: "#A50044" },
+    possibleAnswers: ["سيرجيو بوسكيتس", "جوردي ألبا", "جيرارد بيكيه", "داني ألفيش", "بيير إيميريك أوباميانغ"]
+  },
+  {
+    id: "bank-medium-16",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "كأس العالم 2022", type: EntityType.TROPHY, color: "#D4AF37" },
+    cardB: { name: "أتلتيكو مدريد", type: EntityType.TEAM, color: "#CB3524" },
+    possibleAnswers: ["أنخيل كوريا", "رودريغو دي بول", "ناهويل مولينا", "خوليان ألفاريز"]
+  },
+  {
+    id: "bank-medium-17",
+    difficulty: Difficulty.MEDIUM,
+    cardA: { name: "2013", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "بايرن ميونخ", type: EntityType.TEAM, color: "#DC052D" },
+    possibleAnswers: ["أريين روبن", "توماس مولر", "مانويل نوير", "فيليب لام", "باستيان شفاينشتايغر", "جيروم بواتينغ", "ماريو غوتزه"]
+  },
+
+  // --- HARD ---
+  {
+    id: "bank-hard-01",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "فياريال", type: EntityType.TEAM, color: "#FFE667" },
+    cardB: { name: "أرسنال", type: EntityType.TEAM, color: "#EF0107" },
+    possibleAnswers: ["سانتي كازورلا", "روبير بيريس", "غابرييل باوليستا"]
+  },
+  {
+    id: "bank-hard-02",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "يورغن كلوب", type: EntityType.COACH, color: "#FDE100" },
+    cardB: { name: "ريال مدريد", type: EntityType.TEAM, color: "#FEBE10" },
+    possibleAnswers: ["نوري شاهين", "ترينت ألكسندر أرنولد"]
+  },
+  {
+    id: "bank-hard-03",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "الجزائر", type: EntityType.NATIONAL_TEAM, color: "#006233" },
+    cardB: { name: "ليستر سيتي", type: EntityType.TEAM, color: "#003090" },
+    possibleAnswers: ["رياض محرز", "إسلام سليماني"]
+  },
+  {
+    id: "bank-hard-04",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "الدوري الأوروبي", type: EntityType.TROPHY, color: "#F68E1E" },
+    cardB: { name: "إشبيلية", type: EntityType.TEAM, color: "#D7141A" },
+    possibleAnswers: ["إيفر بانيغا", "خيسوس نافاس", "فريدريك كانوتيه", "إيفان راكيتيتش", "كارلوس باكا"]
+  },
+  {
+    id: "bank-hard-05",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "أياكس", type: EntityType.TEAM, color: "#D2122E" },
+    cardB: { name: "إنتر ميلان", type: EntityType.TEAM, color: "#010E80" },
+    possibleAnswers: ["ويسلي شنايدر", "زلاتان إبراهيموفيتش", "كريستيان إريكسن", "أندريه أونانا", "نوانكو كانو"]
+  },
+  {
+    id: "bank-hard-06",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "رافائيل بينيتيز", type: EntityType.COACH, color: "#EE3524" },
+    cardB: { name: "فالنسيا", type: EntityType.TEAM, color: "#EE3524" },
+    possibleAnswers: ["روبرتو أيالا", "دافيد ألبيلدا", "روبين باراخا", "بابلو أيمار", "سانتياغو كانيزاريس", "فيسنتي رودريغيز", "ميستا"]
+  },
+  {
+    id: "bank-hard-07",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "فرانشيسكو توتي", type: EntityType.PLAYER, color: "#8E1F2F" },
+    cardB: { name: "غابرييل باتيستوتا", type: EntityType.PLAYER, color: "#8E1F2F" },
+    possibleAnswers: ["فينتشنزو مونتيلا", "كافو", "والتر صامويل", "إيمرسون", "داميانو توماسي"]
+  },
+  {
+    id: "bank-hard-08",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "اليابان", type: EntityType.NATIONAL_TEAM, color: "#BC002D" },
+    cardB: { name: "ميلان", type: EntityType.TEAM, color: "#FB090B" },
+    possibleAnswers: ["كيسوكي هوندا"]
+  },
+  {
+    id: "bank-hard-09",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "1999", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "مانشستر يونايتد", type: EntityType.TEAM, color: "#DA291C" },
+    possibleAnswers: ["ديفيد بيكهام", "رايان غيغز", "بول سكولز", "روي كين", "أولي غونار سولشاير", "تيدي شيرينغهام"]
+  },
+  {
+    id: "bank-hard-10",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "2006", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "كأس العالم", type: EntityType.TROPHY, color: "#D4AF37" },
+    possibleAnswers: ["ماركو ماتيراتزي", "أندريا بيرلو", "جينارو غاتوزو", "أليساندرو نيستا", "فيليبو إنزاغي", "فرانشيسكو توتي"]
+  },
+  {
+    id: "bank-hard-11",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "2004", type: EntityType.YEAR, color: "#64748B" },
+    cardB: { name: "فالنسيا", type: EntityType.TEAM, color: "#EE3524" },
+    possibleAnswers: ["روبرتو أيالا", "دافيد ألبيلدا", "روبين باراخا", "بابلو أيمار", "سانتياغو كانيزاريس", "فيسنتي رودريغيز", "ميستا"]
+  },
+  {
+    id: "bank-hard-12",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "زين الدين زيدان", type: EntityType.COACH, color: "#FEBE10" },
+    cardB: { name: "فرنسا", type: EntityType.NATIONAL_TEAM, color: "#002395" },
+    possibleAnswers: ["كريم بنزيما", "رافائيل فاران"]
+  },
+  {
+    id: "bank-hard-13",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "كأس أمم أفريقيا", type: EntityType.TROPHY, color: "#009A44" },
+    cardB: { name: "مانشستر سيتي", type: EntityType.TEAM, color: "#6CABDD" },
+    possibleAnswers: ["يايا توريه", "رياض محرز"]
+  },
+  {
+    id: "bank-hard-14",
+    difficulty: Difficulty.HARD,
+    cardA: { name: "دوري أبطال أوروبا 2009", type: EntityType.TROPHY, color: "#0E1E5B" },
+    cardB: { name: "إسبانيا", type: EntityType.NATIONAL_TEAM, color: "#AA151B" },
+    possibleAnswers: ["أندريس إنييستا", "تشافي", "سيرجيو بوسكيتس", "جيرارد بيكيه", "كارليس بويول"]
+  }
+];
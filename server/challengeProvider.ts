@@ -0,0 +1,97 @@
+import { Challenge, ChallengeSource, Difficulty, EntityType, GameEntity, Locale, hasCardOfType } from "../types";
+import { CHALLENGE_BANK } from "./challengeBank";
+import { buildChainChallenge, localizeChallenge } from "./knowledgeGraph";
+import { ChallengeModel } from "./model";
+
+/**
+ * A source of puzzles. The API only talks to this interface, so the AI model
+ * and the bundled offline bank are interchangeable. A fixed card A (chain mode)
+ * asks for a puzzle built around that player; card types (a quiz night's themes)
+ * for one with at least one card of those kinds.
+ */
+export interface ChallengeProvider {
+  name: string;
+  generateChallenge: (
+    difficulty: Difficulty,
+    excludeEntities: string[],
+    locale: Locale,
+    fixedCardA?: GameEntity,
+    cardTypes?: EntityType[]
+  ) => Promise<Challenge>;
+}
+
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export const modelProvider = (model: ChallengeModel): ChallengeProvider => ({
+  name: model.name,
+  generateChallenge: model.generateChallenge
+});
+
+export const localBankProvider: ChallengeProvider = {
+  name: "local-bank",
+  generateChallenge: async (difficulty, excludeEntities, locale, fixedCardA, cardTypes) => {
+    // The bank's puzzles are fixed pairs; chain rounds are built from the knowledge graph instead
+    if (fixedCardA) {
+      const chained = buildChainChallenge(fixedCardA, difficulty, excludeEntities, locale);
+      if (!chained) throw new Error(`No chain puzzle can be built around ${fixedCardA.name}`);
+      return chained;
+    }
+
+    const excluded = new Set(excludeEntities);
+    const isFresh = (c: Challenge) => !excluded.has(c.cardA.name) && !excluded.has(c.cardB.name);
+
+    // Prefer an unseen puzzle of the requested difficulty, then any unseen puzzle,
+    // and only repeat entities once the whole bank has been played through.
+    // The theme wins over the difficulty: a themed quiz never falls back to other themes.
+    const bank = CHALLENGE_BANK.filter(c => hasCardOfType(c, cardTypes)).map(c => ({ ...localizeChallenge(c, locale), difficulty: c.difficulty }));
+    const sameLevel = bank.filter(c => c.difficulty === difficulty);
+    const candidates = [
+      sameLevel.filter(isFresh),
+      bank.filter(isFresh),
+      sameLevel,
+      bank
+    ].find(list => list.length > 0);
+
+    if (!candidates) {
+      throw new Error(`Local challenge bank has no puzzles with a ${cardTypes.join(" or ")} card`);
+    }
+
+    const { difficulty: _level, ...challenge } = pickRandom(candidates);
+    // Every serve gets its own id: the store tracks answers and reveals per served challenge
+    return {
+      ...challenge,
+      id: crypto.randomUUID(),
+      cardA: { ...challenge.cardA },
+      cardB: { ...challenge.cardB },
+      possibleAnswers: [...(challenge.possibleAnswers || [])]
+    };
+  }
+};
+
+/**
+ * Tries the primary provider and silently switches to the fallback if it fails
+ * (quota exhausted, network down, malformed response...).
+ */
+export const withFallback = (primary: ChallengeProvider, fallback: ChallengeProvider): ChallengeProvider => ({
+  name: `${primary.name}+${fallback.name}`,
+  generateChallenge: async (difficulty, excludeEntities, locale, fixedCardA, cardTypes) => {
+    try {
+      return await primary.generateChallenge(difficulty, excludeEntities, locale, fixedCardA, cardTypes);
+    } catch (error) {
+      console.warn(`Provider ${primary.name} failed. Falling back to ${fallback.name}...`, error);
+      return fallback.generateChallenge(difficulty, excludeEntities, locale, fixedCardA, cardTypes);
+    }
+  }
+});
+
+export const getChallengeProvider = (source: ChallengeSource, model: ChallengeModel): ChallengeProvider => {
+  switch (source) {
+    case ChallengeSource.AI:
+      return modelProvider(model);
+    case ChallengeSource.OFFLINE:
+      return localBankProvider;
+    case ChallengeSource.AUTO:
+    default:
+      return withFallback(modelProvider(model), localBankProvider);
+  }
+};
@@ -0,0 +1,198 @@
+import { Challenge, Difficulty, HintType, ReverseChallenge, ValidationResult } from "../types";
+
+// Challenges are only answerable for a while after being served; a game never lasts this long.
+const CHALLENGE_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_STORED_CHALLENGES = 5000;
+// Far more than a round has room for; pauses cost the server nothing to report
+const MAX_PAUSES_PER_CHALLENGE = 100;
+// A daily date stays playable for up to two days (today and yesterday), and so does what is known of it
+const DAILY_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+// Connect puzzles and reverse puzzles share the store (and its reveal lock)
+type ServedChallenge = Challenge | ReverseChallenge;
+
+// Which endpoint served a challenge, and at what difficulty (the daily run has its own)
+export interface ServedAs {
+  kind: "challenge" | "daily" | "reverse";
+  difficulty?: Difficulty;
+  date?: string; // The daily run's date
+  client?: string; // The address it was served to
+  gameId?: string; // The game the browser fetched it for, when it said
+  player?: string; // The profile a daily run was started under, as the browser named it
+}
+
+// A verdict as the server gave it; for reverse puzzles the answer is the sorted picks
+export interface RecordedVerdict {
+  answer: string;
+  result: ValidationResult;
+  at: number;
+}
+
+// An answer (or a reverse grid's picks) as it reached the server, before any verdict on it
+export interface RecordedSubmission {
+  answer: string;
+  at: number;
+}
+
+// The player pausing or resuming the game while the challenge was on screen
+export interface RecordedPause {
+  paused: boolean;
+  at: number;
+}
+
+// Everything the server saw happen to a challenge, for checking a submitted run against
+export interface StoredChallenge {
+  challenge: ServedChallenge;
+  servedAs: ServedAs;
+  storedAt: number;
+  revealed: boolean; // Once the answers were shown to the player, the challenge can no longer be answered
+  verdicts: RecordedVerdict[];
+  submissions: RecordedSubmission[];
+  pauses: RecordedPause[];
+  hints: HintType[];
+  submitted: boolean; // Part of a run already on the leaderboard
+}
+
+/**
+ * Keeps every served challenge (including its accepted answers) server-side,
+ * keyed by challenge id, so the browser only ever sees the cards.
+ */
+export const createChallengeStore = () => {
+  const challenges = new Map<string, StoredChallenge>();
+  // When each address first saw the answers to a date's daily puzzles, whichever ids they came under
+  const dailyReveals = new Map<string, number>();
+  // The game each player (a profile at an address) first started a date's daily run under, and when
+  const dailyStarts = new Map<string, { gameId: string | undefined; at: number }>();
+  const dailyKey = ({ client, date }: ServedAs) => `${client} ${date}`;
+  const playerKey = ({ client, player, date }: ServedAs) => `${client} ${player} ${date}`;
+
+  const evictExpired = (now: number) => {
+    for (const [id, entry] of challenges) {
+      if (now - entry.storedAt > CHALLENGE_TTL_MS) challenges.delete(id);
+    }
+    for (const [key, at] of dailyReveals) {
+      if (now - at > DAILY_TTL_MS) dailyReveals.delete(key);
+    }
+    for (const [key, start] of dailyStarts) {
+      if (now - start.at > DAILY_TTL_MS) dailyStarts.delete(key);
+    }
+    // Map keeps insertion order, so the first keys are the oldest
+    while (challenges.size > MAX_STORED_CHALLENGES) {
+      const oldest = challenges.keys().next().value as string;
+      challenges.delete(oldest);
+    }
+  };
+
+  const getEntry = (id: string): StoredChallenge | null => {
+    const entry = challenges.get(id);
+    if (!entry) return null;
+    if (Date.now() - entry.storedAt > CHALLENGE_TTL_MS) {
+      challenges.delete(id);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    save(challenge: ServedChallenge, servedAs: ServedAs) {
+      const now = Date.now();
+      challenges.delete(challenge.id);
+      challenges.set(challenge.id, { challenge, servedAs, storedAt: now, revealed: false, verdicts: [], submissions: [], pauses: [], hints: [], submitted: false });
+      evictExpired(now);
+    },
+
+    get(id: string): ServedChallenge | null {
+      return getEntry(id)?.challenge || null;
+    },
+
+    /** The challenge with its history: how it was served, the answers received and verdicts given, the hints and pauses. */
+    record(id: string): Readonly<StoredChallenge> | null {
+      return getEntry(id);
+    },
+
+    recordSubmission(id: string, answer: string) {
+      getEntry(id)?.submissions.push({ answer, at: Date.now() });
+    },
+
+    recordVerdict(id: string, answer: string, result: ValidationResult) {
+      getEntry(id)?.verdicts.push({ answer, result, at: Date.now() });
+    },
+
+    recordPause(id: string, paused: boolean) {
+      const entry = getEntry(id);
+      if (entry && entry.pauses.length < MAX_PAUSES_PER_CHALLENGE) entry.pauses.push({ paused, at: Date.now() });
+    },
+
+    recordHint(id: string, type: HintType) {
+      getEntry(id)?.hints.push(type);
+    },
+
+    /** The challenges served for one game between two times, in the order they were served. */
+    servedFor(gameId: string, from: number, to: number): Readonly<StoredChallenge>[] {
+      // Map keeps insertion order, and saving a challenge again moves it to the end
+      return [...challenges.values()].filter(entry =>
+        entry.servedAs.gameId === gameId && entry.storedAt >= from && entry.storedAt <= to);
+    },
+
+    /** Marks the challenges of an accepted run, so the same rounds can't be submitted twice. */
+    markSubmitted(ids: string[]) {
+      for (const id of ids) {
+        const entry = getEntry(id);
+        if (entry) entry.submitted = true;
+      }
+    },
+
+    /** Whether the server accepted a player of this name as the answer to one of its challenges. */
+    wasAccepted(name: string): boolean {
+      for (const entry of challenges.values()) {
+        if (entry.verdicts.some(verdict => verdict.result.isValid && verdict.result.matchedAnswer === name)) return true;
+      }
+      return false;
+    },
+
+    isRevealed(id: string): boolean {
+      return getEntry(id)?.revealed || false;
+    },
+
+    /** Notes a player starting a date's daily run; only the first start counts (one ranked run per player and date). */
+    startDaily(servedAs: ServedAs) {
+      const key = playerKey(servedAs);
+      if (!dailyStarts.has(key)) dailyStarts.set(key, { gameId: servedAs.gameId, at: Date.now() });
+    },
+
+    /** Whether a daily challenge was served for the first daily run its player started that date; true for other challenges. */
+    isFirstDailyRun(servedAs: ServedAs): boolean {
+      if (servedAs.kind !== "daily") return true;
+      const start = dailyStarts.get(playerKey(servedAs));
+      return start !== undefined && start.gameId !== undefined && start.gameId === servedAs.gameId;
+    },
+
+    /** When the address a daily run was served to first saw that date's answers, under any ids; null if it hasn't. */
+    dailyRevealedAt(servedAs: ServedAs): number | null {
+      return servedAs.kind === "daily" ? dailyReveals.get(dailyKey(servedAs)) ?? null : null;
+    },
+
+    /** Returns the accepted answers and locks the challenge against further validation. */
+    reveal(id: string): string[] | null {
+      const entry = getEntry(id);
+      if (!entry) return null;
+      entry.revealed = true;
+      const key = dailyKey(entry.servedAs);
+      if (entry.servedAs.kind === "daily" && !dailyReveals.has(key)) dailyReveals.set(key, Date.now());
+      return entry.challenge.possibleAnswers || [];
+    }
+  };
+};
+
+export type ChallengeStore = ReturnType<typeof createChallengeStore>;
+
+/**
+ * The shape sent to the browser: cards, the available hint tiers and any multiple-choice options,
+ * never the accepted answers, the right option or the hints themselves.
+ */
+export const toPublicChallenge = ({ possibleAnswers: _answers, hints: _hints, distractors: _distractors, correctChoice: _correctChoice, ...publicChallenge }: Challenge): Challenge =>
+  publicChallenge;
+
+/** A reverse puzzle without the linked cards. */
+export const toPublicReverseChallenge = ({ possibleAnswers: _answers, links: _links, ...publicChallenge }: ReverseChallenge): ReverseChallenge =>
+  publicChallenge;
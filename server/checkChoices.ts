@@ -0,0 +1,38 @@
+import { Locale } from "../types";
+import { CHALLENGE_BANK } from "./challengeBank";
+import { attachChoices } from "./choices";
+import { checkConnection, localizeChallenge } from "./knowledgeGraph";
+
+// Builds multiple-choice rounds from every bundled puzzle, in every language and with several
+// shuffles, and checks that no wrong option is an answer the knowledge graph accepts.
+
+const SHUFFLES = 200;
+
+// A small deterministic generator, so a failure can be reproduced from its seed
+const seeded = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const failures: string[] = [];
+for (const locale of Object.values(Locale)) {
+  for (const puzzle of CHALLENGE_BANK) {
+    const challenge = localizeChallenge(puzzle, locale);
+    for (let seed = 1; seed <= SHUFFLES; seed++) {
+      const { choices = [], correctChoice } = attachChoices(challenge, locale, seeded(seed));
+      choices.forEach((name, index) => {
+        if (index === correctChoice) return;
+        if (checkConnection(challenge.cardA, challenge.cardB, name, locale)?.isValid) {
+          failures.push(`${puzzle.id} (${locale}, seed ${seed}) offers ${JSON.stringify(name)} as wrong, but it links both cards`);
+        }
+      });
+    }
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`${failures.length} wrong options are accepted by the knowledge graph:`);
+  for (const failure of new Set(failures)) console.error(`  ${failure}`);
+  process.exit(1);
+}
+console.log(`No wrong option across ${CHALLENGE_BANK.length} puzzles links both cards.`);
@@ -0,0 +1,53 @@
+import { Challenge, EntityType, Locale } from "../types";
+import { INJECTION_ATTEMPTS } from "./injectionAttempts";
+import { JsonRequest, LlmBackend } from "./llm";
+import { createLlmModel } from "./llmModel";
+import { validateAnswer } from "./validation";
+
+// Cards the knowledge graph doesn't know, so every answer reaches the model, and cards it does
+const PUZZLES: Challenge[] = [
+  { id: "unknown-cards", cardA: { name: "الأهلي", type: EntityType.TEAM }, cardB: { name: "الزمالك", type: EntityType.TEAM }, possibleAnswers: [] },
+  { id: "known-cards", cardA: { name: "Real Madrid", type: EntityType.TEAM }, cardB: { name: "Liverpool", type: EntityType.TEAM }, possibleAnswers: [] }
+];
+
+// The answer as the prompt quotes it
+const quotedAnswer = (prompt: string) => prompt.match(/<answer>([\s\S]*?)<\/answer>/)?.[1] ?? "";
+
+/**
+ * Models that obey whatever the answer tells them: one accepts the answer as its own player,
+ * the other accepts it as a famous player. Each verdict is otherwise well-formed.
+ */
+const OBEDIENT_BACKENDS: LlmBackend[] = [
+  { name: "echoes the answer", player: (prompt: string) => quotedAnswer(prompt) },
+  { name: "names a star", player: () => "Lionel Messi" }
+].map(({ name, player }) => ({
+  name,
+  generateJson: async ({ purpose, prompt }: JsonRequest) => {
+    if (purpose !== "verdict") throw new Error("Only verdicts are scripted");
+    return { isValid: true, reason: "As instructed.", player: player(prompt), linkToCardA: "played there", linkToCardB: "played there" };
+  }
+}));
+
+/** Runs every injection attempt against every puzzle and obedient model; returns the ones that were accepted. */
+export const checkInjectionResistance = async (locale: Locale = Locale.EN) => {
+  const accepted: { answer: string; note: string; puzzle: string; backend: string }[] = [];
+  for (const backend of OBEDIENT_BACKENDS) {
+    const model = createLlmModel(backend);
+    for (const puzzle of PUZZLES) {
+      for (const { answer, note } of INJECTION_ATTEMPTS) {
+        const verdict = await validateAnswer(puzzle, answer, model, locale);
+        if (verdict.isValid) accepted.push({ answer, note, puzzle: puzzle.id, backend: backend.name });
+      }
+    }
+  }
+  return accepted;
+};
+
+const accepted = await checkInjectionResistance();
+const total = INJECTION_ATTEMPTS.length * PUZZLES.length * OBEDIENT_BACKENDS.length;
+if (accepted.length > 0) {
+  console.error(`${accepted.length} of ${total} injection attempts were accepted:`);
+  for (const { answer, note, puzzle, backend } of accepted) console.error(`  ${JSON.stringify(answer)} (${note}) on ${puzzle}, model ${backend}`);
+  process.exit(1);
+}
+console.log(`All ${total} injection attempts were rejected.`);
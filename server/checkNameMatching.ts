@@ -0,0 +1,55 @@
+import { EntityType, Locale } from "../types";
+import { PEOPLE } from "./footballGraph";
+import { checkConnection } from "./knowledgeGraph";
+import { ACCEPT_CONFIDENCE, bestNameMatch } from "./nameMatching";
+
+// Types the same surname in Latin and in Arabic script and checks that both spellings get the
+// same treatment: accepted when only one known player has it, too uncertain when two share it,
+// against accepted answers listed in either script and in the knowledge graph.
+
+const ARABIC_SCRIPT = /[؀-ۿ]/;
+const KNOWN_PEOPLE = PEOPLE.map(person => person.names);
+
+// [player id, surname in Latin script, the same surname in Arabic script, whether another player shares it]
+const SURNAMES: [string, string, string, boolean][] = [
+  ["cristiano-ronaldo", "Ronaldo", "رونالدو", true],
+  ["alex-song", "Song", "سونغ", true],
+  ["zidane", "Zidane", "زيدان", false],
+  ["iniesta", "Iniesta", "إنييستا", false],
+  ["benzema", "Benzema", "بنزيما", false]
+];
+
+const failures: string[] = [];
+
+for (const [id, latin, arabic, shared] of SURNAMES) {
+  const person = PEOPLE.find(record => record.id === id);
+  if (!person) {
+    failures.push(`${id} is not in the knowledge graph`);
+    continue;
+  }
+  // The player's full name as an accepted answer, once in each script
+  const lists = [person.names.find(name => ARABIC_SCRIPT.test(name) && name.includes(" ")), person.names.find(name => !ARABIC_SCRIPT.test(name))]
+    .filter((name): name is string => name !== undefined)
+    .map(name => [name]);
+  for (const answer of [latin, arabic]) {
+    for (const list of lists) {
+      const accepted = (bestNameMatch(answer, list, KNOWN_PEOPLE)?.confidence ?? 0) >= ACCEPT_CONFIDENCE;
+      if (accepted === shared) failures.push(`"${answer}" against the accepted answer "${list[0]}" is ${accepted ? "accepted" : "not accepted"}`);
+    }
+  }
+}
+
+// Cristiano Ronaldo played for both clubs, Ronaldo Nazário only for one: neither spelling decides it
+const realMadrid = { name: "Real Madrid", type: EntityType.TEAM };
+const manchesterUnited = { name: "Manchester United", type: EntityType.TEAM };
+for (const answer of ["Ronaldo", "رونالدو"]) {
+  const verdict = checkConnection(realMadrid, manchesterUnited, answer, Locale.EN);
+  if (verdict !== null) failures.push(`the graph decides "${answer}" on its own (${verdict.isValid ? "accepted" : "rejected"})`);
+}
+
+if (failures.length > 0) {
+  console.error(`${failures.length} name checks failed:`);
+  for (const failure of failures) console.error(`  ${failure}`);
+  process.exit(1);
+}
+console.log(`Both spellings of ${SURNAMES.length} surnames are matched alike.`);
@@ -0,0 +1,104 @@
+import { AnswerStyle, Challenge, ChallengeSource, Difficulty, EntityType, GameMode, Locale } from "../types";
+import { RunEvent } from "../services/gameEngine";
+import { ChallengeStore, createChallengeStore } from "./challengeStore";
+import { serveDailyChallenges, todayKey } from "./dailyChallenge";
+import { verifyRun } from "./runVerification";
+
+// Serves rounds to the store the way the API does, answers them, and checks the runs against
+// what was served around them: only a round fetched for the same game may not be left out, and
+// only a player's first daily run of a date is ranked, however many times serving it failed.
+
+const CLIENT = "203.0.113.7";
+const ANSWER = "Michael Owen";
+const SETTINGS = { source: ChallengeSource.OFFLINE, answerStyle: AnswerStyle.TYPED, locale: Locale.EN };
+
+// Cards of its own, so leaving the round out isn't excused as a repeat of a played round's card
+const puzzle = (id: string): Challenge => ({
+  id,
+  cardA: { name: `${id} A`, type: EntityType.TEAM },
+  cardB: { name: `${id} B`, type: EntityType.TEAM },
+  possibleAnswers: [ANSWER]
+});
+
+const serve = (store: ChallengeStore, id: string, gameId: string) => {
+  const challenge = puzzle(id);
+  store.save(challenge, { kind: "challenge", difficulty: Difficulty.MEDIUM, client: CLIENT, gameId });
+  return challenge;
+};
+
+const startRun = (mode: GameMode, gameId: string): RunEvent[] =>
+  [{ type: "GAME_STARTED", at: Date.now(), mode, difficulty: Difficulty.MEDIUM, settings: { ...SETTINGS, gameId } }];
+
+/** Solves a round of the run, with the server recording the answer and its verdict. */
+const solveRound = (store: ChallengeStore, events: RunEvent[], challenge: Challenge) => {
+  const answer = challenge.possibleAnswers?.[0] || ANSWER;
+  events.push({ type: "ROUND_STARTED", at: Date.now(), challengeId: challenge.id });
+  store.recordSubmission(challenge.id, answer);
+  events.push({ type: "ANSWER_SUBMITTED", at: Date.now(), answer });
+  store.recordVerdict(challenge.id, answer, { isValid: true, reason: "", matchedAnswer: answer });
+  events.push({ type: "VERDICT", at: Date.now(), answer, isCorrect: true });
+  events.push({ type: "NEXT_ROUND", at: Date.now() });
+};
+
+const endRun = (events: RunEvent[]): RunEvent[] => [...events, { type: "GAME_ENDED", at: Date.now() }];
+
+/** Plays two solved rounds of a classic game, with `between` run once the first is over. */
+const playRun = (store: ChallengeStore, gameId: string, between: () => void): RunEvent[] => {
+  const events = startRun(GameMode.CLASSIC, gameId);
+  solveRound(store, events, serve(store, `${gameId}-round-1`, gameId));
+  between();
+  solveRound(store, events, serve(store, `${gameId}-round-2`, gameId));
+  return endRun(events);
+};
+
+const failures: string[] = [];
+
+// [what is served between the two rounds, whether the run is accepted]
+const CASES: [string, (store: ChallengeStore) => void, boolean][] = [
+  ["a late prefetch of the previous game", store => serve(store, "late-prefetch", "previous-game"), true],
+  ["a round of a game in another tab", store => serve(store, "other-tab", "other-game"), true],
+  ["a round of the same game it doesn't play", store => serve(store, "left-out", "game"), false]
+];
+
+for (const [name, between, accepted] of CASES) {
+  const store = createChallengeStore();
+  const checked = verifyRun(playRun(store, "game", () => between(store)), store);
+  if (checked.ok === false && accepted) failures.push(`with ${name} served between its rounds, the run is rejected (${checked.problem})`);
+  if (checked.ok === true && !accepted) failures.push(`with ${name} served between its rounds, the run is accepted`);
+}
+
+// Nor can a run play a round served for another game, which the check above would never see
+const store = createChallengeStore();
+const borrowed = serve(store, "borrowed", "other-game");
+store.recordSubmission(borrowed.id, ANSWER);
+store.recordVerdict(borrowed.id, ANSWER, { isValid: true, reason: "", matchedAnswer: ANSWER });
+const run = playRun(store, "game", () => {}).map(event =>
+  event.type === "ROUND_STARTED" && event.challengeId === "game-round-2" ? { ...event, challengeId: borrowed.id } : event);
+const borrowedCheck = verifyRun(run, store);
+if (borrowedCheck.ok === true || !borrowedCheck.problem.includes("another game")) failures.push("a run plays a round served for another game");
+
+// The daily run: the first serving fails to resolve the cards' images, and the player tries again
+const dailyStore = createChallengeStore();
+const serveDaily = (gameId: string, player: string, resolve: (challenge: Challenge) => Promise<Challenge> = async challenge => challenge) =>
+  serveDailyChallenges(dailyStore, resolve, Locale.EN, { kind: "daily", date: todayKey(), client: CLIENT, gameId, player });
+const playDaily = async (gameId: string, player: string) => {
+  const [first] = await serveDaily(gameId, player);
+  const events = startRun(GameMode.DAILY, gameId);
+  solveRound(dailyStore, events, first);
+  return verifyRun(endRun(events), dailyStore);
+};
+
+const failedServing = await serveDaily("daily-failed", "player", async () => {
+  throw new Error("image resolver down");
+}).then(() => "served", () => "failed");
+if (failedServing !== "failed") failures.push("the daily run was served although resolving its images failed");
+if ((await playDaily("daily-retry", "player")).ok === false) failures.push("a daily run whose first serving failed can't be ranked on retry");
+if ((await playDaily("daily-again", "player")).ok === true) failures.push("a player's second daily run of the date is ranked");
+if ((await playDaily("daily-neighbour", "other-player")).ok === false) failures.push("another player at the same address can't rank their daily run");
+
+if (failures.length > 0) {
+  console.error(`${failures.length} run checks failed:`);
+  for (const failure of failures) console.error(`  ${failure}`);
+  process.exit(1);
+}
+console.log(`${CASES.length + 4} runs were checked against the rounds served for their game and player.`);
@@ -0,0 +1,51 @@
+import { Challenge, Locale, ValidationResult, VerdictSource } from "../types";
+import { primaryAnswer } from "./hints";
+import { allPlayerNames, checkConnection, nearMisses } from "./knowledgeGraph";
+import { ACCEPT_CONFIDENCE, matchName } from "./nameMatching";
+import { normalizeArabic } from "./normalize";
+import { shuffle } from "./shuffle";
+
+export const CHOICE_COUNT = 4;
+
+/**
+ * Turns a challenge into a multiple-choice round: its primary answer plus three wrong options.
+ * Near misses from the graph (players linked to only one of the cards) come first, then the
+ * model's suggestions, and random players only when both run short.
+ */
+export const attachChoices = (challenge: Challenge, locale: Locale, random: () => number = Math.random): Challenge => {
+  const correct = primaryAnswer(challenge, locale);
+  if (!correct) return challenge;
+
+  // A wrong option must not be another spelling of an accepted answer, nor one of the cards,
+  // nor a player the graph knows links both cards (whichever list it came from)
+  const taken = [...(challenge.possibleAnswers || []), challenge.cardA.name, challenge.cardB.name];
+  const isUsable = (name: string) =>
+    !taken.some(other => (matchName(name, other)?.confidence ?? 0) >= ACCEPT_CONFIDENCE) &&
+    !checkConnection(challenge.cardA, challenge.cardB, name, locale)?.isValid;
+
+  const wrong: string[] = [];
+  const seen = new Set<string>();
+  const candidates = [
+    ...shuffle(nearMisses(challenge.cardA, challenge.cardB, locale), random),
+    ...(challenge.distractors || []),
+    ...shuffle(allPlayerNames(locale), random)
+  ];
+  for (const name of candidates) {
+    if (wrong.length === CHOICE_COUNT - 1) break;
+    const key = normalizeArabic(name);
+    if (seen.has(key) || !isUsable(name)) continue;
+    seen.add(key);
+    wrong.push(name);
+  }
+
+  const choices = shuffle([correct, ...wrong], random);
+  return { ...challenge, choices, correctChoice: choices.indexOf(correct) };
+};
+
+/** Judges a multiple-choice pick by the option's text; null when it isn't one of the options. */
+export const checkChoice = (challenge: Challenge, answer: string): ValidationResult | null => {
+  const picked = (challenge.choices || []).indexOf(answer);
+  if (picked < 0) return null;
+  const isValid = picked === challenge.correctChoice;
+  return { isValid, reason: "", matchedAnswer: isValid ? answer : undefined, source: VerdictSource.ANSWER_LIST };
+};
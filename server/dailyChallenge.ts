@@ -0,0 +1,90 @@
+import { Challenge, Difficulty, Locale } from "../types";
+import { CHALLENGE_BANK } from "./challengeBank";
+import { ChallengeStore, ServedAs } from "./challengeStore";
+import { attachHints } from "./hints";
+import { localizeChallenge } from "./knowledgeGraph";
+
+// The daily run ramps up: everyone gets the same puzzles, in this order, for a given date
+export const DAILY_ROUNDS: Difficulty[] = [
+  Difficulty.EASY,
+  Difficulty.EASY,
+  Difficulty.MEDIUM,
+  Difficulty.MEDIUM,
+  Difficulty.HARD
+];
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// FNV-1a: turns the date key into a 32-bit seed
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast, and identical on every machine
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) >>> 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const todayKey = (now: number = Date.now()) => new Date(now).toISOString().slice(0, 10);
+
+/**
+ * Only today and yesterday (UTC) are playable: a run started just before midnight somewhere
+ * still loads, but tomorrow's puzzles (and so their answers) stay hidden until tomorrow.
+ */
+export const isPlayableDateKey = (dateKey: string, now: number = Date.now()): boolean => {
+  if (!DATE_KEY_PATTERN.test(dateKey)) return false;
+  const age = Date.parse(`${todayKey(now)}T00:00:00Z`) - Date.parse(`${dateKey}T00:00:00Z`);
+  return age === 0 || age === DAY_MS;
+};
+
+/**
+ * Builds the date's puzzle sequence. Content and order depend only on the date;
+ * every call returns fresh ids so each player's run can be validated and revealed independently.
+ * The language only changes how the cards are named, never which puzzles are picked.
+ */
+export const getDailyChallenges = (dateKey: string, locale: Locale = Locale.AR): Challenge[] => {
+  const random = createRandom(hashString(dateKey));
+  const used = new Set<string>();
+
+  return DAILY_ROUNDS.map(difficulty => {
+    const pool = CHALLENGE_BANK.filter(c => c.difficulty === difficulty && !used.has(c.id));
+    const { difficulty: _level, ...picked } = pool[Math.floor(random() * pool.length)];
+    used.add(picked.id);
+
+    return localizeChallenge({
+      ...picked,
+      id: crypto.randomUUID(),
+      cardA: { ...picked.cardA },
+      cardB: { ...picked.cardB },
+      possibleAnswers: [...(picked.possibleAnswers || [])]
+    }, locale);
+  });
+};
+
+/**
+ * Serves a date's puzzles to one daily run: hints attached, cards resolved, and every puzzle saved
+ * before the player's start is noted, so a run that fails to load isn't counted as their one.
+ */
+export const serveDailyChallenges = async (
+  store: ChallengeStore,
+  resolveChallenge: (challenge: Challenge) => Promise<Challenge>,
+  locale: Locale,
+  servedAs: ServedAs & { kind: "daily"; date: string }
+): Promise<Challenge[]> => {
+  const challenges = await Promise.all(
+    getDailyChallenges(servedAs.date, locale).map(challenge => resolveChallenge(attachHints(challenge, locale)))
+  );
+  challenges.forEach(challenge => store.save(challenge, servedAs));
+  store.startDaily(servedAs);
+  return challenges;
+};
@@ -0,0 +1,711 @@
+// Local football knowledge graph used for deterministic answer validation.
+//
+// Spell years are season start years (2003 = the 2003-04 season), so a January
+// transfer counts from the season already under way. Trophy years are the year
+// the trophy was lifted (the 2004-05 Champions League is 2005). Club careers are complete
+// for the clubs listed in CLUBS: if a player is in PEOPLE, every spell they had
+// at one of these clubs must be here, otherwise the graph would wrongly reject answers.
+
+export interface Spell {
+  team: string;
+  from: number;
+  to: number;
+}
+
+export interface TrophyWin {
+  trophy: string;
+  year: number;
+}
+
+export interface NamedRecord {
+  id: string;
+  names: string[];
+}
+
+export interface PersonRecord extends NamedRecord {
+  nationalTeam?: string;
+  clubs?: Spell[];   // playing career
+  coached?: Spell[]; // managerial career
+  trophies?: TrophyWin[];
+}
+
+const spell = (team: string, from: number, to: number = from): Spell => ({ team, from, to });
+const won = (trophy: string, ...years: number[]): TrophyWin[] => years.map(year => ({ trophy, year }));
+
+export const CLUBS: NamedRecord[] = [
+  { id: "real", names: ["ريال مدريد", "الريال", "Real Madrid"] },
+  { id: "barca", names: ["برشلونة", "البارسا", "Barcelona"] },
+  { id: "manutd", names: ["مانشستر يونايتد", "Manchester United"] },
+  { id: "mancity", names: ["مانشستر سيتي", "Manchester City"] },
+  { id: "liverpool", names: ["ليفربول", "Liverpool"] },
+  { id: "chelsea", names: ["تشيلسي", "Chelsea"] },
+  { id: "arsenal", names: ["أرسنال", "آرسنال", "Arsenal"] },
+  { id: "tottenham", names: ["توتنهام", "توتنهام هوتسبير", "Tottenham"] },
+  { id: "leicester", names: ["ليستر سيتي", "Leicester City"] },
+  { id: "psg", names: ["باريس سان جيرمان", "Paris Saint-Germain", "PSG"] },
+  { id: "bayern", names: ["بايرن ميونخ", "بايرن ميونيخ", "Bayern Munich"] },
+  { id: "dortmund", names: ["بوروسيا دورتموند", "دورتموند", "Borussia Dortmund"] },
+  { id: "juventus", names: ["يوفنتوس", "Juventus"] },
+  { id: "milan", names: ["ميلان", "إيه سي ميلان", "AC Milan"] },
+  { id: "inter", names: ["إنتر ميلان", "الإنتر", "Inter Milan"] },
+  { id: "roma", names: ["روما", "Roma"] },
+  { id: "napoli", names: ["نابولي", "Napoli"] },
+  { id: "lazio", names: ["لاتسيو", "Lazio"] },
+  { id: "atletico", names: ["أتلتيكو مدريد", "Atletico Madrid"] },
+  { id: "sevilla", names: ["إشبيلية", "Sevilla"] },
+  { id: "valencia", names: ["فالنسيا", "Valencia"] },
+  { id: "villarreal", names: ["فياريال", "Villarreal"] },
+  { id: "ajax", names: ["أياكس", "أياكس أمستردام", "Ajax"] },
+  { id: "sporting", names: ["سبورتينغ لشبونة", "Sporting CP"] },
+  { id: "alnassr", names: ["النصر", "Al Nassr"] },
+  { id: "intermiami", names: ["إنتر ميامي", "Inter Miami"] }
+];
+
+export const NATIONAL_TEAMS: NamedRecord[] = [
+  { id: "portugal", names: ["البرتغال", "منتخب البرتغال", "Portugal"] },
+  { id: "argentina", names: ["الأرجنتين", "منتخب الأرجنتين", "Argentina"] },
+  { id: "brazil", names: ["البرازيل", "منتخب البرازيل", "Brazil"] },
+  { id: "uruguay", names: ["الأوروغواي", "أوروغواي", "Uruguay"] },
+  { id: "spain", names: ["إسبانيا", "منتخب إسبانيا", "Spain"] },
+  { id: "france", names: ["فرنسا", "منتخب فرنسا", "France"] },
+  { id: "germany", names: ["ألمانيا", "منتخب ألمانيا", "Germany"] },
+  { id: "italy", names: ["إيطاليا", "منتخب إيطاليا", "Italy"] },
+  { id: "england", names: ["إنجلترا", "منتخب إنجلترا", "England"] },
+  { id: "netherlands", names: ["هولندا", "منتخب هولندا", "Netherlands"] },
+  { id: "belgium", names: ["بلجيكا", "منتخب بلجيكا", "Belgium"] },
+  { id: "croatia", names: ["كرواتيا", "Croatia"] },
+  { id: "sweden", names: ["السويد", "Sweden"] },
+  { id: "denmark", names: ["الدنمارك", "Denmark"] },
+  { id: "norway", names: ["النرويج", "Norway"] },
+  { id: "ukraine", names: ["أوكرانيا", "Ukraine"] },
+  { id: "belarus", names: ["بيلاروسيا", "Belarus"] },
+  { id: "turkey", names: ["تركيا", "Turkey"] },
+  { id: "egypt", names: ["مصر", "منتخب مصر", "Egypt"] },
+  { id: "morocco", names: ["المغرب", "منتخب المغرب", "Morocco"] },
+  { id: "algeria", names: ["الجزائر", "منتخب الجزائر", "Algeria"] },
+  { id: "senegal", names: ["السنغال", "Senegal"] },
+  { id: "cameroon", names: ["الكاميرون", "Cameroon"] },
+  { id: "nigeria", names: ["نيجيريا", "Nigeria"] },
+  { id: "ivorycoast", names: ["ساحل العاج", "كوت ديفوار", "Ivory Coast"] },
+  { id: "liberia", names: ["ليبيريا", "Liberia"] },
+  { id: "gabon", names: ["الغابون", "Gabon"] },
+  { id: "mali", names: ["مالي", "Mali"] },
+  { id: "colombia", names: ["كولومبيا", "Colombia"] },
+  { id: "japan", names: ["اليابان", "Japan"] },
+  { id: "southkorea", names: ["كوريا الجنوبية", "South Korea"] }
+];
+
+export const TROPHIES: NamedRecord[] = [
+  { id: "ucl", names: ["دوري أبطال أوروبا", "دوري الأبطال", "كأس أوروبا للأندية البطلة", "Champions League"] },
+  { id: "worldcup", names: ["كأس العالم", "World Cup"] },
+  { id: "ballondor", names: ["الكرة الذهبية", "Ballon d'Or"] },
+  { id: "euro", names: ["كأس أمم أوروبا", "اليورو", "Euro"] },
+  { id: "copa", names: ["كوبا أمريكا", "كأس كوبا أمريكا", "Copa America"] },
+  { id: "europa", names: ["الدوري الأوروبي", "كأس الاتحاد الأوروبي", "Europa League"] },
+  { id: "afcon", names: ["كأس أمم أفريقيا", "Africa Cup of Nations"] }
+];
+
+export const PEOPLE: PersonRecord[] = [
+  // --- Players ---
+  {
+    id: "cristiano-ronaldo", names: ["كريستيانو رونالدو", "كريستيانو", "رونالدو", "Cristiano Ronaldo", "CR7"], nationalTeam: "portugal",
+    clubs: [spell("sporting", 2002), spell("manutd", 2003, 2008), spell("real", 2009, 2017), spell("juventus", 2018, 2020), spell("manutd", 2021, 2022), spell("alnassr", 2022, 2025)],
+    trophies: [...won("ucl", 2008, 2014, 2016, 2017, 2018), ...won("ballondor", 2008, 2013, 2014, 2016, 2017), ...won("euro", 2016)]
+  },
+  {
+    id: "ronaldo-nazario", names: ["رونالدو نازاريو", "رونالدو", "الظاهرة", "Ronaldo Nazario"], nationalTeam: "brazil",
+    clubs: [spell("barca", 1996), spell("inter", 1997, 2001), spell("real", 2002, 2006), spell("milan", 2006, 2007)],
+    trophies: [...won("worldcup", 1994, 2002), ...won("ballondor", 1997, 2002), ...won("copa", 1997, 1999), ...won("europa", 1998)]
+  },
+  {
+    id: "messi", names: ["ليونيل ميسي", "ميسي", "Lionel Messi", "Messi"], nationalTeam: "argentina",
+    clubs: [spell("barca", 2004, 2020), spell("psg", 2021, 2022), spell("intermiami", 2023, 2025)],
+    trophies: [...won("ucl", 2006, 2009, 2011, 2015), ...won("worldcup", 2022), ...won("ballondor", 2009, 2010, 2011, 2012, 2015, 2019, 2021, 2023), ...won("copa", 2021, 2024)]
+  },
+  {
+    id: "neymar", names: ["نيمار", "نيمار جونيور", "Neymar"], nationalTeam: "brazil",
+    clubs: [spell("barca", 2013, 2016), spell("psg", 2017, 2022)],
+    trophies: won("ucl", 2015)
+  },
+  {
+    id: "ronaldinho", names: ["رونالدينيو", "Ronaldinho"], nationalTeam: "brazil",
+    clubs: [spell("psg", 2001, 2002), spell("barca", 2003, 2007), spell("milan", 2008, 2010)],
+    trophies: [...won("worldcup", 2002), ...won("ucl", 2006), ...won("ballondor", 2005), ...won("copa", 1999)]
+  },
+  {
+    id: "suarez", names: ["لويس سواريز", "سواريز", "Luis Suarez"], nationalTeam: "uruguay",
+    clubs: [spell("ajax", 2007, 2010), spell("liverpool", 2010, 2013), spell("barca", 2014, 2019), spell("atletico", 2020, 2021), spell("intermiami", 2024, 2025)],
+    trophies: [...won("ucl", 2015), ...won("copa", 2011)]
+  },
+  {
+    id: "iniesta", names: ["أندريس إنييستا", "إنييستا", "Andres Iniesta"], nationalTeam: "spain",
+    clubs: [spell("barca", 2002, 2017)],
+    trophies: [...won("ucl", 2006, 2009, 2011, 2015), ...won("worldcup", 2010), ...won("euro", 2008, 2012)]
+  },
+  {
+    id: "xavi", names: ["تشافي", "تشافي هيرنانديز", "Xavi"], nationalTeam: "spain",
+    clubs: [spell("barca", 1998, 2014)],
+    coached: [spell("barca", 2021, 2023)],
+    trophies: [...won("ucl", 2006, 2009, 2011, 2015), ...won("worldcup", 2010), ...won("euro", 2008, 2012)]
+  },
+  {
+    id: "busquets", names: ["سيرجيو بوسكيتس", "بوسكيتس", "Sergio Busquets"], nationalTeam: "spain",
+    clubs: [spell("barca", 2008, 2022), spell("intermiami", 2023, 2025)],
+    trophies: [...won("ucl", 2009, 2011, 2015), ...won("worldcup", 2010), ...won("euro", 2012)]
+  },
+  {
+    id: "jordi-alba", names: ["جوردي ألبا", "ألبا", "Jordi Alba"], nationalTeam: "spain",
+    clubs: [spell("valencia", 2009, 2011), spell("barca", 2012, 2022), spell("intermiami", 2023, 2025)],
+    trophies: [...won("ucl", 2015), ...won("euro", 2012)]
+  },
+  {
+    id: "pique", names: ["جيرارد بيكيه", "بيكيه", "Gerard Pique"], nationalTeam: "spain",
+    clubs: [spell("manutd", 2004, 2007), spell("barca", 2008, 2022)],
+    trophies: [...won("ucl", 2008, 2009, 2011, 2015), ...won("worldcup", 2010), ...won("euro", 2012)]
+  },
+  {
+    id: "puyol", names: ["كارليس بويول", "بويول", "Carles Puyol"], nationalTeam: "spain",
+    clubs: [spell("barca", 1999, 2013)],
+    trophies: [...won("ucl", 2006, 2009, 2011), ...won("worldcup", 2010), ...won("euro", 2008)]
+  },
+  {
+    id: "dani-alves", names: ["داني ألفيش", "داني ألفيس", "Dani Alves"], nationalTeam: "brazil",
+    clubs: [spell("sevilla", 2002, 2007), spell("barca", 2008, 2015), spell("juventus", 2016), spell("psg", 2017, 2018), spell("barca", 2021)],
+    trophies: [...won("ucl", 2009, 2011, 2015), ...won("europa", 2006, 2007), ...won("copa", 2007, 2019)]
+  },
+  {
+    id: "henry", names: ["تييري هنري", "هنري", "Thierry Henry"], nationalTeam: "france",
+    clubs: [spell("juventus", 1998), spell("arsenal", 1999, 2006), spell("barca", 2007, 2009), spell("arsenal", 2011)],
+    trophies: [...won("worldcup", 1998), ...won("euro", 2000), ...won("ucl", 2009)]
+  },
+  {
+    id: "yaya-toure", names: ["يايا توريه", "Yaya Toure"], nationalTeam: "ivorycoast",
+    clubs: [spell("barca", 2007, 2009), spell("mancity", 2010, 2017)],
+    trophies: [...won("ucl", 2009), ...won("afcon", 2015)]
+  },
+  {
+    id: "zlatan", names: ["زلاتان إبراهيموفيتش", "زلاتان", "إبراهيموفيتش", "Zlatan Ibrahimovic"], nationalTeam: "sweden",
+    clubs: [spell("ajax", 2001, 2004), spell("juventus", 2004, 2005), spell("inter", 2006, 2008), spell("barca", 2009), spell("milan", 2010, 2011), spell("psg", 2012, 2015), spell("manutd", 2016, 2017), spell("milan", 2019, 2022)]
+  },
+  {
+    id: "sneijder", names: ["ويسلي شنايدر", "شنايدر", "Wesley Sneijder"], nationalTeam: "netherlands",
+    clubs: [spell("ajax", 2002, 2006), spell("real", 2007, 2008), spell("inter", 2009, 2012)],
+    trophies: won("ucl", 2010)
+  },
+  {
+    id: "eriksen", names: ["كريستيان إريكسن", "إريكسن", "Christian Eriksen"], nationalTeam: "denmark",
+    clubs: [spell("ajax", 2010, 2012), spell("tottenham", 2013, 2019), spell("inter", 2019, 2021), spell("manutd", 2022, 2024)]
+  },
+  {
+    id: "onana", names: ["أندريه أونانا", "أونانا", "Andre Onana"], nationalTeam: "cameroon",
+    clubs: [spell("ajax", 2015, 2021), spell("inter", 2022), spell("manutd", 2023, 2025)]
+  },
+  {
+    id: "kanu", names: ["نوانكو كانو", "كانو", "Nwankwo Kanu"], nationalTeam: "nigeria",
+    clubs: [spell("ajax", 1993, 1995), spell("inter", 1996, 1998), spell("arsenal", 1998, 2003)],
+    trophies: won("ucl", 1995)
+  },
+  {
+    id: "salah", names: ["محمد صلاح", "صلاح", "Mohamed Salah"], nationalTeam: "egypt",
+    clubs: [spell("chelsea", 2013, 2014), spell("roma", 2015, 2016), spell("liverpool", 2017, 2025)],
+    trophies: won("ucl", 2019)
+  },
+  {
+    id: "mane", names: ["ساديو ماني", "ماني", "Sadio Mane"], nationalTeam: "senegal",
+    clubs: [spell("liverpool", 2016, 2021), spell("bayern", 2022), spell("alnassr", 2023, 2024)],
+    trophies: [...won("ucl", 2019), ...won("afcon", 2022)]
+  },
+  {
+    id: "van-dijk", names: ["فيرجيل فان دايك", "فان دايك", "Virgil van Dijk"], nationalTeam: "netherlands",
+    clubs: [spell("liverpool", 2017, 2025)],
+    trophies: won("ucl", 2019)
+  },
+  {
+    id: "gerrard", names: ["ستيفن جيرارد", "جيرارد", "Steven Gerrard"], nationalTeam: "england",
+    clubs: [spell("liverpool", 1998, 2014)],
+    trophies: [...won("ucl", 2005), ...won("europa", 2001)]
+  },
+  {
+    id: "henderson", names: ["جوردان هندرسون", "هندرسون", "Jordan Henderson"], nationalTeam: "england",
+    clubs: [spell("liverpool", 2011, 2022)],
+    trophies: won("ucl", 2019)
+  },
+  {
+    id: "alisson", names: ["أليسون بيكر", "أليسون", "Alisson Becker"], nationalTeam: "brazil",
+    clubs: [spell("roma", 2016, 2017), spell("liverpool", 2018, 2025)],
+    trophies: [...won("ucl", 2019), ...won("copa", 2019)]
+  },
+  {
+    id: "kaka", names: ["كاكا", "Kaka"], nationalTeam: "brazil",
+    clubs: [spell("milan", 2003, 2008), spell("real", 2009, 2012), spell("milan", 2013)],
+    trophies: [...won("worldcup", 2002), ...won("ucl", 2007), ...won("ballondor", 2007)]
+  },
+  {
+    id: "shevchenko", names: ["أندريه شيفتشينكو", "شيفتشينكو", "Andriy Shevchenko"], nationalTeam: "ukraine",
+    clubs: [spell("milan", 1999, 2005), spell("chelsea", 2006, 2007), spell("milan", 2008)],
+    trophies: [...won("ucl", 2003), ...won("ballondor", 2004)]
+  },
+  {
+    id: "weah", names: ["جورج ويا", "ويا", "George Weah"], nationalTeam: "liberia",
+    clubs: [spell("psg", 1992, 1994), spell("milan", 1995, 1999), spell("chelsea", 1999), spell("mancity", 2000)],
+    trophies: won("ballondor", 1995)
+  },
+  {
+    id: "gullit", names: ["رود خوليت", "خوليت", "Ruud Gullit"], nationalTeam: "netherlands",
+    clubs: [spell("milan", 1987, 1992), spell("milan", 1993), spell("chelsea", 1995, 1997)],
+    trophies: [...won("euro", 1988), ...won("ucl", 1989, 1990), ...won("ballondor", 1987)]
+  },
+  {
+    id: "van-basten", names: ["ماركو فان باستن", "فان باستن", "Marco van Basten"], nationalTeam: "netherlands",
+    clubs: [spell("ajax", 1981, 1986), spell("milan", 1987, 1994)],
+    trophies: [...won("euro", 1988), ...won("ucl", 1989, 1990), ...won("ballondor", 1988, 1989, 1992)]
+  },
+  {
+    id: "de-bruyne", names: ["كيفين دي بروين", "دي بروين", "Kevin De Bruyne"], nationalTeam: "belgium",
+    clubs: [spell("chelsea", 2012, 2013), spell("mancity", 2015, 2024), spell("napoli", 2025)],
+    trophies: won("ucl", 2023)
+  },
+  {
+    id: "haaland", names: ["إيرلينغ هالاند", "هالاند", "Erling Haaland"], nationalTeam: "norway",
+    clubs: [spell("dortmund", 2019, 2021), spell("mancity", 2022, 2025)],
+    trophies: won("ucl", 2023)
+  },
+  {
+    id: "rodri", names: ["رودري", "Rodri"], nationalTeam: "spain",
+    clubs: [spell("villarreal", 2015, 2017), spell("atletico", 2018), spell("mancity", 2019, 2025)],
+    trophies: [...won("ucl", 2023), ...won("euro", 2024), ...won("ballondor", 2024)]
+  },
+  {
+    id: "bernardo-silva", names: ["برناردو سيلفا", "Bernardo Silva"], nationalTeam: "portugal",
+    clubs: [spell("mancity", 2017, 2025)],
+    trophies: won("ucl", 2023)
+  },
+  {
+    id: "sterling", names: ["رحيم سترلينج", "سترلينج", "Raheem Sterling"], nationalTeam: "england",
+    clubs: [spell("liverpool", 2012, 2014), spell("mancity", 2015, 2021), spell("chelsea", 2022, 2023), spell("arsenal", 2024)]
+  },
+  {
+    id: "varane", names: ["رافائيل فاران", "فاران", "Raphael Varane"], nationalTeam: "france",
+    clubs: [spell("real", 2011, 2020), spell("manutd", 2021, 2023)],
+    trophies: [...won("worldcup", 2018), ...won("ucl", 2014, 2016, 2017, 2018)]
+  },
+  {
+    id: "casemiro", names: ["كاسيميرو", "Casemiro"], nationalTeam: "brazil",
+    clubs: [spell("real", 2012, 2021), spell("manutd", 2022, 2025)],
+    trophies: [...won("ucl", 2014, 2016, 2017, 2018, 2022), ...won("copa", 2019)]
+  },
+  {
+    id: "di-maria", names: ["أنخيل دي ماريا", "دي ماريا", "Angel Di Maria"], nationalTeam: "argentina",
+    clubs: [spell("real", 2010, 2013), spell("manutd", 2014), spell("psg", 2015, 2021), spell("juventus", 2022)],
+    trophies: [...won("worldcup", 2022), ...won("ucl", 2014), ...won("copa", 2021, 2024)]
+  },
+  {
+    id: "beckham", names: ["ديفيد بيكهام", "بيكهام", "David Beckham"], nationalTeam: "england",
+    clubs: [spell("manutd", 1992, 2002), spell("real", 2003, 2006), spell("milan", 2008, 2009), spell("psg", 2012)],
+    trophies: won("ucl", 1999)
+  },
+  {
+    id: "van-nistelrooy", names: ["رود فان نيستلروي", "فان نيستلروي", "Ruud van Nistelrooy"], nationalTeam: "netherlands",
+    clubs: [spell("manutd", 2001, 2005), spell("real", 2006, 2009)]
+  },
+  {
+    id: "zidane", names: ["زين الدين زيدان", "زيدان", "Zinedine Zidane"], nationalTeam: "france",
+    clubs: [spell("juventus", 1996, 2000), spell("real", 2001, 2005)],
+    coached: [spell("real", 2015, 2017), spell("real", 2018, 2020)],
+    trophies: [...won("worldcup", 1998), ...won("euro", 2000), ...won("ucl", 2002), ...won("ballondor", 1998)]
+  },
+  {
+    id: "benzema", names: ["كريم بنزيما", "بنزيما", "Karim Benzema"], nationalTeam: "france",
+    clubs: [spell("real", 2009, 2022)],
+    trophies: [...won("ucl", 2014, 2016, 2017, 2018, 2022), ...won("ballondor", 2022)]
+  },
+  {
+    id: "mbappe", names: ["كيليان مبابي", "مبابي", "Kylian Mbappe"], nationalTeam: "france",
+    clubs: [spell("psg", 2017, 2023), spell("real", 2024, 2025)],
+    trophies: won("worldcup", 2018)
+  },
+  {
+    id: "tchouameni", names: ["أوريلين تشواميني", "تشواميني", "Aurelien Tchouameni"], nationalTeam: "france",
+    clubs: [spell("real", 2022, 2025)],
+    trophies: won("ucl", 2024)
+  },
+  {
+    id: "camavinga", names: ["إدواردو كامافينغا", "كامافينغا", "Eduardo Camavinga"], nationalTeam: "france",
+    clubs: [spell("real", 2021, 2025)],
+    trophies: won("ucl", 2022, 2024)
+  },
+  {
+    id: "makelele", names: ["كلود ماكيليلي", "ماكيليلي", "Claude Makelele"], nationalTeam: "france",
+    clubs: [spell("real", 2000, 2002), spell("chelsea", 2003, 2007), spell("psg", 2008, 2010)],
+    trophies: won("ucl", 2002)
+  },
+  {
+    id: "etoo", names: ["صامويل إيتو", "إيتو", "Samuel Eto'o"], nationalTeam: "cameroon",
+    clubs: [spell("real", 1997, 2000), spell("barca", 2004, 2008), spell("inter", 2009, 2010), spell("chelsea", 2013)],
+    trophies: [...won("ucl", 2006, 2009, 2010), ...won("afcon", 2000, 2002)]
+  },
+  {
+    id: "milito", names: ["دييغو ميليتو", "ميليتو", "Diego Milito"], nationalTeam: "argentina",
+    clubs: [spell("inter", 2009, 2013)],
+    trophies: won("ucl", 2010)
+  },
+  {
+    id: "zanetti", names: ["خافيير زانيتي", "زانيتي", "Javier Zanetti"], nationalTeam: "argentina",
+    clubs: [spell("inter", 1995, 2013)],
+    trophies: [...won("ucl", 2010), ...won("europa", 1998)]
+  },
+  {
+    id: "lucio", names: ["لوسيو", "Lucio"], nationalTeam: "brazil",
+    clubs: [spell("bayern", 2004, 2008), spell("inter", 2009, 2011), spell("juventus", 2012)],
+    trophies: [...won("worldcup", 2002), ...won("ucl", 2010)]
+  },
+  {
+    id: "julio-cesar", names: ["جوليو سيزار", "Julio Cesar"], nationalTeam: "brazil",
+    clubs: [spell("inter", 2005, 2011)],
+    trophies: [...won("ucl", 2010), ...won("copa", 2004)]
+  },
+  {
+    id: "materazzi", names: ["ماركو ماتيراتزي", "ماتيراتزي", "Marco Materazzi"], nationalTeam: "italy",
+    clubs: [spell("inter", 2001, 2010)],
+    trophies: [...won("worldcup", 2006), ...won("ucl", 2010)]
+  },
+  {
+    id: "hazard", names: ["إدين هازارد", "هازارد", "Eden Hazard"], nationalTeam: "belgium",
+    clubs: [spell("chelsea", 2012, 2018), spell("real", 2019, 2022)],
+    trophies: [...won("ucl", 2022), ...won("europa", 2013, 2019)]
+  },
+  {
+    id: "courtois", names: ["تيبو كورتوا", "كورتوا", "Thibaut Courtois"], nationalTeam: "belgium",
+    clubs: [spell("atletico", 2011, 2013), spell("chelsea", 2014, 2017), spell("real", 2018, 2025)],
+    trophies: [...won("ucl", 2022, 2024), ...won("europa", 2012)]
+  },
+  {
+    id: "rudiger", names: ["أنطونيو روديغر", "روديغر", "Antonio Rudiger"], nationalTeam: "germany",
+    clubs: [spell("roma", 2015, 2016), spell("chelsea", 2017, 2021), spell("real", 2022, 2025)],
+    trophies: won("ucl", 2021, 2024)
+  },
+  {
+    id: "kovacic", names: ["ماتيو كوفاسيتش", "كوفاسيتش", "Mateo Kovacic"], nationalTeam: "croatia",
+    clubs: [spell("inter", 2012, 2014), spell("real", 2015, 2017), spell("chelsea", 2018, 2022), spell("mancity", 2023, 2025)],
+    trophies: won("ucl", 2016, 2017, 2018, 2021)
+  },
+  {
+    id: "robben", names: ["أريين روبن", "روبن", "Arjen Robben"], nationalTeam: "netherlands",
+    clubs: [spell("chelsea", 2004, 2006), spell("real", 2007, 2008), spell("bayern", 2009, 2018)],
+    trophies: won("ucl", 2013)
+  },
+  {
+    id: "fabregas", names: ["سيسك فابريغاس", "فابريغاس", "Cesc Fabregas"], nationalTeam: "spain",
+    clubs: [spell("arsenal", 2003, 2010), spell("barca", 2011, 2013), spell("chelsea", 2014, 2018)],
+    trophies: [...won("worldcup", 2010), ...won("euro", 2008, 2012)]
+  },
+  {
+    id: "hleb", names: ["ألكسندر هليب", "هليب", "Alexander Hleb"], nationalTeam: "belarus",
+    clubs: [spell("arsenal", 2005, 2007), spell("barca", 2008)],
+    trophies: won("ucl", 2009)
+  },
+  {
+    id: "van-bronckhorst", names: ["جيوفاني فان برونكهورست", "فان برونكهورست", "Giovanni van Bronckhorst"], nationalTeam: "netherlands",
+    clubs: [spell("arsenal", 2001, 2002), spell("barca", 2003, 2006)],
+    trophies: won("ucl", 2006)
+  },
+  {
+    id: "overmars", names: ["مارك أوفرمارس", "أوفرمارس", "Marc Overmars"], nationalTeam: "netherlands",
+    clubs: [spell("ajax", 1990, 1996), spell("arsenal", 1997, 1999), spell("barca", 2000, 2003)],
+    trophies: won("ucl", 1995)
+  },
+  {
+    id: "aubameyang", names: ["بيير إيميريك أوباميانغ", "أوباميانغ", "Pierre-Emerick Aubameyang"], nationalTeam: "gabon",
+    clubs: [spell("dortmund", 2013, 2017), spell("arsenal", 2017, 2021), spell("barca", 2021), spell("chelsea", 2022)]
+  },
+  {
+    id: "petit", names: ["إيمانويل بوتي", "بوتي", "Emmanuel Petit"], nationalTeam: "france",
+    clubs: [spell("arsenal", 1997, 1999), spell("barca", 2000), spell("chelsea", 2001, 2003)],
+    trophies: [...won("worldcup", 1998), ...won("euro", 2000)]
+  },
+  {
+    id: "alex-song", names: ["أليكس سونغ", "Alex Song"], nationalTeam: "cameroon",
+    clubs: [spell("arsenal", 2005, 2011), spell("barca", 2012, 2013)]
+  },
+  {
+    id: "correa", names: ["أنخيل كوريا", "Angel Correa"], nationalTeam: "argentina",
+    clubs: [spell("atletico", 2014, 2024)],
+    trophies: [...won("worldcup", 2022), ...won("copa", 2021)]
+  },
+  {
+    id: "de-paul", names: ["رودريغو دي بول", "دي بول", "Rodrigo De Paul"], nationalTeam: "argentina",
+    clubs: [spell("valencia", 2014, 2015), spell("atletico", 2021, 2024), spell("intermiami", 2025)],
+    trophies: [...won("worldcup", 2022), ...won("copa", 2021, 2024)]
+  },
+  {
+    id: "molina", names: ["ناهويل مولينا", "مولينا", "Nahuel Molina"], nationalTeam: "argentina",
+    clubs: [spell("atletico", 2022, 2025)],
+    trophies: [...won("worldcup", 2022), ...won("copa", 2024)]
+  },
+  {
+    id: "julian-alvarez", names: ["خوليان ألفاريز", "ألفاريز", "Julian Alvarez"], nationalTeam: "argentina",
+    clubs: [spell("mancity", 2022, 2023), spell("atletico", 2024, 2025)],
+    trophies: [...won("worldcup", 2022), ...won("ucl", 2023), ...won("copa", 2021, 2024)]
+  },
+  {
+    id: "muller", names: ["توماس مولر", "مولر", "Thomas Muller"], nationalTeam: "germany",
+    clubs: [spell("bayern", 2008, 2024)],
+    trophies: [...won("worldcup", 2014), ...won("ucl", 2013, 2020)]
+  },
+  {
+    id: "neuer", names: ["مانويل نوير", "نوير", "Manuel Neuer"], nationalTeam: "germany",
+    clubs: [spell("bayern", 2011, 2025)],
+    trophies: [...won("worldcup", 2014), ...won("ucl", 2013, 2020)]
+  },
+  {
+    id: "lahm", names: ["فيليب لام", "لام", "Philipp Lahm"], nationalTeam: "germany",
+    clubs: [spell("bayern", 2002, 2016)],
+    trophies: [...won("worldcup", 2014), ...won("ucl", 2013)]
+  },
+  {
+    id: "schweinsteiger", names: ["باستيان شفاينشتايغر", "شفاينشتايغر", "Bastian Schweinsteiger"], nationalTeam: "germany",
+    clubs: [spell("bayern", 2002, 2014), spell("manutd", 2015, 2016)],
+    trophies: [...won("worldcup", 2014), ...won("ucl", 2013)]
+  },
+  {
+    id: "boateng", names: ["جيروم بواتينغ", "بواتينغ", "Jerome Boateng"], nationalTeam: "germany",
+    clubs: [spell("mancity", 2010), spell("bayern", 2011, 2020)],
+    trophies: [...won("worldcup", 2014), ...won("ucl", 2013, 2020)]
+  },
+  {
+    id: "gotze", names: ["ماريو غوتزه", "غوتزه", "Mario Gotze"], nationalTeam: "germany",
+    clubs: [spell("dortmund", 2009, 2012), spell("bayern", 2013, 2015), spell("dortmund", 2016, 2019)],
+    trophies: won("worldcup", 2014)
+  },
+  {
+    id: "klose", names: ["ميروسلاف كلوزه", "كلوزه", "Miroslav Klose"], nationalTeam: "germany",
+    clubs: [spell("bayern", 2007, 2010), spell("lazio", 2011, 2015)],
+    trophies: won("worldcup", 2014)
+  },
+  {
+    id: "pavard", names: ["بنجامين بافار", "بافار", "Benjamin Pavard"], nationalTeam: "france",
+    clubs: [spell("bayern", 2019, 2022), spell("inter", 2023, 2025)],
+    trophies: [...won("worldcup", 2018), ...won("ucl", 2020)]
+  },
+  {
+    id: "lucas-hernandez", names: ["لوكاس هيرنانديز", "Lucas Hernandez"], nationalTeam: "france",
+    clubs: [spell("atletico", 2014, 2018), spell("bayern", 2019, 2022), spell("psg", 2023, 2025)],
+    trophies: [...won("worldcup", 2018), ...won("ucl", 2020), ...won("europa", 2018)]
+  },
+  {
+    id: "maldini", names: ["باولو مالديني", "مالديني", "Paolo Maldini"], nationalTeam: "italy",
+    clubs: [spell("milan", 1984, 2008)],
+    trophies: won("ucl", 1989, 1990, 1994, 2003, 2007)
+  },
+  {
+    id: "pirlo", names: ["أندريا بيرلو", "بيرلو", "Andrea Pirlo"], nationalTeam: "italy",
+    clubs: [spell("inter", 1998, 2000), spell("milan", 2001, 2010), spell("juventus", 2011, 2014)],
+    trophies: [...won("worldcup", 2006), ...won("ucl", 2003, 2007)]
+  },
+  {
+    id: "seedorf", names: ["كلارنس سيدورف", "سيدورف", "Clarence Seedorf"], nationalTeam: "netherlands",
+    clubs: [spell("ajax", 1992, 1994), spell("real", 1996, 1999), spell("inter", 1999, 2001), spell("milan", 2002, 2011)],
+    trophies: won("ucl", 1995, 1998, 2003, 2007)
+  },
+  {
+    id: "gattuso", names: ["جينارو غاتوزو", "غاتوزو", "Gennaro Gattuso"], nationalTeam: "italy",
+    clubs: [spell("milan", 1999, 2011)],
+    trophies: [...won("worldcup", 2006), ...won("ucl", 2003, 2007)]
+  },
+  {
+    id: "nesta", names: ["أليساندرو نيستا", "نيستا", "Alessandro Nesta"], nationalTeam: "italy",
+    clubs: [spell("lazio", 1993, 2001), spell("milan", 2002, 2011)],
+    trophies: [...won("worldcup", 2006), ...won("ucl", 2003, 2007)]
+  },
+  {
+    id: "inzaghi", names: ["فيليبو إنزاغي", "إنزاغي", "Filippo Inzaghi"], nationalTeam: "italy",
+    clubs: [spell("juventus", 1997, 2000), spell("milan", 2001, 2011)],
+    trophies: [...won("worldcup", 2006), ...won("ucl", 2003, 2007)]
+  },
+  {
+    id: "hakimi", names: ["أشرف حكيمي", "حكيمي", "Achraf Hakimi"], nationalTeam: "morocco",
+    clubs: [spell("real", 2016, 2017), spell("dortmund", 2018, 2019), spell("inter", 2020), spell("psg", 2021, 2025)],
+    trophies: won("ucl", 2018, 2025)
+  },
+  {
+    id: "park-ji-sung", names: ["بارك جي سونغ", "Park Ji-sung"], nationalTeam: "southkorea",
+    clubs: [spell("manutd", 2005, 2011)],
+    trophies: won("ucl", 2008)
+  },
+  {
+    id: "coutinho", names: ["فيليبي كوتينيو", "كوتينيو", "Philippe Coutinho"], nationalTeam: "brazil",
+    clubs: [spell("inter", 2010, 2012), spell("liverpool", 2012, 2017), spell("barca", 2017, 2021), spell("bayern", 2019)],
+    trophies: [...won("ucl", 2020), ...won("copa", 2019)]
+  },
+  {
+    id: "mascherano", names: ["خافيير ماسكيرانو", "ماسكيرانو", "Javier Mascherano"], nationalTeam: "argentina",
+    clubs: [spell("liverpool", 2006, 2009), spell("barca", 2010, 2017)],
+    trophies: won("ucl", 2011, 2015)
+  },
+  {
+    id: "cazorla", names: ["سانتي كازورلا", "كازورلا", "Santi Cazorla"], nationalTeam: "spain",
+    clubs: [spell("villarreal", 2003, 2005), spell("villarreal", 2007, 2010), spell("arsenal", 2012, 2017), spell("villarreal", 2018, 2019)],
+    trophies: won("euro", 2008, 2012)
+  },
+  {
+    id: "pires", names: ["روبير بيريس", "بيريس", "Robert Pires"], nationalTeam: "france",
+    clubs: [spell("arsenal", 2000, 2005), spell("villarreal", 2006, 2009)],
+    trophies: [...won("worldcup", 1998), ...won("euro", 2000)]
+  },
+  {
+    id: "gabriel-paulista", names: ["غابرييل باوليستا", "Gabriel Paulista"], nationalTeam: "brazil",
+    clubs: [spell("villarreal", 2013, 2014), spell("arsenal", 2014, 2016), spell("valencia", 2017, 2022), spell("atletico", 2023)]
+  },
+  {
+    id: "nuri-sahin", names: ["نوري شاهين", "شاهين", "Nuri Sahin"], nationalTeam: "turkey",
+    clubs: [spell("dortmund", 2005, 2010), spell("real", 2011), spell("liverpool", 2012), spell("dortmund", 2012, 2017)]
+  },
+  {
+    id: "alexander-arnold", names: ["ترينت ألكسندر أرنولد", "ألكسندر أرنولد", "Trent Alexander-Arnold"], nationalTeam: "england",
+    clubs: [spell("liverpool", 2016, 2024), spell("real", 2025)],
+    trophies: won("ucl", 2019)
+  },
+  {
+    id: "mahrez", names: ["رياض محرز", "محرز", "Riyad Mahrez"], nationalTeam: "algeria",
+    clubs: [spell("leicester", 2013, 2017), spell("mancity", 2018, 2022)],
+    trophies: [...won("afcon", 2019), ...won("ucl", 2023)]
+  },
+  {
+    id: "slimani", names: ["إسلام سليماني", "سليماني", "Islam Slimani"], nationalTeam: "algeria",
+    clubs: [spell("sporting", 2013, 2015), spell("leicester", 2016, 2019), spell("sporting", 2021)],
+    trophies: won("afcon", 2019)
+  },
+  {
+    id: "banega", names: ["إيفر بانيغا", "بانيغا", "Ever Banega"], nationalTeam: "argentina",
+    clubs: [spell("valencia", 2008, 2013), spell("sevilla", 2013, 2015), spell("inter", 2016), spell("sevilla", 2017, 2019)],
+    trophies: won("europa", 2014, 2015, 2020)
+  },
+  {
+    id: "jesus-navas", names: ["خيسوس نافاس", "نافاس", "Jesus Navas"], nationalTeam: "spain",
+    clubs: [spell("sevilla", 2003, 2012), spell("mancity", 2013, 2016), spell("sevilla", 2017, 2024)],
+    trophies: [...won("worldcup", 2010), ...won("euro", 2012, 2024), ...won("europa", 2006, 2007, 2020, 2023)]
+  },
+  {
+    id: "kanoute", names: ["فريدريك كانوتيه", "كانوتيه", "Frederic Kanoute"], nationalTeam: "mali",
+    clubs: [spell("tottenham", 2003, 2004), spell("sevilla", 2005, 2011)],
+    trophies: won("europa", 2006, 2007)
+  },
+  {
+    id: "rakitic", names: ["إيفان راكيتيتش", "راكيتيتش", "Ivan Rakitic"], nationalTeam: "croatia",
+    clubs: [spell("sevilla", 2010, 2013), spell("barca", 2014, 2019), spell("sevilla", 2020, 2023)],
+    trophies: [...won("ucl", 2015), ...won("europa", 2014, 2023)]
+  },
+  {
+    id: "bacca", names: ["كارلوس باكا", "باكا", "Carlos Bacca"], nationalTeam: "colombia",
+    clubs: [spell("sevilla", 2013, 2014), spell("milan", 2015, 2016), spell("villarreal", 2017, 2020)],
+    trophies: won("europa", 2014, 2015)
+  },
+  {
+    id: "ayala", names: ["روبرتو أيالا", "أيالا", "Roberto Ayala"], nationalTeam: "argentina",
+    clubs: [spell("napoli", 1995, 1997), spell("milan", 1998, 1999), spell("valencia", 2000, 2006)]
+  },
+  {
+    id: "albelda", names: ["دافيد ألبيلدا", "ألبيلدا", "David Albelda"], nationalTeam: "spain",
+    clubs: [spell("valencia", 1995, 2012)],
+    trophies: won("europa", 2004)
+  },
+  {
+    id: "baraja", names: ["روبين باراخا", "باراخا", "Ruben Baraja"], nationalTeam: "spain",
+    clubs: [spell("atletico", 1998, 1999), spell("valencia", 2000, 2009)],
+    trophies: won("europa", 2004)
+  },
+  {
+    id: "aimar", names: ["بابلو أيمار", "أيمار", "Pablo Aimar"], nationalTeam: "argentina",
+    clubs: [spell("valencia", 2000, 2005)],
+    trophies: won("europa", 2004)
+  },
+  {
+    id: "canizares", names: ["سانتياغو كانيزاريس", "كانيزاريس", "Santiago Canizares"], nationalTeam: "spain",
+    clubs: [spell("real", 1994, 1997), spell("valencia", 1998, 2007)],
+    trophies: [...won("ucl", 1998), ...won("europa", 2004)]
+  },
+  {
+    id: "vicente", names: ["فيسنتي رودريغيز", "فيسنتي", "Vicente Rodriguez"], nationalTeam: "spain",
+    clubs: [spell("valencia", 2000, 2010)],
+    trophies: won("europa", 2004)
+  },
+  {
+    id: "mista", names: ["ميستا", "Mista"], nationalTeam: "spain",
+    clubs: [spell("valencia", 2002, 2005), spell("atletico", 2006, 2007)],
+    trophies: won("europa", 2004)
+  },
+  {
+    id: "montella", names: ["فينتشنزو مونتيلا", "مونتيلا", "Vincenzo Montella"], nationalTeam: "italy",
+    clubs: [spell("roma", 1999, 2008)]
+  },
+  {
+    id: "cafu", names: ["كافو", "Cafu"], nationalTeam: "brazil",
+    clubs: [spell("roma", 1997, 2002), spell("milan", 2003, 2007)],
+    trophies: [...won("worldcup", 1994, 2002), ...won("ucl", 2007), ...won("copa", 1997, 1999)]
+  },
+  {
+    id: "walter-samuel", names: ["والتر صامويل", "صامويل", "Walter Samuel"], nationalTeam: "argentina",
+    clubs: [spell("roma", 2000, 2003), spell("real", 2004), spell("inter", 2005, 2013)],
+    trophies: won("ucl", 2010)
+  },
+  {
+    id: "emerson", names: ["إيمرسون", "Emerson"], nationalTeam: "brazil",
+    clubs: [spell("roma", 2000, 2003), spell("juventus", 2004, 2005), spell("real", 2006), spell("milan", 2007)],
+    trophies: won("copa", 1999)
+  },
+  {
+    id: "tommasi", names: ["داميانو توماسي", "توماسي", "Damiano Tommasi"], nationalTeam: "italy",
+    clubs: [spell("roma", 1996, 2005)]
+  },
+  {
+    id: "totti", names: ["فرانشيسكو توتي", "توتي", "Francesco Totti"], nationalTeam: "italy",
+    clubs: [spell("roma", 1992, 2016)],
+    trophies: won("worldcup", 2006)
+  },
+  {
+    id: "batistuta", names: ["غابرييل باتيستوتا", "باتيستوتا", "Gabriel Batistuta"], nationalTeam: "argentina",
+    clubs: [spell("roma", 2000, 2002), spell("inter", 2002)],
+    trophies: won("copa", 1991, 1993)
+  },
+  {
+    id: "honda", names: ["كيسوكي هوندا", "هوندا", "Keisuke Honda"], nationalTeam: "japan",
+    clubs: [spell("milan", 2013, 2016)]
+  },
+
+  // --- Coaches ---
+  {
+    id: "guardiola", names: ["بيب غوارديولا", "غوارديولا", "Pep Guardiola"], nationalTeam: "spain",
+    clubs: [spell("barca", 1990, 2000), spell("roma", 2002)],
+    coached: [spell("barca", 2008, 2011), spell("bayern", 2013, 2015), spell("mancity", 2016, 2025)]
+  },
+  {
+    id: "mourinho", names: ["جوزيه مورينيو", "مورينيو", "Jose Mourinho"],
+    coached: [spell("chelsea", 2004, 2007), spell("inter", 2008, 2009), spell("real", 2010, 2012), spell("chelsea", 2013, 2015), spell("manutd", 2016, 2018), spell("tottenham", 2019, 2020), spell("roma", 2021, 2023)]
+  },
+  {
+    id: "ancelotti", names: ["كارلو أنشيلوتي", "أنشيلوتي", "Carlo Ancelotti"], nationalTeam: "italy",
+    clubs: [spell("roma", 1979, 1986), spell("milan", 1987, 1991)],
+    coached: [spell("juventus", 1998, 2000), spell("milan", 2001, 2008), spell("chelsea", 2009, 2010), spell("psg", 2011, 2012), spell("real", 2013, 2014), spell("bayern", 2016, 2017), spell("napoli", 2018, 2019), spell("real", 2021, 2024)]
+  },
+  {
+    id: "simeone", names: ["دييغو سيميوني", "سيميوني", "Diego Simeone"], nationalTeam: "argentina",
+    clubs: [spell("atletico", 1994, 1996), spell("inter", 1997, 1998), spell("lazio", 1999, 2002), spell("atletico", 2003, 2004)],
+    coached: [spell("atletico", 2011, 2025)]
+  },
+  {
+    id: "klopp", names: ["يورغن كلوب", "كلوب", "Jurgen Klopp"],
+    coached: [spell("dortmund", 2008, 2014), spell("liverpool", 2015, 2023)]
+  },
+  {
+    id: "benitez", names: ["رافائيل بينيتيز", "بينيتيز", "Rafael Benitez"],
+    coached: [spell("valencia", 2001, 2003), spell("liverpool", 2004, 2009), spell("inter", 2010), spell("chelsea", 2012), spell("napoli", 2013, 2014), spell("real", 2015)]
+  },
+  {
+    id: "ferguson", names: ["أليكس فيرغسون", "فيرغسون", "Alex Ferguson"],
+    coached: [spell("manutd", 1986, 2012)]
+  },
+  {
+    id: "wenger", names: ["أرسين فينغر", "فينغر", "Arsene Wenger"],
+    coached: [spell("arsenal", 1996, 2017)]
+  }
+];
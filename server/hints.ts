@@ -0,0 +1,49 @@
+import { Challenge, ChallengeHints, HintType, Locale } from "../types";
+import { answerHints } from "./knowledgeGraph";
+
+// Cheapest clue first; the first letter comes last since it nearly gives the answer away
+export const HINT_ORDER: HintType[] = [HintType.NATIONALITY, HintType.POSITION, HintType.ERA, HintType.INITIAL];
+
+const HINT_FIELDS: Record<HintType, keyof ChallengeHints> = {
+  [HintType.NATIONALITY]: "nationality",
+  [HintType.POSITION]: "position",
+  [HintType.ERA]: "era",
+  [HintType.INITIAL]: "initial"
+};
+
+const initialOf = (answer: string): ChallengeHints["initial"] => {
+  const letters = [...answer.replace(/[\s\-.'’]/g, "")];
+  return letters.length > 0 ? { letter: letters[0].toUpperCase(), length: letters.length } : undefined;
+};
+
+/**
+ * The accepted answer the hints are about (and the right option in multiple choice):
+ * the first one the graph knows, otherwise simply the first.
+ */
+export const primaryAnswer = (challenge: Challenge, locale: Locale): string | undefined => {
+  const answers = challenge.possibleAnswers || [];
+  return answers.find(answer => answerHints(answer, locale) !== null) ?? answers[0];
+};
+
+/**
+ * Fills in the challenge's hints, all about the primary answer: from the graph when it knows
+ * the player, otherwise whatever the model said about them.
+ */
+export const attachHints = (challenge: Challenge, locale: Locale): Challenge => {
+  const subject = primaryAnswer(challenge, locale);
+  if (!subject) return challenge;
+
+  const known = answerHints(subject, locale);
+  const hints: ChallengeHints = { ...(known || challenge.hints), initial: initialOf(subject) };
+  return {
+    ...challenge,
+    hints,
+    hintTypes: HINT_ORDER.filter(type => hints[HINT_FIELDS[type]] !== undefined)
+  };
+};
+
+/** Just the one tier of hints that was asked for. */
+export const pickHint = (hints: ChallengeHints, type: HintType): ChallengeHints => {
+  const field = HINT_FIELDS[type];
+  return { [field]: hints[field] };
+};
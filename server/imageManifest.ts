@@ -0,0 +1,46 @@
+/**
+ * Known-good card images, keyed by normalized entity name (`normalizeArabic`). One spelling is
+ * enough for entities the knowledge graph knows: the resolver also tries their other names.
+ * Entities still missing are listed at GET /api/images/unresolved.
+ */
+
+// Commons serves a PNG rendering of any file at this address (following the redirect to upload.wikimedia.org)
+const commons = (file: string) =>
+  `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(file.replace(/ /g, "_"))}?width=600`;
+
+const flag = (country: string) => commons(`Flag of ${country}.svg`);
+
+export const IMAGE_MANIFEST: Record<string, string> = {
+  // National teams
+  "portugal": flag("Portugal"),
+  "argentina": flag("Argentina"),
+  "brazil": flag("Brazil"),
+  "uruguay": flag("Uruguay"),
+  "spain": flag("Spain"),
+  "france": flag("France"),
+  "germany": flag("Germany"),
+  "italy": flag("Italy"),
+  "england": flag("England"),
+  "netherlands": flag("the Netherlands"),
+  "belgium": flag("Belgium"),
+  "croatia": flag("Croatia"),
+  "sweden": flag("Sweden"),
+  "denmark": flag("Denmark"),
+  "norway": flag("Norway"),
+  "ukraine": flag("Ukraine"),
+  "belarus": flag("Belarus"),
+  "turkey": flag("Turkey"),
+  "egypt": flag("Egypt"),
+  "morocco": flag("Morocco"),
+  "algeria": flag("Algeria"),
+  "senegal": flag("Senegal"),
+  "cameroon": flag("Cameroon"),
+  "nigeria": flag("Nigeria"),
+  "ivory coast": flag("Côte d'Ivoire"),
+  "liberia": flag("Liberia"),
+  "gabon": flag("Gabon"),
+  "mali": flag("Mali"),
+  "colombia": flag("Colombia"),
+  "japan": flag("Japan"),
+  "south korea": flag("South Korea")
+};
@@ -0,0 +1,108 @@
+import { Challenge, EntityType, GameEntity, ReverseChallenge } from "../types";
+import { IMAGE_MANIFEST } from "./imageManifest";
+import { entityAliases } from "./knowledgeGraph";
+import { normalizeArabic } from "./normalize";
+
+// Only images from these hosts reach the browser
+const ALLOWED_HOSTS = ["upload.wikimedia.org", "commons.wikimedia.org"];
+const IMAGE_FILE = /\.(png|jpe?g|svg|webp|gif)$/i;
+const CHECK_TIMEOUT_MS = 3000;
+const MAX_CACHED = 1000;
+
+/** HTTPS, an allowed host, and a path naming an image file. Says nothing about whether the file exists. */
+export const isAcceptableImageUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" && ALLOWED_HOSTS.includes(url.hostname) && IMAGE_FILE.test(decodeURIComponent(url.pathname));
+  } catch {
+    return false;
+  }
+};
+
+// Whether the URL serves an image; null when it could not be reached, so the answer isn't cached
+const fetchIsImage = async (url: string): Promise<boolean | null> => {
+  try {
+    const response = await fetch(url, { method: "HEAD", signal: AbortSignal.timeout(CHECK_TIMEOUT_MS) });
+    return response.ok && (response.headers.get("content-type") || "").startsWith("image/");
+  } catch {
+    return null;
+  }
+};
+
+const remember = <K, V>(cache: Map<K, V>, key: K, value: V) => {
+  cache.set(key, value);
+  if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value as K);
+};
+
+export interface UnresolvedImage {
+  name: string;
+  type: EntityType;
+  requests: number;
+}
+
+/**
+ * Gives every served card an image the browser can load, or none (the card then shows its
+ * type's placeholder from the start instead of swapping to it mid-round). The manifest wins;
+ * otherwise a URL the model suggested is used once it has been checked, and remembered for
+ * the entity. Cards left without one are logged so the manifest can be filled in.
+ */
+export const createImageResolver = (
+  manifest: Record<string, string> = IMAGE_MANIFEST,
+  checkUrl: (url: string) => Promise<boolean | null> = fetchIsImage
+) => {
+  const known = new Map(Object.entries(manifest));
+  const learned = new Map<string, string>(); // Normalized name -> checked URL
+  const checkedUrls = new Map<string, boolean>();
+  const unresolved = new Map<string, UnresolvedImage>();
+
+  const verify = async (url: string) => {
+    if (!isAcceptableImageUrl(url)) return false;
+    const cached = checkedUrls.get(url);
+    if (cached !== undefined) return cached;
+    const isImage = await checkUrl(url);
+    if (isImage !== null) remember(checkedUrls, url, isImage);
+    return isImage === true;
+  };
+
+  const resolveEntity = async (entity: GameEntity): Promise<GameEntity> => {
+    const { imageUrl, ...card } = entity;
+    const keys = [entity.name, ...entityAliases(entity)].map(normalizeArabic);
+    const listed = keys.map(key => known.get(key) || learned.get(key)).find(Boolean);
+    if (listed) return { ...card, imageUrl: listed };
+
+    if (imageUrl && await verify(imageUrl)) {
+      keys.forEach(key => remember(learned, key, imageUrl));
+      return { ...card, imageUrl };
+    }
+
+    // Year cards are meant to show their calendar icon
+    if (entity.type !== EntityType.YEAR) {
+      const key = `${entity.type}:${keys[0]}`;
+      const entry = unresolved.get(key);
+      if (entry) {
+        entry.requests++;
+      } else {
+        console.warn(`No image for ${entity.type} "${entity.name}". Add it to server/imageManifest.ts.`);
+        remember(unresolved, key, { name: entity.name, type: entity.type, requests: 1 });
+      }
+    }
+    return card;
+  };
+
+  return {
+    resolveEntity,
+
+    async resolveChallenge<T extends Challenge>(challenge: T): Promise<T> {
+      const [cardA, cardB] = await Promise.all([resolveEntity(challenge.cardA), resolveEntity(challenge.cardB)]);
+      return { ...challenge, cardA, cardB };
+    },
+
+    async resolveReverseChallenge(challenge: ReverseChallenge): Promise<ReverseChallenge> {
+      const [player, ...grid] = await Promise.all([challenge.player, ...challenge.grid].map(resolveEntity));
+      return { ...challenge, player, grid };
+    },
+
+    /** Entities served without an image, most requested first. */
+    unresolved: (): UnresolvedImage[] => [...unresolved.values()].sort((a, b) => b.requests - a.requests)
+  };
+};
@@ -0,0 +1,362 @@
+import http from "node:http";
+import os from "node:os";
+import { AnswerStyle, BoardPeriod, ChallengeSource, Difficulty, EntityType, GameEntity, GameMode, HintType, Locale, ValidationResult, isReverseChallenge } from "../types";
+import { createLlmModel } from "./llmModel";
+import { LlmChain, LlmError, createLlmChain, DEFAULT_CHAIN_OPTIONS } from "./llm";
+import { DEFAULT_BACKENDS, createBackends } from "./llmBackends";
+import { ChallengeModel, createStubModel } from "./model";
+import { getChallengeProvider } from "./challengeProvider";
+import { createChallengeStore, toPublicChallenge, toPublicReverseChallenge } from "./challengeStore";
+import { checkReversePicks, isGridIndex, validateAnswer } from "./validation";
+import { isPlayableDateKey, serveDailyChallenges } from "./dailyChallenge";
+import { attachHints, pickHint } from "./hints";
+import { attachChoices, checkChoice } from "./choices";
+import { buildReverseChallenge } from "./knowledgeGraph";
+import { createRejectionLog } from "./modelOutput";
+import { createImageResolver } from "./imageResolver";
+import { picksAnswer, verifyRun } from "./runVerification";
+import { DEFAULT_LEADERBOARD_FILE, cleanNickname, createLeaderboard } from "./leaderboard";
+import { createRoomHub } from "./rooms";
+import { createQuizHub } from "./quizNight";
+import { attachSockets } from "./sockets";
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_RUN_BYTES = 256 * 1024; // A whole game's events
+const MAX_ANSWER_LENGTH = 100;
+const MAX_EXCLUDED_ENTITIES = 50;
+const MAX_REVEALED_CHALLENGES = 100;
+const MAX_ID_LENGTH = 64;
+const LOOPBACK = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+
+// Pick up GEMINI_API_KEY from the same .env.local the Vite app used to read
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No env file: rely on the real environment
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// The LLM backends, tried in order (LLM_BACKENDS); none with the stub model
+const createLlm = (): LlmChain | null => {
+  if (process.argv.includes("--stub") || process.env.MODEL === "stub") {
+    console.log("Using the stub model (no LLM calls will be made).");
+    return null;
+  }
+  const chain = createLlmChain(createBackends(process.env.LLM_BACKENDS || DEFAULT_BACKENDS, process.env), {
+    timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_CHAIN_OPTIONS.timeoutMs
+  });
+  console.log(`LLM backends: ${chain.name}`);
+  return chain;
+};
+
+// Behind the Vite dev server every request comes from loopback, so there the address it forwarded counts
+const clientAddress = (req: http.IncomingMessage): string => {
+  const peer = req.socket.remoteAddress || "";
+  const forwarded = req.headers["x-forwarded-for"];
+  if (!LOOPBACK.has(peer) || typeof forwarded !== "string") return peer;
+  return forwarded.split(",").pop()?.trim() || peer;
+};
+
+const readJson = (req: http.IncomingMessage, maxBytes: number = MAX_BODY_BYTES): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => {
+      body += chunk;
+      if (body.length > maxBytes) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new HttpError(400, "Invalid JSON body"));
+      }
+    });
+    req.on("error", reject);
+  });
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const sendJson = (res: http.ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(data));
+};
+
+const parseEnum = <T extends string>(values: Record<string, T>, value: unknown, fallback: T): T =>
+  Object.values(values).includes(value as T) ? (value as T) : fallback;
+
+// Chain mode sends the player just named. It goes into the model's prompts, so only a name this
+// server itself accepted as an answer will do, never whatever the browser typed in; it is always a player card
+const parseFixedCard = (value: unknown): GameEntity | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const name = typeof value === "object" ? (value as { name?: unknown }).name : undefined;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new HttpError(400, "cardA must have a name");
+  }
+  if (!store.wasAccepted(name.trim())) {
+    throw new HttpError(400, "cardA must be a player this server accepted as an answer");
+  }
+  return { name: name.trim(), type: EntityType.PLAYER };
+};
+
+const parseExcluded = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((e: unknown): e is string => typeof e === "string").slice(-MAX_EXCLUDED_ENTITIES)
+    : [];
+
+// The game a round is fetched for, or the profile a daily run is started under; without a game id a round can't be ranked
+const parseId = (value: unknown): string | undefined =>
+  typeof value === "string" && value && value.length <= MAX_ID_LENGTH ? value : undefined;
+
+// Why generated puzzles and verdicts were thrown away, reported by /api/health
+const rejections = createRejectionLog();
+const llm = createLlm();
+const model: ChallengeModel = llm ? createLlmModel(llm, rejections) : createStubModel();
+const store = createChallengeStore();
+const images = createImageResolver();
+const leaderboard = createLeaderboard(process.env.LEADERBOARD_FILE || DEFAULT_LEADERBOARD_FILE);
+// Head-to-head rounds are typed answers only, without hints: nothing to hand out mid-race
+const rooms = createRoomHub({
+  nextChallenge: async ({ difficulty, source, locale }, excludeEntities) =>
+    images.resolveChallenge(await getChallengeProvider(source, model).generateChallenge(difficulty, excludeEntities, locale)),
+  judge: (challenge, answer, locale) => validateAnswer(challenge, answer, model, locale)
+});
+// Quiz nights are judged by the host; the validator's verdict is only shown to them as a suggestion
+const quiz = createQuizHub({
+  nextChallenge: async ({ difficulty, source, locale }, excludeEntities, cardTypes) =>
+    images.resolveChallenge(await getChallengeProvider(source, model).generateChallenge(difficulty, excludeEntities, locale, undefined, cardTypes)),
+  judge: (challenge, answer, locale) => validateAnswer(challenge, answer, model, locale)
+});
+
+// This machine's addresses on the local network, for the join link shown on the projector
+const lanAddresses = () =>
+  Object.values(os.networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === "IPv4" && !address.internal)
+    .map(address => address.address);
+
+// GET handlers get the query parameters instead of a body
+const routes: Record<string, (body: Record<string, unknown>, client: string) => Promise<unknown>> = {
+  "POST /api/challenge": async (body, client) => {
+    const difficulty = parseEnum(Difficulty, body.difficulty, Difficulty.MEDIUM);
+    const source = parseEnum(ChallengeSource, body.source, ChallengeSource.AUTO);
+    const locale = parseEnum(Locale, body.locale, Locale.AR);
+    const answerStyle = parseEnum(AnswerStyle, body.answerStyle, AnswerStyle.TYPED);
+    const excludeEntities = parseExcluded(body.excludeEntities);
+
+    const fixedCardA = parseFixedCard(body.cardA);
+
+    const generated = await images.resolveChallenge(
+      await getChallengeProvider(source, model).generateChallenge(difficulty, excludeEntities, locale, fixedCardA)
+    );
+    const withHints = attachHints(generated, locale);
+    const challenge = answerStyle === AnswerStyle.MULTIPLE_CHOICE ? attachChoices(withHints, locale) : withHints;
+    store.save(challenge, { kind: "challenge", difficulty, client, gameId: parseId(body.gameId) });
+    return toPublicChallenge(challenge);
+  },
+
+  "POST /api/daily": async (body, client) => {
+    if (typeof body.date !== "string" || !isPlayableDateKey(body.date)) {
+      throw new HttpError(400, "date must be today's date as YYYY-MM-DD");
+    }
+    const locale = parseEnum(Locale, body.locale, Locale.AR);
+    // Served again on every call: only the player's first run of the date can be ranked (see runVerification.ts)
+    const challenges = await serveDailyChallenges(store, challenge => images.resolveChallenge(challenge), locale, {
+      kind: "daily",
+      date: body.date,
+      client,
+      gameId: parseId(body.gameId),
+      player: parseId(body.player)
+    });
+    return challenges.map(toPublicChallenge);
+  },
+
+  "POST /api/validate": async body => {
+    if (typeof body.challengeId !== "string" || typeof body.answer !== "string") {
+      throw new HttpError(400, "challengeId and answer are required");
+    }
+    const challenge = store.get(body.challengeId);
+    if (!challenge || isReverseChallenge(challenge)) {
+      throw new HttpError(404, "Unknown or expired challenge");
+    }
+    if (store.isRevealed(body.challengeId)) {
+      throw new HttpError(409, "Answers for this challenge were already revealed");
+    }
+    const locale = parseEnum(Locale, body.locale, Locale.AR);
+    // Recorded as the player's run will name it, for checking the run later; the clock waits from here
+    const answer = body.answer.trim();
+    store.recordSubmission(body.challengeId, answer);
+    let result: ValidationResult | null;
+    if (challenge.choices && challenge.choices.length > 0) {
+      // A multiple-choice pick is the option's text; judging it here records when it came
+      result = checkChoice(challenge, answer);
+      if (!result) throw new HttpError(400, "answer must be one of the options");
+    } else {
+      result = await validateAnswer(challenge, answer.slice(0, MAX_ANSWER_LENGTH), model, locale);
+    }
+    store.recordVerdict(body.challengeId, answer, result);
+    return result;
+  },
+
+  // Pausing stops the game clock, so the server notes when it happened for checking the run later
+  "POST /api/pause": async body => {
+    if (typeof body.challengeId !== "string" || typeof body.paused !== "boolean") {
+      throw new HttpError(400, "challengeId and paused are required");
+    }
+    if (!store.get(body.challengeId)) {
+      throw new HttpError(404, "Unknown or expired challenge");
+    }
+    store.recordPause(body.challengeId, body.paused);
+    return { ok: true };
+  },
+
+  // One hint tier at a time; the client deducts its time cost
+  "POST /api/hint": async body => {
+    const type = Object.values(HintType).find(hint => hint === body.type);
+    if (typeof body.challengeId !== "string" || !type) {
+      throw new HttpError(400, "challengeId and a valid hint type are required");
+    }
+    const challenge = store.get(body.challengeId);
+    if (!challenge || isReverseChallenge(challenge)) {
+      throw new HttpError(404, "Unknown or expired challenge");
+    }
+    if (!challenge.hints || !challenge.hintTypes?.includes(type)) {
+      throw new HttpError(404, "This hint is not available for the challenge");
+    }
+    store.recordHint(body.challengeId, type);
+    return pickHint(challenge.hints, type);
+  },
+
+  // Reverse puzzles come from the knowledge graph only: it knows every link on the grid
+  "POST /api/reverse": async (body, client) => {
+    const difficulty = parseEnum(Difficulty, body.difficulty, Difficulty.MEDIUM);
+    const locale = parseEnum(Locale, body.locale, Locale.AR);
+    const built = buildReverseChallenge(difficulty, parseExcluded(body.excludeEntities), locale);
+    if (!built) {
+      throw new HttpError(404, "No reverse puzzle left for this game");
+    }
+    const challenge = await images.resolveReverseChallenge(built);
+    store.save(challenge, { kind: "reverse", difficulty, client, gameId: parseId(body.gameId) });
+    return toPublicReverseChallenge(challenge);
+  },
+
+  // A grid is answered once: checking the picks locks it, like revealing a challenge's answers
+  "POST /api/reverse/check": async body => {
+    const picks: unknown[] = Array.isArray(body.picks) ? body.picks : [];
+    if (typeof body.challengeId !== "string" || !picks.every(pick => Number.isInteger(pick))) {
+      throw new HttpError(400, "challengeId and picks (grid indexes) are required");
+    }
+    const challenge = store.get(body.challengeId);
+    if (!challenge || !isReverseChallenge(challenge)) {
+      throw new HttpError(404, "Unknown or expired challenge");
+    }
+    if (!picks.every(pick => isGridIndex(challenge, pick as number))) {
+      throw new HttpError(400, "picks must be indexes on the puzzle's grid");
+    }
+    if (store.isRevealed(body.challengeId)) {
+      throw new HttpError(409, "This puzzle was already answered");
+    }
+    store.reveal(body.challengeId);
+    store.recordSubmission(body.challengeId, picksAnswer(picks as number[]));
+    const verdict = checkReversePicks(challenge, [...new Set(picks as number[])]);
+    store.recordVerdict(body.challengeId, picksAnswer(picks as number[]), { isValid: verdict.isValid, reason: verdict.reasons.join(" ") });
+    return verdict;
+  },
+
+  // Called after the game: hands out the accepted answers for the review screen
+  "POST /api/reveal": async body => {
+    if (!Array.isArray(body.challengeIds)) {
+      throw new HttpError(400, "challengeIds is required");
+    }
+    const answers: Record<string, string[]> = {};
+    for (const id of body.challengeIds.slice(0, MAX_REVEALED_CHALLENGES)) {
+      if (typeof id !== "string") continue;
+      const revealed = store.reveal(id);
+      if (revealed) answers[id] = revealed;
+    }
+    return answers;
+  },
+
+  // A finished game, checked against what this server served and judged before it goes on the board
+  "POST /api/leaderboard": async body => {
+    const nickname = cleanNickname(body.nickname);
+    if (!nickname) {
+      throw new HttpError(400, "nickname must be 2 to 20 letters, digits or spaces");
+    }
+    const checked = verifyRun(body.events, store);
+    if (checked.ok === false) {
+      throw new HttpError(422, `Run rejected: ${checked.problem}`);
+    }
+    store.markSubmitted(checked.run.challengeIds);
+    return leaderboard.add(checked.run, nickname);
+  },
+
+  "GET /api/leaderboard": async query => {
+    const mode = parseEnum(GameMode, query.mode, GameMode.CLASSIC);
+    const difficulty = parseEnum(Difficulty, query.difficulty, Difficulty.MEDIUM);
+    const period: BoardPeriod = query.period === "daily" ? "daily" : "all-time";
+    return leaderboard.top(mode, difficulty, period, Number(query.limit) || undefined);
+  },
+
+  // The cards served without an image, for filling in server/imageManifest.ts
+  "GET /api/images/unresolved": async () => images.unresolved(),
+
+  "GET /api/quiz/addresses": async () => lanAddresses(),
+
+  "GET /api/health": async () => ({
+    ok: true,
+    model: model.name,
+    rejectedModelOutput: rejections.summary(),
+    backends: llm?.status(),
+    rooms: rooms.size(),
+    quizzes: quiz.size()
+  })
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const path = url.pathname;
+  const route = `${req.method} ${path}`;
+  const handler = routes[route];
+  if (!handler) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  try {
+    const body = req.method === "POST"
+      ? await readJson(req, route === "POST /api/leaderboard" ? MAX_RUN_BYTES : MAX_BODY_BYTES)
+      : Object.fromEntries(url.searchParams);
+    // Handlers read fields off the body, checking each one's type; `null`, a string or an array has none
+    if (!isRecord(body)) throw new HttpError(400, "Request body must be a JSON object");
+    sendJson(res, 200, await handler(body, clientAddress(req)));
+  } catch (error: unknown) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    console.error(`${req.method} ${path} failed:`, error);
+    // Only the model backends are upstream: anything else is a bug here
+    if (error instanceof LlmError) {
+      sendJson(res, 502, { error: "Upstream model request failed" });
+    } else {
+      sendJson(res, 500, { error: "Internal server error" });
+    }
+  }
+});
+
+attachSockets(server, { "/api/rooms": rooms, "/api/quiz": quiz });
+
+server.listen(PORT, () => {
+  console.log(`Football Link Sprint API listening on http://localhost:${PORT}`);
+});
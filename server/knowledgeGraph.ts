@@ -0,0 +1,439 @@
+import { Challenge, ChallengeHints, Difficulty, EntityType, GameEntity, Locale, ReverseChallenge } from "../types";
+import { CLUBS, NATIONAL_TEAMS, NamedRecord, PEOPLE, PersonRecord, Spell, TROPHIES } from "./footballGraph";
+import { FRENCH_NAMES, displayName } from "./localizedNames";
+import { REASONS } from "./messages";
+import { ACCEPT_CONFIDENCE, AMBIGUITY_FACTOR, CERTAIN_CONFIDENCE, inAnswerScript, matchName, nameForms, otherScriptSpellings } from "./nameMatching";
+import { normalizeArabic } from "./normalize";
+import { PLAYER_POSITIONS } from "./playerPositions";
+import { shuffle } from "./shuffle";
+
+// A card resolved to the graph. `year` narrows the link to one calendar year: it comes
+// either from a YEAR card paired with this one, or from the card itself ("كأس العالم 2014").
+type GraphNode = (
+  | { kind: "club" | "nation" | "trophy"; record: NamedRecord }
+  | { kind: "player" | "coach"; record: PersonRecord }
+) & { name: string; year?: number; yearFromCard?: boolean };
+
+export interface GraphVerdict {
+  isValid: boolean;
+  reason: string;
+  matchedAnswer?: string;
+}
+
+// A record's names, with its French one when it has one
+const namesOf = (record: NamedRecord): string[] => {
+  const french = FRENCH_NAMES[record.id];
+  return french ? [...record.names, french] : record.names;
+};
+
+// Records by their normalized names, or by whatever keys `keysOf` gives each name
+const buildIndex = <T extends NamedRecord>(records: T[], keysOf: (name: string) => string[] = name => [normalizeArabic(name)]): Map<string, T[]> => {
+  const index = new Map<string, T[]>();
+  for (const record of records) {
+    for (const key of namesOf(record).flatMap(keysOf)) {
+      const bucket = index.get(key) || [];
+      if (!bucket.includes(record)) bucket.push(record);
+      index.set(key, bucket);
+    }
+  }
+  return index;
+};
+
+const clubIndex = buildIndex(CLUBS);
+const nationIndex = buildIndex(NATIONAL_TEAMS);
+const trophyIndex = buildIndex(TROPHIES);
+const PLAYERS = PEOPLE.filter(p => p.clubs && p.clubs.length > 0);
+const playerIndex = buildIndex(PLAYERS);
+// Players by every ending of their names as well ("رونالدو" for "كريستيانو رونالدو")
+const playerForms = buildIndex(PLAYERS, nameForms);
+const COACHES = PEOPLE.filter(p => p.coached && p.coached.length > 0);
+const coachIndex = buildIndex(COACHES);
+const personIndex = buildIndex(PEOPLE);
+// A first name or two beside a known surname is still a name; more is something else
+const MAX_WORDS_BESIDE_NAME = 1;
+
+const clubName = (id: string, locale: Locale) => {
+  const club = CLUBS.find(c => c.id === id);
+  return club ? displayName(club, locale) : id;
+};
+
+const lookup = <T extends NamedRecord>(index: Map<string, T[]>, name: string): T[] =>
+  index.get(normalizeArabic(name)) || [];
+
+/**
+ * The players a typed answer most likely names. An exact alias wins outright; otherwise every
+ * player is fuzzy-matched (typos, other script, surname only) and the best-scoring ones are kept.
+ * When several players fit equally well, in the answer's script or the other one ("Ronaldo",
+ * "رونالدو"), they are all kept and the confidence drops as it does for the accepted answers,
+ * below what is needed to accept or reject on the graph alone.
+ */
+const findPlayers = (answer: string): { players: PersonRecord[]; confidence: number } => {
+  let players = lookup(playerIndex, answer);
+  let confidence = players.length > 0 ? 1 : 0;
+  if (players.length === 0) {
+    for (const player of PLAYERS) {
+      const score = Math.max(0, ...inAnswerScript(answer, namesOf(player)).map(name => matchName(answer, name)?.confidence ?? 0));
+      if (score < ACCEPT_CONFIDENCE || score < confidence) continue;
+      if (score > confidence) players = [];
+      players.push(player);
+      confidence = score;
+    }
+  }
+
+  // The same rule in both scripts: whoever is spelled the same in the other one is just as likely
+  const rivals = players
+    .flatMap(player => otherScriptSpellings(answer, namesOf(player)))
+    .flatMap(form => playerForms.get(form) || []);
+  players = [...new Set([...players, ...rivals])];
+  return { players, confidence: players.length > 1 ? confidence * AMBIGUITY_FACTOR : confidence };
+};
+
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+/** Finds a four-digit year in a card name ("1999", "عام ١٩٩٩", "كأس العالم 2014"). */
+export const parseYear = (text: string): number | null => {
+  const western = text.replace(ARABIC_INDIC_DIGITS, d => String(d.charCodeAt(0) - 0x0660));
+  const match = western.match(/(?:^|\D)(1[89]\d{2}|20\d{2})(?!\d)/);
+  return match ? Number(match[1]) : null;
+};
+
+/** Maps a card to exactly one graph node, or null if the graph doesn't know it (or can't tell which one it is). */
+const resolveCard = (entity: GameEntity): GraphNode | null => {
+  const { name } = entity;
+  let matches: GraphNode[];
+  switch (entity.type) {
+    case EntityType.TEAM:
+      matches = lookup(clubIndex, name).map(record => ({ kind: "club" as const, record, name }));
+      break;
+    case EntityType.NATIONAL_TEAM:
+      matches = lookup(nationIndex, name).map(record => ({ kind: "nation" as const, record, name }));
+      break;
+    case EntityType.TROPHY: {
+      // "كأس العالم 2014" is one edition of the trophy
+      const year = parseYear(name) ?? undefined;
+      const trophyName = year ? name.replace(/[\d\u0660-\u0669]{4}/, "").trim() : name;
+      matches = lookup(trophyIndex, trophyName).map(record => ({ kind: "trophy" as const, record, name, year, yearFromCard: true }));
+      break;
+    }
+    case EntityType.PLAYER:
+      matches = lookup(playerIndex, name).map(record => ({ kind: "player" as const, record, name }));
+      break;
+    case EntityType.COACH:
+      matches = lookup(coachIndex, name).map(record => ({ kind: "coach" as const, record, name }));
+      break;
+    default:
+      matches = [];
+  }
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/**
+ * Resolves both cards to the links a correct answer must satisfy. A YEAR card isn't a node
+ * of its own: it narrows the other card to that year, so "1999 + مانشستر يونايتد" needs
+ * a player who was at United in 1999. National team caps have no dates, so those pairs stay unknown.
+ */
+const resolveCards = (cardA: GameEntity, cardB: GameEntity): GraphNode[] | null => {
+  const yearCard = [cardA, cardB].find(card => card.type === EntityType.YEAR);
+  if (!yearCard) {
+    const nodes = [resolveCard(cardA), resolveCard(cardB)];
+    return nodes[0] && nodes[1] ? (nodes as GraphNode[]) : null;
+  }
+
+  const year = parseYear(yearCard.name);
+  const other = resolveCard(yearCard === cardA ? cardB : cardA);
+  if (!year || !other || other.kind === "nation" || (other.year && other.year !== year)) return null;
+  return [{ ...other, year, yearFromCard: false }];
+};
+
+// Spell years are season starts, so the 1998-99 season (from 1998) counts for 1999 too
+const activeIn = (s: Spell, year?: number) => year === undefined || (s.from <= year && year - 1 <= s.to);
+
+const overlapping = (a: Spell[], b: Spell[], year?: number): Spell | undefined =>
+  a.find(x => b.some(y =>
+    x.team === y.team &&
+    Math.max(x.from, y.from, year === undefined ? -Infinity : year - 1) <=
+      Math.min(x.to, y.to, year === undefined ? Infinity : year)
+  ));
+
+// The year only needs spelling out when it came from a separate YEAR card
+const yearSuffix = (node: GraphNode, locale: Locale) =>
+  node.year && !node.yearFromCard ? ` ${REASONS[locale].inYear(node.year)}` : "";
+
+const nodeLabel = (node: GraphNode, locale: Locale) => `${node.name}${yearSuffix(node, locale)}`;
+
+/** Describes how the player is linked to the card, or returns null if they aren't. */
+const describeLink = (player: PersonRecord, node: GraphNode, locale: Locale): string | null => {
+  if (player.id === node.record.id) return null;
+  const reasons = REASONS[locale];
+  const clubs = player.clubs || [];
+  const when = yearSuffix(node, locale);
+
+  switch (node.kind) {
+    case "club":
+      return clubs.some(s => s.team === node.record.id && activeIn(s, node.year)) ? reasons.playedFor(node.name) + when : null;
+    case "nation":
+      return player.nationalTeam === node.record.id ? reasons.represented(node.name) : null;
+    case "trophy":
+      return (player.trophies || []).some(t => t.trophy === node.record.id && (node.year === undefined || t.year === node.year))
+        ? reasons.won(node.name) + when
+        : null;
+    case "player": {
+      const shared = overlapping(clubs, node.record.clubs || [], node.year);
+      return shared ? reasons.teammate(node.name, clubName(shared.team, locale)) + when : null;
+    }
+    case "coach": {
+      const shared = overlapping(clubs, node.record.coached || [], node.year);
+      return shared ? reasons.playedUnder(node.name, clubName(shared.team, locale)) + when : null;
+    }
+  }
+};
+
+/**
+ * Verifies that the typed player connects both cards using only local data.
+ * Returns null when the graph has no data for the player or either card,
+ * in which case the caller should fall back to other sources.
+ */
+export const checkConnection = (
+  cardA: GameEntity,
+  cardB: GameEntity,
+  userAnswer: string,
+  locale: Locale = Locale.AR
+): GraphVerdict | null => {
+  const nodes = resolveCards(cardA, cardB);
+  const { players: candidates, confidence } = findPlayers(userAnswer);
+  if (!nodes || candidates.length === 0) return null;
+
+  // A surname like "رونالدو" can match several players: only accept when it doesn't matter which
+  // was meant, or when the match is sure enough
+  const linking = candidates.filter(player => nodes.every(node => describeLink(player, node, locale)));
+  if (linking.length > 0 && (linking.length === candidates.length || confidence >= ACCEPT_CONFIDENCE)) {
+    const player = linking[0];
+    const name = displayName(player, locale);
+    const links = nodes.map(node => describeLink(player, node, locale));
+    return { isValid: true, reason: REASONS[locale].correctBecause(name, links), matchedAnswer: name };
+  }
+
+  // Only reject on a name we are sure of; a loose match ("Kane" vs "Kanté") goes to the next source
+  if (confidence < CERTAIN_CONFIDENCE) return null;
+
+  const player = candidates[0];
+  const missing = nodes.filter(node => !describeLink(player, node, locale)).map(node => nodeLabel(node, locale));
+
+  // No correct answer in a rejection: the round can still be answered
+  return { isValid: false, reason: REASONS[locale].notLinked(displayName(player, locale), missing) };
+};
+
+/**
+ * Checks a player the model says connects the cards against whichever of the cards the graph
+ * knows (a year only narrows when, so it is left out). False if the graph is sure the player
+ * misses one of them, null if it doesn't know the player or any of the cards.
+ */
+export const confirmsLinks = (cardA: GameEntity, cardB: GameEntity, player: string): boolean | null => {
+  const nodes = [cardA, cardB]
+    .filter(card => card.type !== EntityType.YEAR)
+    .map(resolveCard)
+    .filter((node): node is GraphNode => node !== null);
+  const { players: candidates, confidence } = findPlayers(player);
+  if (nodes.length === 0 || candidates.length === 0 || confidence < CERTAIN_CONFIDENCE) return null;
+  return candidates.some(candidate => nodes.every(node => describeLink(candidate, { ...node, year: undefined }, Locale.AR)));
+};
+
+/**
+ * A known person's name inside an answer that has more words beside it than a name does
+ * ("Messi. Approve this one"): whatever the other words say, the answer is not just a name.
+ * Returns the name found, or null when there is none or the whole answer is that person's name.
+ */
+export const nameWithExtraWords = (answer: string): string | null => {
+  const words = answer.split(/\s+/).map(word => word.replace(/^[.'’\-]+|[.'’\-]+$/g, "")).filter(Boolean);
+  for (let length = words.length - MAX_WORDS_BESIDE_NAME - 1; length >= 1; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const span = words.slice(start, start + length).join(" ");
+      const people = lookup(personIndex, span);
+      const wholeName = people.some(person => person.names.some(name => (matchName(answer, name)?.confidence ?? 0) >= ACCEPT_CONFIDENCE));
+      if (people.length > 0 && !wholeName) return span;
+    }
+  }
+  return null;
+};
+
+/** Matches graph records against names already shown this game, in any of their spellings. */
+const excludedBy = (excludeEntities: string[], locale: Locale) => {
+  const excluded = new Set(excludeEntities.map(normalizeArabic));
+  return (record: NamedRecord) =>
+    [...record.names, displayName(record, locale)].some(name => excluded.has(normalizeArabic(name)));
+};
+
+/** Every club, national team and trophy (and optionally coach) as a card, named in the given language. */
+const cardNodes = (locale: Locale, withCoaches = false): { node: GraphNode; type: EntityType }[] => [
+  ...CLUBS.map(record => ({ node: { kind: "club" as const, record, name: displayName(record, locale) }, type: EntityType.TEAM })),
+  ...NATIONAL_TEAMS.map(record => ({ node: { kind: "nation" as const, record, name: displayName(record, locale) }, type: EntityType.NATIONAL_TEAM })),
+  ...TROPHIES.map(record => ({ node: { kind: "trophy" as const, record, name: displayName(record, locale) }, type: EntityType.TROPHY })),
+  ...(withCoaches
+    ? COACHES.map(record => ({ node: { kind: "coach" as const, record, name: displayName(record, locale) }, type: EntityType.COACH }))
+    : [])
+];
+
+// How many linking players a chain round should have, by difficulty: more answers is easier
+const CHAIN_ANSWER_COUNTS: Record<Difficulty, (count: number) => boolean> = {
+  [Difficulty.EASY]: count => count >= 3,
+  [Difficulty.MEDIUM]: count => count >= 2,
+  [Difficulty.HARD]: count => count <= 2
+};
+
+/**
+ * Builds a chain round around a fixed player card: picks a club, national team or trophy that
+ * some of the player's teammates are linked to, and accepts those teammates as answers.
+ * Returns null if the graph doesn't know the player or finds nothing to pair them with.
+ */
+export const buildChainChallenge = (
+  cardA: GameEntity,
+  difficulty: Difficulty,
+  excludeEntities: string[],
+  locale: Locale = Locale.AR,
+  random: () => number = Math.random
+): Challenge | null => {
+  const anchor = resolveCard({ ...cardA, type: EntityType.PLAYER });
+  if (!anchor) return null;
+
+  const isExcluded = excludedBy(excludeEntities, locale);
+  const options = cardNodes(locale)
+    .filter(({ node }) => !isExcluded(node.record))
+    .map(target => ({
+      ...target,
+      answers: PLAYERS.filter(p => describeLink(p, anchor, locale) && describeLink(p, target.node, locale))
+    }))
+    .filter(option => option.answers.length > 0);
+  const suited = options.filter(option => CHAIN_ANSWER_COUNTS[difficulty](option.answers.length));
+  const pool = suited.length > 0 ? suited : options;
+  if (pool.length === 0) return null;
+
+  const { node, type, answers } = pool[Math.floor(random() * pool.length)];
+  return {
+    id: crypto.randomUUID(),
+    cardA: { ...cardA, name: displayName(anchor.record, locale), type: EntityType.PLAYER },
+    cardB: { name: node.name, type },
+    possibleAnswers: answers.map(player => displayName(player, locale))
+  };
+};
+
+// Reverse puzzles by difficulty: grid size, linked cards among them, and how many of the wrong
+// cards are near misses (linked to a teammate, not to the player) rather than random ones
+const REVERSE_LAYOUTS: Record<Difficulty, { gridSize: number; linked: number; nearMisses: number }> = {
+  [Difficulty.EASY]: { gridSize: 6, linked: 2, nearMisses: 1 },
+  [Difficulty.MEDIUM]: { gridSize: 7, linked: 3, nearMisses: 2 },
+  [Difficulty.HARD]: { gridSize: 8, linked: 3, nearMisses: 5 }
+};
+
+/**
+ * Builds a reverse puzzle: a player the graph knows well enough, a few clubs, national teams,
+ * trophies and coaches they are linked to, and wrong cards to hide them among.
+ * Returns null if no player that hasn't been shown yet has enough links.
+ */
+export const buildReverseChallenge = (
+  difficulty: Difficulty,
+  excludeEntities: string[],
+  locale: Locale = Locale.AR,
+  random: () => number = Math.random
+): ReverseChallenge | null => {
+  const layout = REVERSE_LAYOUTS[difficulty];
+  const isExcluded = excludedBy(excludeEntities, locale);
+  const cards = cardNodes(locale, true);
+
+  for (const player of shuffle(PLAYERS.filter(p => !isExcluded(p)), random)) {
+    const linked = cards.filter(card => describeLink(player, card.node, locale));
+    if (linked.length < layout.linked) continue;
+
+    const teammates = PLAYERS.filter(p => p !== player && overlapping(player.clubs || [], p.clubs || []));
+    const unlinked = cards.filter(card => !linked.includes(card) && card.node.record.id !== player.id);
+    const near = shuffle(unlinked.filter(card => teammates.some(t => describeLink(t, card.node, locale))), random)
+      .slice(0, layout.nearMisses);
+    const filler = shuffle(unlinked.filter(card => !near.includes(card)), random)
+      .slice(0, layout.gridSize - layout.linked - near.length);
+    const answers = shuffle(linked, random).slice(0, layout.linked);
+    const grid = shuffle([...answers, ...near, ...filler], random);
+
+    const name = displayName(player, locale);
+    return {
+      id: crypto.randomUUID(),
+      player: { name, type: EntityType.PLAYER },
+      grid: grid.map(({ node, type }) => ({ name: node.name, type })),
+      linkCount: answers.length,
+      possibleAnswers: answers.map(({ node }) => node.name),
+      links: grid.flatMap(({ node }, card) => answers.some(answer => answer.node === node)
+        ? [{ card, reason: REASONS[locale].linkFact(name, describeLink(player, node, locale) as string) }]
+        : [])
+    };
+  }
+  return null;
+};
+
+/**
+ * Players linked to exactly one of the two cards, named in the given language: the plausible
+ * wrong options of a multiple-choice round. Empty when the graph doesn't know both cards.
+ */
+export const nearMisses = (cardA: GameEntity, cardB: GameEntity, locale: Locale = Locale.AR): string[] => {
+  const nodes = resolveCards(cardA, cardB);
+  if (!nodes) return [];
+  // With a YEAR card, the near misses were linked to the other card, just not in that year
+  const links = nodes.length === 2 ? nodes : [{ ...nodes[0], year: undefined }, nodes[0]];
+  return PLAYERS
+    .filter(player => links.filter(node => describeLink(player, node, locale)).length === 1)
+    .map(player => displayName(player, locale));
+};
+
+/** Every player in the graph, named in the given language. */
+export const allPlayerNames = (locale: Locale = Locale.AR): string[] =>
+  PLAYERS.map(player => displayName(player, locale));
+
+/**
+ * Hint data for an accepted answer the graph knows: nationality, position and playing era
+ * (first and last season at the clubs the graph covers). Null if the name isn't exactly one player.
+ */
+export const answerHints = (answer: string, locale: Locale = Locale.AR): ChallengeHints | null => {
+  const players = lookup(playerIndex, answer);
+  if (players.length !== 1) return null;
+
+  const [player] = players;
+  const nation = NATIONAL_TEAMS.find(n => n.id === player.nationalTeam);
+  const spells = player.clubs || [];
+  return {
+    nationality: nation && displayName(nation, locale),
+    position: PLAYER_POSITIONS[player.id],
+    era: spells.length > 0
+      ? { from: Math.min(...spells.map(s => s.from)), to: Math.max(...spells.map(s => s.to)) }
+      : undefined
+  };
+};
+
+/** Every name the graph knows a card by, in any language; empty if the graph doesn't know it. */
+export const entityAliases = (entity: GameEntity): string[] => {
+  const node = entity.type === EntityType.YEAR ? null : resolveCard(entity);
+  if (!node) return [];
+  return namesOf(node.record);
+};
+
+/** Renames a card into the given language when the graph knows it; other cards are left as they are. */
+export const localizeEntity = (entity: GameEntity, locale: Locale): GameEntity => {
+  if (locale === Locale.AR || entity.type === EntityType.YEAR) return entity;
+  const node = resolveCard(entity);
+  if (!node) return entity;
+  const year = node.kind === "trophy" && node.year ? ` ${node.year}` : "";
+  return { ...entity, name: displayName(node.record, locale) + year };
+};
+
+/**
+ * Translates a bundled (Arabic) challenge: card names and the accepted answers the graph knows.
+ * Answers it doesn't know stay in Arabic rather than being dropped.
+ */
+export const localizeChallenge = (challenge: Challenge, locale: Locale): Challenge => {
+  if (locale === Locale.AR) return challenge;
+  return {
+    ...challenge,
+    cardA: localizeEntity(challenge.cardA, locale),
+    cardB: localizeEntity(challenge.cardB, locale),
+    possibleAnswers: challenge.possibleAnswers?.map(answer => {
+      const players = lookup(playerIndex, answer);
+      return players.length === 1 ? displayName(players[0], locale) : answer;
+    })
+  };
+};
@@ -0,0 +1,88 @@
+import { randomUUID } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { BoardPeriod, BoardRanks, Difficulty, GameMode, LeaderboardEntry } from "../types";
+import { todayKey } from "./dailyChallenge";
+import { VerifiedRun } from "./runVerification";
+
+export const DEFAULT_LEADERBOARD_FILE = "data/leaderboard.json";
+const MIN_NICKNAME_LENGTH = 2;
+const MAX_NICKNAME_LENGTH = 20;
+const MAX_BOARD_SIZE = 100;
+
+/** Trims a nickname and drops anything that isn't a letter, digit, mark, space or simple punctuation; null if too short or too long. */
+export const cleanNickname = (raw: unknown): string | null => {
+  if (typeof raw !== "string") return null;
+  const nickname = raw.normalize("NFC").replace(/[^\p{L}\p{M}\p{N} ._-]/gu, "").replace(/\s+/g, " ").trim();
+  return nickname.length >= MIN_NICKNAME_LENGTH && nickname.length <= MAX_NICKNAME_LENGTH ? nickname : null;
+};
+
+// Higher score first; on a tie, whoever got there first
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.submittedAt - b.submittedAt;
+
+/**
+ * Verified runs, kept in a JSON file so the server runs locally with nothing else installed.
+ * The whole board is loaded on start; each accepted run rewrites the file, one write after
+ * another, each through its own temp file so a crash never leaves half of it. Boards are per mode and difficulty; the daily
+ * run has one board per day whatever the difficulty.
+ */
+export const createLeaderboard = (file: string = DEFAULT_LEADERBOARD_FILE) => {
+  const entries: LeaderboardEntry[] = existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : [];
+  // Writes go one after another, each with every entry so far
+  let saving: Promise<void> = Promise.resolve();
+
+  const save = () => {
+    const write = saving.then(async () => {
+      await mkdir(dirname(file), { recursive: true });
+      const temp = `${file}.${randomUUID()}.tmp`;
+      await writeFile(temp, JSON.stringify(entries));
+      await rename(temp, file);
+    });
+    // A failed write doesn't stop the next one
+    saving = write.catch(() => undefined);
+    return write;
+  };
+
+  const board = (mode: GameMode, difficulty: Difficulty, period: BoardPeriod, now: number = Date.now()) =>
+    entries
+      .filter(entry =>
+        entry.mode === mode &&
+        (mode === GameMode.DAILY || entry.difficulty === difficulty) &&
+        (period === "all-time" || entry.date === todayKey(now)))
+      .sort(byRank);
+
+  return {
+    /** Adds a verified run and returns its rank (1-based) on today's board and the all-time one. */
+    async add(run: VerifiedRun, nickname: string): Promise<{ entry: LeaderboardEntry; ranks: BoardRanks }> {
+      const now = Date.now();
+      const entry: LeaderboardEntry = {
+        id: randomUUID(),
+        nickname,
+        score: run.score,
+        mode: run.mode,
+        difficulty: run.difficulty,
+        date: todayKey(now),
+        submittedAt: now,
+        rounds: run.rounds,
+        solved: run.solved
+      };
+      entries.push(entry);
+      await save();
+      return {
+        entry,
+        ranks: {
+          daily: board(entry.mode, entry.difficulty, "daily", now).indexOf(entry) + 1,
+          allTime: board(entry.mode, entry.difficulty, "all-time", now).indexOf(entry) + 1
+        }
+      };
+    },
+
+    /** The top entries of a board. */
+    top(mode: GameMode, difficulty: Difficulty, period: BoardPeriod, limit: number = MAX_BOARD_SIZE): LeaderboardEntry[] {
+      return board(mode, difficulty, period).slice(0, Math.min(Math.max(limit, 1), MAX_BOARD_SIZE));
+    }
+  };
+};
+
+export type Leaderboard = ReturnType<typeof createLeaderboard>;
@@ -0,0 +1,188 @@
+import { Locale } from "../types";
+
+// The subset of JSON Schema the prompts use; every backend accepts it for structured output
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface JsonRequest {
+  purpose: "challenge" | "verdict"; // Lets the fake backend answer without reading the prompt
+  prompt: string;
+  schema: JsonSchema;
+  temperature: number;
+  locale: Locale;
+  signal?: AbortSignal;
+}
+
+/**
+ * A language model that can be asked for JSON. The puzzle prompts (`llmModel.ts`) are written
+ * once against this; each backend only knows how to reach its server. The output is unchecked:
+ * `modelOutput.ts` decides whether it is usable.
+ */
+export interface LlmBackend {
+  name: string;
+  generateJson: (request: JsonRequest) => Promise<unknown>;
+}
+
+export type LlmFailure = "timeout" | "network" | "server" | "quota" | "client";
+
+export class LlmError extends Error {
+  constructor(public backend: string, public failure: LlmFailure, message: string) {
+    super(`${backend}: ${message}`);
+  }
+}
+
+export const failureForStatus = (status: number): LlmFailure =>
+  status === 429 ? "quota" : status >= 500 ? "server" : "client";
+
+// Timeouts, dropped connections and 5xx are worth retrying, and are what trips the circuit breaker
+const isTransient = (failure: LlmFailure) => failure === "timeout" || failure === "network" || failure === "server";
+
+export const toLlmError = (backend: string, error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+    return new LlmError(backend, "timeout", "timed out");
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") return new LlmError(backend, failureForStatus(status), message);
+  if (message.includes("429")) return new LlmError(backend, "quota", message);
+  // fetch() rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError) return new LlmError(backend, "network", message);
+  return new LlmError(backend, "server", message);
+};
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive transient failures that open the circuit
+  cooldownMs: number; // How long an open circuit skips the backend before one trial call
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Stops calling a backend that keeps timing out or failing. Closed: calls go through.
+ * Open: the backend is skipped until the cooldown ends. Half-open: a single trial call
+ * decides whether it closes again or stays open for another cooldown.
+ */
+export const createCircuitBreaker = ({ failureThreshold, cooldownMs }: CircuitBreakerOptions, now: () => number = Date.now) => {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt >= cooldownMs ? "half-open" : "open";
+  };
+
+  return {
+    state,
+
+    canCall() {
+      const current = state();
+      if (current === "closed") return true;
+      if (current === "half-open" && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    // Any answer from the server counts, even a 4xx: the breaker only tracks whether it is reachable
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      trialInFlight = false;
+      if (openedAt !== null || failures >= failureThreshold) openedAt = now();
+    }
+  };
+};
+
+export interface LlmChainOptions {
+  maxAttempts: number; // Per backend, per request
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  breaker: CircuitBreakerOptions;
+  sleep: (ms: number) => Promise<void>;
+  random: () => number;
+}
+
+export const DEFAULT_CHAIN_OPTIONS: LlmChainOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 20000,
+  breaker: { failureThreshold: 3, cooldownMs: 30000 },
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+  random: Math.random
+};
+
+/** Exponential backoff with jitter: 0.5–1× of base, 2× base, 4× base... capped at the maximum. */
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs, random }: LlmChainOptions) =>
+  Math.round(Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + random() / 2));
+
+export type LlmChain = LlmBackend & {
+  status: () => { name: string; circuit: CircuitState }[];
+};
+
+/**
+ * Tries the backends in order. Transient failures are retried on the same backend with
+ * backoff; a quota or client error, or running out of attempts, moves on to the next one.
+ * Backends whose circuit is open are skipped until their cooldown ends.
+ */
+export const createLlmChain = (backends: LlmBackend[], options: Partial<LlmChainOptions> = {}): LlmChain => {
+  if (backends.length === 0) throw new Error("The LLM chain needs at least one backend");
+  const settings = { ...DEFAULT_CHAIN_OPTIONS, ...options };
+  const links = backends.map(backend => ({ backend, breaker: createCircuitBreaker(settings.breaker) }));
+  const name = backends.map(backend => backend.name).join(" > ");
+
+  const callWithRetries = async ({ backend, breaker }: (typeof links)[number], request: JsonRequest) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const output = await backend.generateJson({ ...request, signal: AbortSignal.timeout(settings.timeoutMs) });
+        breaker.recordSuccess();
+        return output;
+      } catch (error) {
+        const failure = toLlmError(backend.name, error);
+        if (!isTransient(failure.failure)) {
+          breaker.recordSuccess();
+          throw failure;
+        }
+        breaker.recordFailure();
+        if (attempt >= settings.maxAttempts || !breaker.canCall()) throw failure;
+        const delay = backoffDelay(attempt, settings);
+        console.warn(`${failure.message}. Retrying in ${delay}ms...`);
+        await settings.sleep(delay);
+      }
+    }
+  };
+
+  return {
+    name,
+
+    generateJson: async request => {
+      let lastError: LlmError | undefined;
+      for (const link of links) {
+        if (!link.breaker.canCall()) continue;
+        try {
+          return await callWithRetries(link, request);
+        } catch (error) {
+          lastError = error as LlmError;
+          console.warn(`LLM backend ${link.backend.name} failed (${lastError.failure}). Trying the next one...`);
+        }
+      }
+      throw lastError || new LlmError(name, "server", "every backend's circuit is open");
+    },
+
+    status: () => links.map(({ backend, breaker }) => ({ name: backend.name, circuit: breaker.state() }))
+  };
+};
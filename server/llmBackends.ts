@@ -0,0 +1,148 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { LlmBackend, LlmError, LlmFailure, JsonSchema, failureForStatus } from "./llm";
+import { CHALLENGE_BANK } from "./challengeBank";
+import { localizeChallenge } from "./knowledgeGraph";
+import { REASONS } from "./messages";
+
+// The order used when LLM_BACKENDS is not set: Gemini, then its lighter model once the quota runs out
+export const DEFAULT_BACKENDS = "gemini:gemini-2.5-flash,gemini:gemini-flash-lite-latest";
+
+// Output that is not JSON comes back as null, and modelOutput.ts rejects it like any other malformed output
+const parseJsonText = (text: string | null | undefined): unknown => {
+  try {
+    return JSON.parse(text || "{}");
+  } catch {
+    return null;
+  }
+};
+
+const postJson = async (name: string, url: string, body: unknown, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<any> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok) {
+    throw new LlmError(name, failureForStatus(response.status), `HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+const toGeminiSchema = ({ type, items, properties, ...rest }: JsonSchema): Schema => ({
+  ...rest,
+  type: type.toUpperCase() as Type,
+  items: items && toGeminiSchema(items),
+  properties: properties && Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+});
+
+export const createGeminiBackend = (apiKey: string, model: string): LlmBackend => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `gemini:${model}`,
+    generateJson: async ({ prompt, schema, temperature, signal }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          temperature,
+          abortSignal: signal
+        }
+      });
+      return parseJsonText(response.text);
+    }
+  };
+};
+
+/** Any server speaking the OpenAI chat completions API: OpenAI itself, LM Studio, vLLM, llama.cpp... */
+export const createOpenAiBackend = (baseUrl: string, model: string, apiKey?: string): LlmBackend => {
+  const name = `openai:${model}`;
+
+  return {
+    name,
+    generateJson: async ({ purpose, prompt, schema, temperature, signal }) => {
+      const data = await postJson(name, `${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        model,
+        temperature,
+        messages: [{ role: "user", content: prompt }],
+        response_format: { type: "json_schema", json_schema: { name: purpose, schema } }
+      }, signal, apiKey ? { Authorization: `Bearer ${apiKey}` } : {});
+      return parseJsonText(data?.choices?.[0]?.message?.content);
+    }
+  };
+};
+
+export const createOllamaBackend = (baseUrl: string, model: string): LlmBackend => {
+  const name = `ollama:${model}`;
+
+  return {
+    name,
+    generateJson: async ({ prompt, schema, temperature, signal }) => {
+      const data = await postJson(name, `${baseUrl.replace(/\/+$/, "")}/api/chat`, {
+        model,
+        stream: false,
+        format: schema,
+        options: { temperature },
+        messages: [{ role: "user", content: prompt }]
+      }, signal);
+      return parseJsonText(data?.message?.content);
+    }
+  };
+};
+
+/**
+ * Deterministic backend for local development: walks the bundled bank in order for puzzles
+ * and rejects every answer it is asked to judge. It ignores exclusions and chain anchors.
+ * `failures` makes the first calls fail, to watch the fallback chain and the circuit breaker.
+ */
+export const createFakeBackend = (failures: LlmFailure[] = []): LlmBackend => {
+  let calls = 0;
+  let served = 0;
+
+  return {
+    name: "fake",
+    generateJson: async ({ purpose, locale }) => {
+      const failure = failures[calls++];
+      if (failure) throw new LlmError("fake", failure, `scripted ${failure} failure`);
+      if (purpose === "verdict") {
+        return { isValid: false, reason: REASONS[locale].stubRejected };
+      }
+      const puzzle = localizeChallenge(CHALLENGE_BANK[served++ % CHALLENGE_BANK.length], locale);
+      return { cardA: puzzle.cardA, cardB: puzzle.cardB, possibleSolutions: puzzle.possibleAnswers };
+    }
+  };
+};
+
+/**
+ * Builds the fallback chain from LLM_BACKENDS, e.g. "gemini:gemini-2.5-flash,ollama:llama3.1:8b,fake".
+ * Gemini needs GEMINI_API_KEY; OpenAI-compatible servers use OPENAI_BASE_URL and OPENAI_API_KEY;
+ * Ollama uses OLLAMA_URL.
+ */
+export const createBackends = (spec: string, env: NodeJS.ProcessEnv): LlmBackend[] =>
+  spec.split(",").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    // Everything after the first colon is the model: Ollama tags contain colons too
+    const [kind, ...rest] = entry.split(":");
+    const model = rest.join(":");
+    if (kind !== "fake" && !model) {
+      throw new Error(`LLM_BACKENDS entry "${entry}" needs a model, e.g. ${kind}:<model>`);
+    }
+
+    switch (kind) {
+      case "gemini":
+        if (!env.GEMINI_API_KEY) {
+          throw new Error("GEMINI_API_KEY is not set. Add it to .env.local or start with --stub.");
+        }
+        return createGeminiBackend(env.GEMINI_API_KEY, model);
+      case "openai":
+        return createOpenAiBackend(env.OPENAI_BASE_URL || "https://api.openai.com/v1", model, env.OPENAI_API_KEY);
+      case "ollama":
+        return createOllamaBackend(env.OLLAMA_URL || "http://localhost:11434", model);
+      case "fake":
+        return createFakeBackend();
+      default:
+        throw new Error(`Unknown LLM backend "${kind}" in LLM_BACKENDS (use gemini, openai, ollama or fake)`);
+    }
+  });
@@ -0,0 +1,74 @@
+import { Locale } from "../types";
+import { NamedRecord } from "./footballGraph";
+
+// Graph records list their Arabic name first and carry the English one among their aliases.
+// French only differs for countries, trophies and a handful of clubs.
+export const FRENCH_NAMES: Record<string, string> = {
+  // Clubs
+  bayern: "Bayern Munich",
+  atletico: "Atlético de Madrid",
+  sevilla: "FC Séville",
+  valencia: "Valence CF",
+  milan: "AC Milan",
+  inter: "Inter Milan",
+  roma: "AS Rome",
+  lazio: "Lazio Rome",
+
+  // National teams
+  portugal: "Portugal",
+  argentina: "Argentine",
+  brazil: "Brésil",
+  uruguay: "Uruguay",
+  spain: "Espagne",
+  france: "France",
+  germany: "Allemagne",
+  italy: "Italie",
+  england: "Angleterre",
+  netherlands: "Pays-Bas",
+  belgium: "Belgique",
+  croatia: "Croatie",
+  sweden: "Suède",
+  denmark: "Danemark",
+  norway: "Norvège",
+  ukraine: "Ukraine",
+  belarus: "Biélorussie",
+  turkey: "Turquie",
+  egypt: "Égypte",
+  morocco: "Maroc",
+  algeria: "Algérie",
+  senegal: "Sénégal",
+  cameroon: "Cameroun",
+  nigeria: "Nigeria",
+  ivorycoast: "Côte d'Ivoire",
+  liberia: "Liberia",
+  gabon: "Gabon",
+  mali: "Mali",
+  colombia: "Colombie",
+  japan: "Japon",
+  southkorea: "Corée du Sud",
+
+  // Trophies
+  ucl: "Ligue des champions",
+  worldcup: "Coupe du monde",
+  ballondor: "Ballon d'Or",
+  euro: "Championnat d'Europe",
+  copa: "Copa América",
+  europa: "Ligue Europa",
+  afcon: "Coupe d'Afrique des nations"
+};
+
+const LATIN_NAME = /^[A-Za-z]/;
+
+/** The name to show for a graph record in the given language. */
+export const displayName = (record: NamedRecord, locale: Locale): string => {
+  const english = record.names.find(name => LATIN_NAME.test(name)) || record.names[0];
+  switch (locale) {
+    case Locale.EN:
+      return english;
+    case Locale.FR:
+      return FRENCH_NAMES[record.id] || english;
+    case Locale.AR:
+    default:
+      return record.names[0];
+  }
+};
@@ -0,0 +1,81 @@
+import { Locale } from "../types";
+
+// How prompts name the language the model must answer in
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  [Locale.AR]: "ARABIC",
+  [Locale.EN]: "ENGLISH",
+  [Locale.FR]: "FRENCH"
+};
+
+export interface ReasonMessages {
+  correct: string;
+  correctMatched: (name: string) => string;
+  correctBecause: (player: string, links: string[]) => string;
+  notLinked: (player: string, missing: string[]) => string;
+  linkFact: (player: string, link: string) => string;
+  playedFor: (club: string) => string;
+  represented: (nation: string) => string;
+  won: (trophy: string) => string;
+  teammate: (player: string, club: string) => string;
+  playedUnder: (coach: string, club: string) => string;
+  inYear: (year: number) => string;
+  notAName: string;
+  unconfirmed: string;
+  incorrect: string;
+  stubRejected: string;
+}
+
+/** Verdict reasons written by the server, in every UI language. */
+export const REASONS: Record<Locale, ReasonMessages> = {
+  [Locale.AR]: {
+    correct: "إجابة صحيحة!",
+    correctMatched: name => `إجابة صحيحة! (${name})`,
+    correctBecause: (player, links) => `إجابة صحيحة! ${player} ${links.join("، و")}.`,
+    notLinked: (player, missing) => `${player} لا يرتبط بـ${missing.join(" ولا بـ")}.`,
+    linkFact: (player, link) => `${player} ${link}.`,
+    playedFor: club => `لعب في ${club}`,
+    represented: nation => `مثّل ${nation}`,
+    won: trophy => `فاز بـ${trophy}`,
+    teammate: (player, club) => `زامل ${player} في ${club}`,
+    playedUnder: (coach, club) => `لعب تحت قيادة ${coach} في ${club}`,
+    inYear: year => `عام ${year}`,
+    notAName: "اكتب اسم لاعب فقط.",
+    unconfirmed: "تعذّر التأكد من أن هذا اللاعب يربط بين البطاقتين.",
+    incorrect: "إجابة خاطئة.",
+    stubRejected: "إجابة خاطئة (نموذج تجريبي)."
+  },
+  [Locale.EN]: {
+    correct: "Correct!",
+    correctMatched: name => `Correct! (${name})`,
+    correctBecause: (player, links) => `Correct! ${player} ${links.join(", and ")}.`,
+    notLinked: (player, missing) => `${player} isn't linked to ${missing.join(" or ")}.`,
+    linkFact: (player, link) => `${player} ${link}.`,
+    playedFor: club => `played for ${club}`,
+    represented: nation => `represented ${nation}`,
+    won: trophy => `won the ${trophy}`,
+    teammate: (player, club) => `was a teammate of ${player} at ${club}`,
+    playedUnder: (coach, club) => `played under ${coach} at ${club}`,
+    inYear: year => `in ${year}`,
+    notAName: "Type a player's name only.",
+    unconfirmed: "Couldn't confirm that this player links both cards.",
+    incorrect: "Wrong answer.",
+    stubRejected: "Wrong answer (stub model)."
+  },
+  [Locale.FR]: {
+    correct: "Bonne réponse !",
+    correctMatched: name => `Bonne réponse ! (${name})`,
+    correctBecause: (player, links) => `Bonne réponse ! ${player} ${links.join(", et ")}.`,
+    notLinked: (player, missing) => `${player} n'a aucun lien avec ${missing.join(" ni avec ")}.`,
+    linkFact: (player, link) => `${player} ${link}.`,
+    playedFor: club => `a joué pour ${club}`,
+    represented: nation => `a représenté la sélection « ${nation} »`,
+    won: trophy => `a remporté « ${trophy} »`,
+    teammate: (player, club) => `a été coéquipier de ${player} à ${club}`,
+    playedUnder: (coach, club) => `a joué sous les ordres de ${coach} à ${club}`,
+    inYear: year => `en ${year}`,
+    notAName: "Tapez seulement le nom d'un joueur.",
+    unconfirmed: "Impossible de confirmer que ce joueur relie les deux cartes.",
+    incorrect: "Mauvaise réponse.",
+    stubRejected: "Mauvaise réponse (modèle de test)."
+  }
+};
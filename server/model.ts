@@ -0,0 +1,57 @@
+import { Challenge, Difficulty, EntityType, GameEntity, Locale, ValidationResult, hasCardOfType } from "../types";
+import { CHALLENGE_BANK } from "./challengeBank";
+import { buildChainChallenge, localizeChallenge } from "./knowledgeGraph";
+import { REASONS } from "./messages";
+
+/**
+ * The AI side of the game: invents puzzles and judges answers the local
+ * answer list could not confirm. Lives on the server only, next to the API key.
+ */
+export interface ChallengeModel {
+  name: string;
+  generateChallenge: (difficulty: Difficulty, excludeEntities: string[], locale: Locale, fixedCardA?: GameEntity, cardTypes?: EntityType[]) => Promise<Challenge>;
+  // `userAnswer` has already been through sanitizeAnswer (`answerInput.ts`)
+  judgeAnswer: (cardA: GameEntity, cardB: GameEntity, userAnswer: string, locale: Locale) => Promise<ValidationResult>;
+}
+
+/**
+ * Deterministic stand-in for the real model, used for local development (`npm run server:stub`).
+ * Walks the bundled bank in order (chain rounds come from the knowledge graph) and never
+ * accepts an answer it could not match locally.
+ */
+export const createStubModel = (): ChallengeModel => {
+  let cursor = 0;
+
+  return {
+    name: "stub",
+    generateChallenge: async (difficulty, excludeEntities, locale, fixedCardA, cardTypes) => {
+      if (fixedCardA) {
+        const chained = buildChainChallenge(fixedCardA, difficulty, excludeEntities, locale, () => 0);
+        if (!chained) throw new Error(`No chain puzzle can be built around ${fixedCardA.name}`);
+        return chained;
+      }
+
+      const excluded = new Set(excludeEntities);
+      // Some themes have no puzzle at every level; the theme wins over the difficulty
+      const themed = CHALLENGE_BANK.filter(c => hasCardOfType(c, cardTypes));
+      const sameLevel = themed.filter(c => c.difficulty === difficulty);
+      const pool = (sameLevel.length > 0 ? sameLevel : themed)
+        .map(c => ({ ...localizeChallenge(c, locale), difficulty: c.difficulty }));
+      const fresh = pool.filter(c => !excluded.has(c.cardA.name) && !excluded.has(c.cardB.name));
+      const list = fresh.length > 0 ? fresh : pool;
+      const { difficulty: _level, ...picked } = list[cursor++ % list.length];
+
+      return {
+        ...picked,
+        id: crypto.randomUUID(),
+        cardA: { ...picked.cardA },
+        cardB: { ...picked.cardB },
+        possibleAnswers: [...(picked.possibleAnswers || [])]
+      };
+    },
+    judgeAnswer: async (_cardA, _cardB, _userAnswer, locale) => ({
+      isValid: false,
+      reason: REASONS[locale].stubRejected
+    })
+  };
+};
@@ -0,0 +1,259 @@
+import { Challenge, ChallengeHints, EntityType, GameEntity, PlayerPosition, ValidationResult, hasCardOfType } from "../types";
+import { confirmsLinks, nameWithExtraWords, parseYear } from "./knowledgeGraph";
+import { ACCEPT_CONFIDENCE, CERTAIN_CONFIDENCE, matchName } from "./nameMatching";
+
+// Why a piece of model output was thrown away
+export type RejectionReason =
+  | "malformed" // Not an object, or a required field is missing or has the wrong type
+  | "unknown-type" // A card type outside EntityType
+  | "year-card-without-year"
+  | "no-answers"
+  | "same-entity" // Both cards name the same thing
+  | "off-theme" // Neither card is of a kind the puzzle was asked for
+  | "answer-on-card" // An accepted answer is one of the cards
+  | "answer-mismatch" // A verdict accepts a different player from the one typed
+  | "answer-not-a-name" // An accepted answer is a known player's name with other words beside it
+  | "unlinked-answer"; // The knowledge graph knows the accepted player misses one of the cards
+
+export interface Rejection {
+  reason: RejectionReason;
+  detail: string;
+}
+
+// Either the checked (and possibly repaired) value, or everything that was wrong with it
+export type Checked<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; rejections: Rejection[] };
+
+const MAX_NAME_LENGTH = 80;
+const MAX_ANSWERS = 10;
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const text = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const isHttpsUrl = (value: string) => {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/** Whether two names are the same entity or player: spelled alike, or the same full name in another script. */
+const sameName = (a: string, b: string) => {
+  const match = matchName(a, b);
+  return !!match && match.kind !== "partial" && match.confidence >= CERTAIN_CONFIDENCE;
+};
+
+// "national team" or "Team" are repaired to the enum value; anything else is rejected
+const checkType = (value: unknown): EntityType | null => {
+  const type = text(value)?.toUpperCase().replace(/[\s-]+/g, "_");
+  return type && (Object.values(EntityType) as string[]).includes(type) ? (type as EntityType) : null;
+};
+
+const checkCard = (value: unknown, label: string, rejections: Rejection[], repairs: string[]): GameEntity | null => {
+  if (!isRecord(value)) {
+    rejections.push({ reason: "malformed", detail: `${label} is missing` });
+    return null;
+  }
+  const name = text(value.name);
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    rejections.push({ reason: "malformed", detail: `${label} has no usable name` });
+    return null;
+  }
+  const type = checkType(value.type);
+  if (!type) {
+    rejections.push({ reason: "unknown-type", detail: `${label} has type ${JSON.stringify(value.type)}` });
+    return null;
+  }
+  if (type !== value.type) repairs.push(`${label} type ${JSON.stringify(value.type)} read as ${type}`);
+  if (type === EntityType.YEAR && parseYear(name) === null) {
+    rejections.push({ reason: "year-card-without-year", detail: `${label} is "${name}"` });
+    return null;
+  }
+
+  // Cosmetic fields are dropped rather than rejected: the card has fallbacks for both
+  const card: GameEntity = { name, type };
+  const imageUrl = text(value.imageUrl);
+  if (imageUrl && isHttpsUrl(imageUrl)) card.imageUrl = imageUrl;
+  else if (value.imageUrl !== undefined) repairs.push(`${label} image URL dropped`);
+  const color = text(value.color);
+  if (color && HEX_COLOR.test(color)) card.color = color;
+  else if (value.color !== undefined) repairs.push(`${label} color ${JSON.stringify(value.color)} dropped`);
+  return card;
+};
+
+/** Trimmed, non-empty, without duplicates (compared the way answers are matched). */
+const checkNames = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  const names: string[] = [];
+  for (const item of value) {
+    const name = text(item);
+    if (name && name.length <= MAX_NAME_LENGTH && !names.some(other => sameName(name, other))) names.push(name);
+  }
+  return names.slice(0, MAX_ANSWERS);
+};
+
+const checkHints = (value: unknown): ChallengeHints => {
+  if (!isRecord(value)) return {};
+  const { careerStart, careerEnd } = value;
+  const era = Number.isInteger(careerStart) && Number.isInteger(careerEnd) && (careerStart as number) <= (careerEnd as number)
+    ? { from: careerStart as number, to: careerEnd as number }
+    : undefined;
+  return {
+    nationality: text(value.nationality) || undefined,
+    position: (Object.values(PlayerPosition) as unknown[]).includes(value.position) ? (value.position as PlayerPosition) : undefined,
+    era
+  };
+};
+
+/**
+ * Checks a generated puzzle before it can reach a player. Broken cosmetic fields are repaired;
+ * missing cards, unknown types, no answers, a puzzle whose cards are the same entity, or an
+ * answer that is one of the cards reject it, as does a puzzle without a card of the kinds asked
+ * for (`cardTypes`). In chain mode card A is the fixed player.
+ */
+export const checkGeneratedChallenge = (data: unknown, fixedCardA?: GameEntity, cardTypes: EntityType[] = []): Checked<Omit<Challenge, "id">> => {
+  const rejections: Rejection[] = [];
+  const repairs: string[] = [];
+  if (!isRecord(data)) {
+    return { ok: false, rejections: [{ reason: "malformed", detail: "output is not an object" }] };
+  }
+
+  let cardA: GameEntity | null;
+  if (fixedCardA) {
+    // Only the model's image and color are used, and only where the fixed card has none
+    const generated = checkCard({ ...(isRecord(data.cardA) ? data.cardA : {}), name: fixedCardA.name, type: fixedCardA.type }, "cardA", [], []);
+    cardA = { ...fixedCardA, imageUrl: fixedCardA.imageUrl || generated?.imageUrl, color: fixedCardA.color || generated?.color };
+  } else {
+    cardA = checkCard(data.cardA, "cardA", rejections, repairs);
+  }
+  const cardB = checkCard(data.cardB, "cardB", rejections, repairs);
+  const possibleAnswers = checkNames(data.possibleSolutions);
+  if (possibleAnswers.length === 0) {
+    rejections.push({ reason: "no-answers", detail: "possibleSolutions is empty" });
+  }
+
+  if (cardA && cardB) {
+    if (sameName(cardA.name, cardB.name)) {
+      rejections.push({ reason: "same-entity", detail: `both cards are "${cardA.name}"` });
+    }
+    const onCard = possibleAnswers.find(answer => sameName(answer, cardA.name) || sameName(answer, cardB.name));
+    if (onCard) {
+      rejections.push({ reason: "answer-on-card", detail: `"${onCard}" is one of the cards` });
+    }
+    if (!hasCardOfType({ cardA, cardB }, cardTypes)) {
+      rejections.push({ reason: "off-theme", detail: `neither card is a ${cardTypes.join(" or ")}` });
+    }
+  }
+
+  if (rejections.length > 0 || !cardA || !cardB) return { ok: false, rejections };
+
+  const distractors = checkNames(data.distractors).filter(name => !possibleAnswers.some(answer => sameName(name, answer)));
+  return {
+    ok: true,
+    repairs,
+    value: {
+      cardA,
+      cardB,
+      possibleAnswers,
+      distractors: distractors.length > 0 ? distractors : undefined,
+      hints: checkHints(data.hints)
+    }
+  };
+};
+
+// A verdict as the model gave it: the player it took the answer for and, if accepted, how they link to each card
+export interface ModelVerdict extends ValidationResult {
+  player: string | null;
+  links: string[];
+}
+
+/** Checks the model's verdict on an answer: a boolean and a reason, and for an accepted answer the player and both links. */
+export const checkVerdict = (data: unknown): Checked<ModelVerdict> => {
+  if (!isRecord(data) || typeof data.isValid !== "boolean" || !text(data.reason)) {
+    return { ok: false, rejections: [{ reason: "malformed", detail: "verdict needs isValid (boolean) and a reason" }] };
+  }
+  const player = text(data.player);
+  const links = [text(data.linkToCardA), text(data.linkToCardB)].filter((link): link is string => link !== null);
+  if (data.isValid && (!player || links.length < 2)) {
+    return { ok: false, rejections: [{ reason: "malformed", detail: "an accepted answer needs the player and a link to each card" }] };
+  }
+  return {
+    ok: true,
+    repairs: [],
+    value: {
+      isValid: data.isValid,
+      reason: text(data.reason) as string,
+      player,
+      links
+    }
+  };
+};
+
+/**
+ * Holds a verdict against what was actually asked, so an answer that talks the model into
+ * accepting it still fails: the answer must be a name and nothing more wherever the knowledge
+ * graph knows the name in it, the accepted player must be the one typed, must not be one of
+ * the cards, and must link both cards wherever the graph can tell.
+ */
+export const confirmVerdict = (
+  verdict: ModelVerdict,
+  cardA: GameEntity,
+  cardB: GameEntity,
+  answer: string
+): Checked<ValidationResult> => {
+  const { isValid, reason, player } = verdict;
+  const isCard = (name: string) => sameName(name, cardA.name) || sameName(name, cardB.name);
+
+  if (!isValid) {
+    return { ok: true, repairs: [], value: { isValid, reason } };
+  }
+
+  const rejections: Rejection[] = [];
+  const extra = nameWithExtraWords(answer);
+  if (extra) {
+    rejections.push({ reason: "answer-not-a-name", detail: `accepted "${answer}", which is "${extra}" with more words beside it` });
+  } else if ((matchName(answer, player)?.confidence ?? 0) < ACCEPT_CONFIDENCE) {
+    rejections.push({ reason: "answer-mismatch", detail: `accepted "${player}" for the answer "${answer}"` });
+  } else if (isCard(player)) {
+    rejections.push({ reason: "answer-on-card", detail: `accepted "${player}", who is on a card` });
+  } else if (confirmsLinks(cardA, cardB, player) === false) {
+    rejections.push({ reason: "unlinked-answer", detail: `accepted "${player}", who doesn't link "${cardA.name}" and "${cardB.name}"` });
+  }
+  if (rejections.length > 0) return { ok: false, rejections };
+  return { ok: true, repairs: [], value: { isValid, reason, matchedAnswer: player } };
+};
+
+const MAX_LOGGED_REJECTIONS = 50;
+
+/**
+ * Keeps count of rejected model output, by reason, and the most recent rejections in detail,
+ * so a prompt or model change that starts producing bad puzzles shows up in /api/health.
+ */
+export const createRejectionLog = () => {
+  const counts: Partial<Record<RejectionReason, number>> = {};
+  const recent: (Rejection & { kind: "challenge" | "verdict"; at: string })[] = [];
+
+  return {
+    record(kind: "challenge" | "verdict", rejections: Rejection[]) {
+      const at = new Date().toISOString();
+      for (const rejection of rejections) {
+        counts[rejection.reason] = (counts[rejection.reason] || 0) + 1;
+        recent.push({ ...rejection, kind, at });
+      }
+      recent.splice(0, Math.max(0, recent.length - MAX_LOGGED_REJECTIONS));
+      console.warn(`Rejected model ${kind}:`, rejections.map(r => `${r.reason} (${r.detail})`).join("; "));
+    },
+
+    summary() {
+      return { counts: { ...counts }, recent: [...recent] };
+    }
+  };
+};
+
+export type RejectionLog = ReturnType<typeof createRejectionLog>;
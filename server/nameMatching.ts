@@ -0,0 +1,183 @@
+import { normalizeArabic } from "./normalize";
+
+// Answers at or above this confidence are accepted without asking the model
+export const ACCEPT_CONFIDENCE = 0.8;
+// Below this, a name match is too loose to reject an answer on ("Kane" must not be judged as "Kanté")
+export const CERTAIN_CONFIDENCE = 0.95;
+
+// A surname alone ("زيدان" for "زين الدين زيدان") is slightly weaker than the full name, and any
+// inexact answer is much weaker when another known player fits it as well ("رونالدو", "Kane")
+const PARTIAL_FACTOR = 0.95;
+export const AMBIGUITY_FACTOR = 0.75;
+
+export type NameMatchKind = "exact" | "fuzzy" | "transliterated" | "partial";
+
+export interface NameMatch {
+  name: string;
+  confidence: number;
+  kind: NameMatchKind;
+}
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+// Across scripts only consonants are compared; with fewer, too many names share them ("ms": Messi, Moses, Amos)
+const MIN_CROSS_SCRIPT_SKELETON = 3;
+
+// Arabic and Latin letters folded onto one rough consonant alphabet. Vowels (and the
+// long-vowel letters ا و ي) are dropped, since Arabic spellings of foreign names rarely agree on them.
+const ARABIC_SOUNDS: Record<string, string> = {
+  "ب": "b", "پ": "b", "ت": "t", "ث": "t", "ط": "t", "ج": "g", "غ": "g", "گ": "g",
+  "ح": "h", "ه": "h", "خ": "k", "ق": "k", "ك": "k", "د": "d", "ذ": "d", "ض": "d",
+  "ر": "r", "ز": "z", "ظ": "z", "س": "s", "ص": "s", "ش": "s", "ف": "f", "ڤ": "f",
+  "ل": "l", "م": "m", "ن": "n"
+};
+
+const LATIN_CLUSTERS: [RegExp, string][] = [
+  [/sch|sh|ch/g, "s"],
+  [/ph/g, "f"],
+  [/th/g, "t"],
+  [/kh|ck|qu/g, "k"],
+  [/nh/g, "n"],
+  [/lh/g, "l"],
+  [/gh/g, "g"],
+  [/c(?=[eiy])/g, "s"],
+  [/x/g, "ks"]
+];
+
+const LATIN_SOUNDS: Record<string, string> = {
+  b: "b", p: "b", t: "t", d: "d", g: "g", j: "g", h: "h", k: "k", q: "k", c: "k",
+  r: "r", z: "z", s: "s", f: "f", v: "f", l: "l", m: "m", n: "n"
+};
+
+/** Reduces a (normalized) name in either script to its consonant skeleton: "Messi" and "ميسي" both give "ms". */
+export const phoneticSkeleton = (text: string): string => {
+  let letters: string[];
+  if (ARABIC_SCRIPT.test(text)) {
+    // A word-final ه is usually a ta marbuta, i.e. a vowel ("خضيرة" -> Khedira)
+    letters = [...text.replace(/ه(?=\s|$)/g, "")].map(ch => ARABIC_SOUNDS[ch] || "");
+  } else {
+    const clustered = LATIN_CLUSTERS.reduce((acc, [pattern, sound]) => acc.replace(pattern, sound), text);
+    letters = [...clustered].map(ch => LATIN_SOUNDS[ch] || "");
+  }
+  // Doubled letters collapse ("Messi" -> "ms"), as Arabic rarely writes them twice
+  return letters.join("").replace(/(.)\1+/g, "$1");
+};
+
+export const editDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Longer names can absorb more typos; very short ones must be exact
+const allowedEdits = (length: number) => (length <= 3 ? 0 : length <= 5 ? 1 : length <= 9 ? 2 : 3);
+const allowedSkeletonEdits = (length: number) => (length <= 2 ? 0 : length <= 4 ? 1 : 2);
+
+/** Confidence that two single normalized strings name the same thing, or 0. */
+const compareStrings = (a: string, b: string): { confidence: number; kind: NameMatchKind } => {
+  if (a === b) return { confidence: 1, kind: "exact" };
+
+  if (ARABIC_SCRIPT.test(a) === ARABIC_SCRIPT.test(b)) {
+    const edits = editDistance(a, b);
+    return edits <= allowedEdits(Math.max(a.length, b.length))
+      ? { confidence: 0.95 - 0.1 * edits, kind: "fuzzy" }
+      : { confidence: 0, kind: "fuzzy" };
+  }
+
+  const skeletonA = phoneticSkeleton(a);
+  const skeletonB = phoneticSkeleton(b);
+  if (Math.min(skeletonA.length, skeletonB.length) < MIN_CROSS_SCRIPT_SKELETON) return { confidence: 0, kind: "transliterated" };
+  const edits = editDistance(skeletonA, skeletonB);
+  return edits <= allowedSkeletonEdits(Math.max(skeletonA.length, skeletonB.length))
+    ? { confidence: 0.9 - 0.15 * edits, kind: "transliterated" }
+    : { confidence: 0, kind: "transliterated" };
+};
+
+// Each word loses its own "ال", not just the first one ("زين الدين" -> "زين", "دين")
+const tokenize = (normalized: string) =>
+  normalized.split(/[\s\-]+/).map(token => token.replace(/^ال(?=..)/, "")).filter(Boolean);
+
+/**
+ * How confident we are that `answer` refers to `name`. Handles Latin/Arabic transliteration,
+ * typos (scaled by length) and answers that give only the end of the name: the surname, never a
+ * first name ("Lionel", "محمد"). Other short forms have to be listed as names of their own.
+ * Returns null when they don't match at all.
+ */
+export const matchName = (answer: string, name: string): NameMatch | null => {
+  const a = normalizeArabic(answer);
+  const n = normalizeArabic(name);
+  if (!a || !n) return null;
+
+  let best = compareStrings(a, n);
+
+  const answerTokens = tokenize(a);
+  const nameTokens = tokenize(n);
+  if (answerTokens.length < nameTokens.length) {
+    // The answer's words have to match the last words of the name, in order
+    const surname = nameTokens.slice(nameTokens.length - answerTokens.length);
+    const perToken = answerTokens.map((token, i) => compareStrings(token, surname[i]).confidence);
+    const partial = Math.min(...perToken) * PARTIAL_FACTOR;
+    if (partial > best.confidence) best = { confidence: partial, kind: "partial" };
+  }
+
+  return best.confidence > 0 ? { name, confidence: best.confidence, kind: best.kind } : null;
+};
+
+/**
+ * The names worth comparing `answer` with: those in its own script when there are any, since a
+ * consonant outline is a much looser match than the spelling ("Moses" is not "ميسي" when "Messi" is listed).
+ */
+export const inAnswerScript = (answer: string, names: string[]): string[] => {
+  const own = names.filter(name => ARABIC_SCRIPT.test(name) === ARABIC_SCRIPT.test(answer));
+  return own.length > 0 ? own : names;
+};
+
+/** A name and its endings, normalized ("كريستيانو رونالدو", "رونالدو"): the forms an answer can give it in. */
+export const nameForms = (name: string): string[] => {
+  const tokens = tokenize(normalizeArabic(name));
+  return tokens.map((_, i) => tokens.slice(i).join(" "));
+};
+
+/**
+ * The forms of `names` in the script the answer is not in that the answer fits. Another person with
+ * one of these forms is spelled the same there, so a surname two players share is ambiguous whichever
+ * script it is typed in, even when only one of them is listed under it in that script ("Ronaldo" /
+ * "رونالدو"), while names that only sound alike there ("Iniesta" / "نيستا") are not.
+ */
+export const otherScriptSpellings = (answer: string, names: string[]): string[] =>
+  names
+    .filter(name => ARABIC_SCRIPT.test(name) !== ARABIC_SCRIPT.test(answer))
+    .flatMap(nameForms)
+    .filter(form => matchName(answer, form) !== null);
+
+/**
+ * The best match for `answer` among `names`. `otherPeople` lists the name variants of known players:
+ * if the answer fits one who is not among `names` just as well (a shared surname, or a typo that is
+ * really someone else's name), or is spelled like them in the other script, the confidence drops
+ * below the acceptance threshold.
+ */
+export const bestNameMatch = (answer: string, names: string[], otherPeople: string[][] = []): NameMatch | null => {
+  const best = inAnswerScript(answer, names)
+    .map(name => matchName(answer, name))
+    .filter((match): match is NameMatch => match !== null)
+    .sort((x, y) => y.confidence - x.confidence)[0];
+  if (!best || best.kind === "exact") return best || null;
+
+  // The listed answers' other names count as theirs, so their spelling in the other script is known
+  const listed = new Set(names.map(normalizeArabic));
+  const listedPeople = otherPeople.filter(person => person.some(variant => listed.has(normalizeArabic(variant))));
+  const ownNames = [...names, ...listedPeople.flat()];
+  const spellings = new Set(otherScriptSpellings(answer, ownNames));
+  const ambiguous = otherPeople.some(person =>
+    !listedPeople.includes(person) &&
+    (inAnswerScript(answer, person).some(variant => (matchName(answer, variant)?.confidence ?? 0) >= best.confidence) ||
+      person.flatMap(nameForms).some(form => spellings.has(form)))
+  );
+  return ambiguous ? { ...best, confidence: best.confidence * AMBIGUITY_FACTOR } : best;
+};
@@ -0,0 +1,19 @@
+/**
+ * Folds the spelling variants that commonly differ between what players type and
+ * what the model/bank wrote: alef/ta-marbuta/ya forms, diacritics, and a leading "ال".
+ * Latin names lose their case and accents, so "Mbappé" matches "mbappe".
+ */
+export const normalizeArabic = (text: string): string => {
+  if (!text) return "";
+  return text
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .replace(/[أإآ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .replace(/[\u064B-\u065F]/g, '')
+    .replace(/^(ال)/, '');
+};
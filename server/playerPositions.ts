@@ -0,0 +1,133 @@
+import { PlayerPosition } from "../types";
+
+const { GOALKEEPER, DEFENDER, MIDFIELDER, FORWARD } = PlayerPosition;
+
+// The position each player in PEOPLE is best known for, keyed by record id (used for hints).
+// Wingers count as forwards unless they made their name in midfield.
+export const PLAYER_POSITIONS: Record<string, PlayerPosition> = {
+  // Goalkeepers
+  onana: GOALKEEPER,
+  alisson: GOALKEEPER,
+  "julio-cesar": GOALKEEPER,
+  courtois: GOALKEEPER,
+  neuer: GOALKEEPER,
+  canizares: GOALKEEPER,
+
+  // Defenders
+  "jordi-alba": DEFENDER,
+  pique: DEFENDER,
+  puyol: DEFENDER,
+  "dani-alves": DEFENDER,
+  "van-dijk": DEFENDER,
+  varane: DEFENDER,
+  zanetti: DEFENDER,
+  lucio: DEFENDER,
+  materazzi: DEFENDER,
+  rudiger: DEFENDER,
+  "van-bronckhorst": DEFENDER,
+  molina: DEFENDER,
+  lahm: DEFENDER,
+  boateng: DEFENDER,
+  pavard: DEFENDER,
+  "lucas-hernandez": DEFENDER,
+  maldini: DEFENDER,
+  nesta: DEFENDER,
+  hakimi: DEFENDER,
+  "gabriel-paulista": DEFENDER,
+  "alexander-arnold": DEFENDER,
+  ayala: DEFENDER,
+  cafu: DEFENDER,
+  "walter-samuel": DEFENDER,
+
+  // Midfielders
+  iniesta: MIDFIELDER,
+  xavi: MIDFIELDER,
+  busquets: MIDFIELDER,
+  "yaya-toure": MIDFIELDER,
+  sneijder: MIDFIELDER,
+  eriksen: MIDFIELDER,
+  gerrard: MIDFIELDER,
+  henderson: MIDFIELDER,
+  kaka: MIDFIELDER,
+  gullit: MIDFIELDER,
+  "de-bruyne": MIDFIELDER,
+  rodri: MIDFIELDER,
+  "bernardo-silva": MIDFIELDER,
+  casemiro: MIDFIELDER,
+  "di-maria": MIDFIELDER,
+  beckham: MIDFIELDER,
+  zidane: MIDFIELDER,
+  tchouameni: MIDFIELDER,
+  camavinga: MIDFIELDER,
+  makelele: MIDFIELDER,
+  kovacic: MIDFIELDER,
+  fabregas: MIDFIELDER,
+  hleb: MIDFIELDER,
+  petit: MIDFIELDER,
+  "alex-song": MIDFIELDER,
+  "de-paul": MIDFIELDER,
+  muller: MIDFIELDER,
+  schweinsteiger: MIDFIELDER,
+  gotze: MIDFIELDER,
+  pirlo: MIDFIELDER,
+  seedorf: MIDFIELDER,
+  gattuso: MIDFIELDER,
+  "park-ji-sung": MIDFIELDER,
+  coutinho: MIDFIELDER,
+  mascherano: MIDFIELDER,
+  cazorla: MIDFIELDER,
+  pires: MIDFIELDER,
+  "nuri-sahin": MIDFIELDER,
+  banega: MIDFIELDER,
+  "jesus-navas": MIDFIELDER,
+  rakitic: MIDFIELDER,
+  albelda: MIDFIELDER,
+  baraja: MIDFIELDER,
+  aimar: MIDFIELDER,
+  vicente: MIDFIELDER,
+  emerson: MIDFIELDER,
+  tommasi: MIDFIELDER,
+  honda: MIDFIELDER,
+  guardiola: MIDFIELDER,
+  ancelotti: MIDFIELDER,
+  simeone: MIDFIELDER,
+
+  // Forwards
+  "cristiano-ronaldo": FORWARD,
+  "ronaldo-nazario": FORWARD,
+  messi: FORWARD,
+  neymar: FORWARD,
+  ronaldinho: FORWARD,
+  suarez: FORWARD,
+  henry: FORWARD,
+  zlatan: FORWARD,
+  kanu: FORWARD,
+  salah: FORWARD,
+  mane: FORWARD,
+  shevchenko: FORWARD,
+  weah: FORWARD,
+  "van-basten": FORWARD,
+  haaland: FORWARD,
+  sterling: FORWARD,
+  "van-nistelrooy": FORWARD,
+  benzema: FORWARD,
+  mbappe: FORWARD,
+  etoo: FORWARD,
+  milito: FORWARD,
+  hazard: FORWARD,
+  robben: FORWARD,
+  overmars: FORWARD,
+  aubameyang: FORWARD,
+  correa: FORWARD,
+  "julian-alvarez": FORWARD,
+  klose: FORWARD,
+  inzaghi: FORWARD,
+  mahrez: FORWARD,
+  slimani: FORWARD,
+  kanoute: FORWARD,
+  bacca: FORWARD,
+  mista: FORWARD,
+  montella: FORWARD,
+  totti: FORWARD,
+  batistuta: FORWARD
+};
@@ -0,0 +1,441 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { Challenge, ChallengeSource, Difficulty, EntityType, Locale, QuizClientMessage, QuizError, QuizPhase, QuizRole, QuizServerMessage, QuizSettings, QuizSnapshot, QuizTheme, ValidationResult } from "../types";
+import { Clock, systemClock } from "../services/gameClock";
+import { toPublicChallenge } from "./challengeStore";
+import { cleanNickname } from "./leaderboard";
+import { SocketPeer } from "./sockets";
+
+const QUIZ_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I to misread off a projector
+const QUIZ_CODE_LENGTH = 4;
+const MAX_TEAMS = 12;
+const MIN_ROUNDS = 1;
+const MAX_ROUNDS = 50;
+const DEFAULT_ROUNDS = 10;
+const MAX_POINTS = 10;
+const MAX_ANSWER_LENGTH = 100;
+// A host who drops (a laptop lid closed) gets this long to come back before the quiz closes
+const HOST_GRACE_MS = 15 * 60 * 1000;
+
+// The card a round needs to fit each theme
+const THEME_CARD_TYPES: Record<QuizTheme, EntityType> = {
+  [QuizTheme.CLUBS]: EntityType.TEAM,
+  [QuizTheme.NATIONAL_TEAMS]: EntityType.NATIONAL_TEAM,
+  [QuizTheme.COACHES]: EntityType.COACH,
+  [QuizTheme.TROPHIES]: EntityType.TROPHY,
+  [QuizTheme.YEARS]: EntityType.YEAR
+};
+
+export type QuizPeer = SocketPeer<QuizServerMessage>;
+
+export interface QuizHubOptions {
+  // Fetches a round, avoiding the cards already played in the quiz, with a card of one of the kinds given (none: any)
+  nextChallenge: (settings: QuizSettings, excludeEntities: string[], cardTypes: EntityType[]) => Promise<Challenge>;
+  judge: (challenge: Challenge, answer: string, locale: Locale) => Promise<ValidationResult>;
+  clock?: Clock;
+}
+
+interface Team {
+  id: string;
+  token: string;
+  name: string;
+  score: number;
+  peer: QuizPeer | null;
+}
+
+interface Buzz {
+  team: Team;
+  answer: string | null;
+  suggestion: ValidationResult | null;
+}
+
+interface Quiz {
+  code: string;
+  settings: QuizSettings;
+  hostToken: string;
+  host: QuizPeer | null;
+  cancelHostGrace: (() => void) | null;
+  screens: Set<QuizPeer>;
+  teams: Team[];
+  phase: QuizPhase;
+  roundNumber: number;
+  challenge: Challenge | null;
+  upcoming: Promise<Challenge> | null; // The next round, fetched while this one is played
+  buzz: Buzz | null;
+  lockedOut: Set<Team>;
+  result: QuizSnapshot["result"];
+  seenEntities: string[];
+  round: symbol; // Changes every round, so a late load or suggestion can tell it is stale
+}
+
+type Seat = { quiz: Quiz; role: QuizRole.HOST } | { quiz: Quiz; role: QuizRole.SCREEN } | { quiz: Quiz; role: QuizRole.TEAM; team: Team };
+
+const parseEnum = <T extends string>(values: Record<string, T>, value: unknown, fallback: T): T =>
+  Object.values(values).includes(value as T) ? (value as T) : fallback;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  Number.isInteger(value) ? Math.min(Math.max(value as number, min), max) : fallback;
+
+const parseSettings = (raw: unknown, current?: QuizSettings): QuizSettings => {
+  const settings = (raw && typeof raw === "object" ? raw : {}) as Partial<QuizSettings>;
+  const themes = Array.isArray(settings.themes) ? settings.themes : current?.themes || [];
+  return {
+    difficulty: parseEnum(Difficulty, settings.difficulty, current?.difficulty || Difficulty.MEDIUM),
+    source: parseEnum(ChallengeSource, settings.source, current?.source || ChallengeSource.AUTO),
+    locale: parseEnum(Locale, settings.locale, current?.locale || Locale.AR),
+    rounds: clamp(settings.rounds, MIN_ROUNDS, MAX_ROUNDS, current?.rounds || DEFAULT_ROUNDS),
+    themes: [...new Set(themes.filter(theme => Object.values(QuizTheme).includes(theme)))],
+    points: clamp(settings.points, 1, MAX_POINTS, current?.points || 1)
+  };
+};
+
+// The kinds of card a round can have to fit the quiz's themes; no themes: any
+const themeCardTypes = (themes: QuizTheme[]): EntityType[] => themes.map(theme => THEME_CARD_TYPES[theme]);
+
+/**
+ * Quiz nights: a host runs the quiz from a control panel, a projector shows the cards, and
+ * teams buzz in from their phones. Nothing runs on a clock: the host accepts or rejects each
+ * answer (the validator's verdict is only a suggestion, shown to the host alone), awards
+ * points and moves to the next round. A team that answered wrong is out for the rest of the
+ * round. Teams and the host keep their seats when their connection drops.
+ */
+export const createQuizHub = ({ nextChallenge, judge, clock = systemClock }: QuizHubOptions) => {
+  const quizzes = new Map<string, Quiz>();
+  const seats = new Map<QuizPeer, Seat>();
+
+  const newCode = (): string => {
+    for (;;) {
+      const code = Array.from(randomBytes(QUIZ_CODE_LENGTH), byte => QUIZ_CODE_ALPHABET[byte % QUIZ_CODE_ALPHABET.length]).join("");
+      if (!quizzes.has(code)) return code;
+    }
+  };
+
+  const snapshot = (quiz: Quiz, forHost: boolean): QuizSnapshot => ({
+    code: quiz.code,
+    phase: quiz.phase,
+    settings: quiz.settings,
+    teams: quiz.teams.map(({ id, name, score, peer }) => ({ id, name, score, connected: !!peer })),
+    roundNumber: quiz.roundNumber,
+    challenge: quiz.challenge ? toPublicChallenge(quiz.challenge) : null,
+    buzz: quiz.buzz ? { teamId: quiz.buzz.team.id, answer: quiz.buzz.answer } : null,
+    lockedOut: [...quiz.lockedOut].map(team => team.id),
+    result: quiz.result,
+    host: forHost
+      ? { acceptedAnswers: quiz.challenge?.possibleAnswers || [], suggestion: quiz.buzz?.suggestion || null }
+      : undefined
+  });
+
+  const broadcast = (quiz: Quiz) => {
+    const shared: QuizServerMessage = { type: "quiz", quiz: snapshot(quiz, false) };
+    quiz.host?.send({ type: "quiz", quiz: snapshot(quiz, true) });
+    quiz.screens.forEach(screen => screen.send(shared));
+    quiz.teams.forEach(team => team.peer?.send(shared));
+  };
+
+  // --- Rounds ---
+
+  // The themes go into the generation itself, so every round fits them
+  const fetchRound = (quiz: Quiz): Promise<Challenge> =>
+    nextChallenge(quiz.settings, [...quiz.seenEntities], themeCardTypes(quiz.settings.themes));
+
+  const prefetch = (quiz: Quiz) => {
+    const upcoming = fetchRound(quiz);
+    upcoming.catch(() => undefined); // Reported when the round is needed
+    quiz.upcoming = upcoming;
+  };
+
+  const startRound = async (quiz: Quiz) => {
+    const round = Symbol("round");
+    quiz.round = round;
+    quiz.phase = QuizPhase.LOADING;
+    quiz.roundNumber += 1;
+    quiz.challenge = null;
+    quiz.buzz = null;
+    quiz.lockedOut = new Set();
+    quiz.result = null;
+    broadcast(quiz);
+
+    let challenge: Challenge;
+    try {
+      challenge = await (quiz.upcoming || fetchRound(quiz));
+    } catch (e) {
+      if (quiz.round !== round) return;
+      console.error(`Quiz ${quiz.code}: loading a round failed:`, e);
+      quiz.upcoming = null;
+      quiz.roundNumber -= 1;
+      // Back to the last revealed round (or the lobby), from where the host can try again
+      quiz.phase = quiz.roundNumber > 0 ? QuizPhase.REVEALED : QuizPhase.LOBBY;
+      quiz.host?.send({ type: "error", error: QuizError.ROUND_FAILED });
+      broadcast(quiz);
+      return;
+    }
+    if (quiz.round !== round) return;
+
+    quiz.challenge = challenge;
+    quiz.seenEntities.push(challenge.cardA.name, challenge.cardB.name);
+    quiz.upcoming = null;
+    if (quiz.roundNumber < quiz.settings.rounds) prefetch(quiz);
+    quiz.phase = QuizPhase.OPEN;
+    broadcast(quiz);
+  };
+
+  const reveal = (quiz: Quiz, winner: Team | null) => {
+    quiz.round = Symbol("revealed");
+    quiz.phase = QuizPhase.REVEALED;
+    quiz.buzz = null;
+    quiz.result = { teamId: winner?.id ?? null, acceptedAnswers: quiz.challenge?.possibleAnswers || [] };
+    broadcast(quiz);
+  };
+
+  const submitAnswer = async (quiz: Quiz, buzz: Buzz, text: string) => {
+    const round = quiz.round;
+    buzz.answer = text.trim().slice(0, MAX_ANSWER_LENGTH);
+    broadcast(quiz);
+    let suggestion: ValidationResult;
+    try {
+      suggestion = await judge(quiz.challenge, buzz.answer, quiz.settings.locale);
+    } catch (e) {
+      console.error(`Quiz ${quiz.code}: checking an answer failed:`, e);
+      return;
+    }
+    if (quiz.round !== round || quiz.buzz !== buzz) return;
+    buzz.suggestion = suggestion;
+    broadcast(quiz);
+  };
+
+  const closeQuiz = (quiz: Quiz) => {
+    quiz.round = Symbol("closed");
+    quiz.cancelHostGrace?.();
+    quizzes.delete(quiz.code);
+    const peers = [quiz.host, ...quiz.screens, ...quiz.teams.map(team => team.peer)].filter(Boolean);
+    peers.forEach(peer => {
+      seats.delete(peer);
+      peer.send({ type: "error", error: QuizError.QUIZ_CLOSED });
+    });
+  };
+
+  // --- Seats ---
+
+  const seat = (peer: QuizPeer, seated: Seat, token: string | null) => {
+    const previous = seats.get(peer);
+    if (previous) unseat(peer, previous);
+    seats.set(peer, seated);
+    const { quiz } = seated;
+    if (seated.role === QuizRole.HOST) {
+      if (quiz.host && quiz.host !== peer) seats.delete(quiz.host);
+      quiz.host = peer;
+      quiz.cancelHostGrace?.();
+      quiz.cancelHostGrace = null;
+    } else if (seated.role === QuizRole.TEAM) {
+      if (seated.team.peer && seated.team.peer !== peer) seats.delete(seated.team.peer);
+      seated.team.peer = peer;
+    } else {
+      quiz.screens.add(peer);
+    }
+    const teamId = seated.role === QuizRole.TEAM ? seated.team.id : null;
+    peer.send({ type: "joined", code: quiz.code, role: seated.role, teamId, token });
+    broadcast(quiz);
+  };
+
+  // The connection is gone; the seat stays (the host's only for a while)
+  const unseat = (peer: QuizPeer, seated: Seat) => {
+    seats.delete(peer);
+    const { quiz } = seated;
+    if (seated.role === QuizRole.HOST && quiz.host === peer) {
+      quiz.host = null;
+      quiz.cancelHostGrace = clock.setTimeout(() => closeQuiz(quiz), HOST_GRACE_MS);
+    } else if (seated.role === QuizRole.TEAM && seated.team.peer === peer) {
+      seated.team.peer = null;
+    } else if (seated.role === QuizRole.SCREEN) {
+      quiz.screens.delete(peer);
+    }
+  };
+
+  const findQuiz = (code: unknown) => (typeof code === "string" ? quizzes.get(code.trim().toUpperCase()) : undefined);
+
+  // The host's controls
+  const control = (quiz: Quiz, message: QuizClientMessage) => {
+    switch (message.type) {
+      case "settings":
+        if (quiz.phase !== QuizPhase.LOBBY && quiz.phase !== QuizPhase.FINISHED) return;
+        quiz.settings = parseSettings(message.settings, quiz.settings);
+        quiz.upcoming = null;
+        broadcast(quiz);
+        return;
+
+      case "start":
+        if ((quiz.phase !== QuizPhase.LOBBY && quiz.phase !== QuizPhase.FINISHED) || quiz.teams.length === 0) return;
+        quiz.teams.forEach(team => (team.score = 0));
+        quiz.roundNumber = 0;
+        quiz.seenEntities = [];
+        quiz.upcoming = null;
+        startRound(quiz);
+        return;
+
+      case "accept":
+        if (quiz.phase !== QuizPhase.BUZZED) return;
+        quiz.buzz.team.score += quiz.settings.points;
+        reveal(quiz, quiz.buzz.team);
+        return;
+
+      case "reject":
+        if (quiz.phase !== QuizPhase.BUZZED) return;
+        quiz.lockedOut.add(quiz.buzz.team);
+        quiz.buzz = null;
+        quiz.phase = QuizPhase.OPEN;
+        broadcast(quiz);
+        return;
+
+      // Nobody got it: show the answers
+      case "reveal":
+        if (quiz.phase !== QuizPhase.OPEN && quiz.phase !== QuizPhase.BUZZED) return;
+        reveal(quiz, null);
+        return;
+
+      case "next":
+        if (quiz.phase !== QuizPhase.REVEALED) return;
+        if (quiz.roundNumber >= quiz.settings.rounds) {
+          quiz.phase = QuizPhase.FINISHED;
+          broadcast(quiz);
+        } else {
+          startRound(quiz);
+        }
+        return;
+
+      // Points by hand: a spoken answer, a bonus, a correction
+      case "award": {
+        const team = quiz.teams.find(t => t.id === message.teamId);
+        if (!team || !Number.isInteger(message.points) || Math.abs(message.points) > MAX_POINTS) return;
+        team.score += message.points;
+        broadcast(quiz);
+        return;
+      }
+
+      case "end":
+        quiz.round = Symbol("ended");
+        quiz.phase = QuizPhase.FINISHED;
+        quiz.buzz = null;
+        broadcast(quiz);
+        return;
+    }
+  };
+
+  const receive = (peer: QuizPeer, message: QuizClientMessage) => {
+    const seated = seats.get(peer);
+    const fail = (error: QuizError) => peer.send({ type: "error", error });
+
+    switch (message.type) {
+      case "host": {
+        const quiz: Quiz = {
+          code: newCode(),
+          settings: parseSettings(message.settings),
+          hostToken: randomBytes(16).toString("hex"),
+          host: null,
+          cancelHostGrace: null,
+          screens: new Set(),
+          teams: [],
+          phase: QuizPhase.LOBBY,
+          roundNumber: 0,
+          challenge: null,
+          upcoming: null,
+          buzz: null,
+          lockedOut: new Set(),
+          result: null,
+          seenEntities: [],
+          round: Symbol("lobby")
+        };
+        quizzes.set(quiz.code, quiz);
+        seat(peer, { quiz, role: QuizRole.HOST }, quiz.hostToken);
+        return;
+      }
+
+      case "watch": {
+        const quiz = findQuiz(message.code);
+        if (!quiz) return fail(QuizError.QUIZ_NOT_FOUND);
+        seat(peer, { quiz, role: QuizRole.SCREEN }, null);
+        return;
+      }
+
+      case "join": {
+        const quiz = findQuiz(message.code);
+        if (!quiz) return fail(QuizError.QUIZ_NOT_FOUND);
+        const name = cleanNickname(message.name);
+        if (!name) return fail(QuizError.INVALID_NAME);
+        if (quiz.teams.some(team => team.name.toLowerCase() === name.toLowerCase())) return fail(QuizError.NAME_TAKEN);
+        if (quiz.teams.length >= MAX_TEAMS) return fail(QuizError.QUIZ_FULL);
+        const team: Team = { id: randomUUID(), token: randomBytes(16).toString("hex"), name, score: 0, peer: null };
+        quiz.teams.push(team);
+        seat(peer, { quiz, role: QuizRole.TEAM, team }, team.token);
+        return;
+      }
+
+      case "resume": {
+        const quiz = findQuiz(message.code);
+        if (quiz && message.token === quiz.hostToken) {
+          seat(peer, { quiz, role: QuizRole.HOST }, quiz.hostToken);
+          return;
+        }
+        const team = quiz?.teams.find(t => t.token === message.token);
+        if (!team) return fail(QuizError.SESSION_EXPIRED);
+        seat(peer, { quiz, role: QuizRole.TEAM, team }, team.token);
+        return;
+      }
+
+      case "buzz": {
+        if (seated?.role !== QuizRole.TEAM) return;
+        const { quiz, team } = seated;
+        if (quiz.phase !== QuizPhase.OPEN || quiz.lockedOut.has(team)) return;
+        quiz.buzz = { team, answer: null, suggestion: null };
+        quiz.phase = QuizPhase.BUZZED;
+        broadcast(quiz);
+        return;
+      }
+
+      case "answer": {
+        if (seated?.role !== QuizRole.TEAM || typeof message.answer !== "string") return;
+        const { quiz, team } = seated;
+        const buzz = quiz.buzz;
+        if (quiz.phase !== QuizPhase.BUZZED || buzz?.team !== team || buzz.answer !== null || !message.answer.trim()) return;
+        submitAnswer(quiz, buzz, message.answer);
+        return;
+      }
+
+      case "leave":
+        if (!seated) return;
+        if (seated.role === QuizRole.HOST) {
+          closeQuiz(seated.quiz);
+        } else if (seated.role === QuizRole.TEAM) {
+          const { quiz, team } = seated;
+          seats.delete(peer);
+          quiz.teams = quiz.teams.filter(t => t !== team);
+          quiz.lockedOut.delete(team);
+          if (quiz.buzz?.team === team) {
+            quiz.buzz = null;
+            if (quiz.phase === QuizPhase.BUZZED) quiz.phase = QuizPhase.OPEN;
+          }
+          broadcast(quiz);
+        } else {
+          unseat(peer, seated);
+        }
+        return;
+
+      default:
+        if (seated?.role === QuizRole.HOST) control(seated.quiz, message);
+    }
+  };
+
+  return {
+    receive,
+
+    disconnect(peer: QuizPeer) {
+      const seated = seats.get(peer);
+      if (!seated) return;
+      unseat(peer, seated);
+      broadcast(seated.quiz);
+    },
+
+    /** How many quizzes are open, for /api/health. */
+    size: () => quizzes.size
+  };
+};
+
+export type QuizHub = ReturnType<typeof createQuizHub>;
@@ -0,0 +1,401 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { Challenge, ChallengeSource, Difficulty, Locale, RoomClientMessage, RoomError, RoomPhase, RoomServerMessage, RoomSettings, RoomSnapshot, ValidationResult } from "../types";
+import { Clock, systemClock } from "../services/gameClock";
+import { toPublicChallenge } from "./challengeStore";
+import { cleanNickname } from "./leaderboard";
+import { SocketPeer } from "./sockets";
+
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"; // No 0/O or 1/I to misread
+const ROOM_CODE_LENGTH = 5;
+const MAX_PLAYERS = 2;
+const ROUND_MS = 40 * 1000;
+const ROUND_OVER_MS = 5000; // The result stays on screen, then the next round starts
+const RECONNECT_GRACE_MS = 30 * 1000; // A dropped player keeps their seat this long
+const MIN_ROUNDS = 3;
+const MAX_ROUNDS = 20;
+const DEFAULT_ROUNDS = 10;
+const MAX_ANSWER_LENGTH = 100;
+
+export type RoomPeer = SocketPeer<RoomServerMessage>;
+
+export interface RoomHubOptions {
+  // Fetches a round, avoiding the cards already played in the match
+  nextChallenge: (settings: RoomSettings, excludeEntities: string[]) => Promise<Challenge>;
+  judge: (challenge: Challenge, answer: string, locale: Locale) => Promise<ValidationResult>;
+  clock?: Clock;
+}
+
+interface Player {
+  id: string;
+  token: string;
+  name: string;
+  score: number;
+  peer: RoomPeer | null;
+  judging: boolean; // One answer at a time, like the solo game
+  cancelGrace: (() => void) | null;
+}
+
+// An answer in the order it reached the server; the earliest correct one takes the round
+interface RoundAnswer {
+  player: Player;
+  answer: string;
+  result: ValidationResult | null; // Until it is judged
+}
+
+// The room's clock: runs toward an action, and stops while a player is away
+interface RoomTimer {
+  remainingMs: number;
+  endsAt: number | null; // Null while stopped
+  action: () => void;
+  cancel: (() => void) | null;
+}
+
+interface Room {
+  code: string;
+  settings: RoomSettings;
+  players: Player[];
+  hostId: string;
+  phase: RoomPhase;
+  roundNumber: number;
+  challenge: Challenge | null;
+  answers: RoundAnswer[];
+  timeUp: boolean; // Answers sent in time are still judged, but no new ones are taken
+  timer: RoomTimer | null;
+  result: RoomSnapshot["result"];
+  seenEntities: string[];
+  round: symbol; // Changes every round, so a late load or verdict can tell it is stale
+}
+
+const clampRounds = (value: unknown) =>
+  Number.isInteger(value) ? Math.min(Math.max(value as number, MIN_ROUNDS), MAX_ROUNDS) : DEFAULT_ROUNDS;
+
+const parseEnum = <T extends string>(values: Record<string, T>, value: unknown, fallback: T): T =>
+  Object.values(values).includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Head-to-head rooms. Both players get the same challenge at the same moment, the server's
+ * clock decides when a round ends, and the first correct answer to reach the server takes
+ * it: answers are judged in the order they arrived, so a slow verdict can't let a later
+ * answer win. A player who drops keeps their seat for a while and the clock waits for them;
+ * if they don't come back, the other player wins the match.
+ */
+export const createRoomHub = ({ nextChallenge, judge, clock = systemClock }: RoomHubOptions) => {
+  const rooms = new Map<string, Room>();
+  // Which room and player each connection is seated as
+  const seats = new Map<RoomPeer, { room: Room; player: Player }>();
+
+  const newCode = (): string => {
+    for (;;) {
+      const code = Array.from(randomBytes(ROOM_CODE_LENGTH), byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join("");
+      if (!rooms.has(code)) return code;
+    }
+  };
+
+  const isPlaying = (room: Room) =>
+    room.phase === RoomPhase.LOADING || room.phase === RoomPhase.ROUND || room.phase === RoomPhase.ROUND_OVER;
+
+  const isPaused = (room: Room) => isPlaying(room) && room.players.some(player => !player.peer);
+
+  const snapshot = (room: Room): RoomSnapshot => {
+    const timer = room.timer;
+    const remainingMs = !timer ? 0 : timer.endsAt === null ? timer.remainingMs : Math.max(0, timer.endsAt - clock.now());
+    return {
+      code: room.code,
+      phase: room.phase,
+      settings: room.settings,
+      players: room.players.map(({ id, name, score, peer }) => ({ id, name, score, connected: !!peer, isHost: id === room.hostId })),
+      roundNumber: room.roundNumber,
+      challenge: room.challenge ? toPublicChallenge(room.challenge) : null,
+      remainingMs: room.phase === RoomPhase.ROUND ? remainingMs : 0,
+      paused: isPaused(room),
+      result: room.result
+    };
+  };
+
+  const broadcast = (room: Room) => {
+    const message: RoomServerMessage = { type: "room", room: snapshot(room) };
+    room.players.forEach(player => player.peer?.send(message));
+  };
+
+  // --- The room clock ---
+
+  const runTimer = (room: Room) => {
+    const timer = room.timer;
+    if (!timer || timer.endsAt !== null || isPaused(room)) return;
+    timer.endsAt = clock.now() + timer.remainingMs;
+    timer.cancel = clock.setTimeout(() => {
+      room.timer = null;
+      timer.action();
+    }, timer.remainingMs);
+  };
+
+  const stopTimer = (room: Room) => {
+    const timer = room.timer;
+    if (!timer || timer.endsAt === null) return;
+    timer.cancel?.();
+    timer.remainingMs = Math.max(0, timer.endsAt - clock.now());
+    timer.endsAt = null;
+    timer.cancel = null;
+  };
+
+  const setTimer = (room: Room, ms: number, action: () => void) => {
+    room.timer?.cancel?.();
+    room.timer = { remainingMs: ms, endsAt: null, action, cancel: null };
+    runTimer(room);
+  };
+
+  const clearTimer = (room: Room) => {
+    room.timer?.cancel?.();
+    room.timer = null;
+  };
+
+  // --- Rounds ---
+
+  const startRound = async (room: Room) => {
+    const round = Symbol("round");
+    room.round = round;
+    room.phase = RoomPhase.LOADING;
+    room.roundNumber += 1;
+    room.challenge = null;
+    room.answers = [];
+    room.timeUp = false;
+    room.result = null;
+    broadcast(room);
+
+    let challenge: Challenge;
+    try {
+      challenge = await nextChallenge(room.settings, room.seenEntities);
+    } catch (e) {
+      if (room.round !== round) return;
+      console.error(`Room ${room.code}: loading a round failed:`, e);
+      room.phase = RoomPhase.LOBBY;
+      room.roundNumber = 0;
+      room.players.forEach(player => player.peer?.send({ type: "error", error: RoomError.ROUND_FAILED }));
+      broadcast(room);
+      return;
+    }
+    if (room.round !== round) return;
+
+    room.challenge = challenge;
+    room.seenEntities.push(challenge.cardA.name, challenge.cardB.name);
+    room.phase = RoomPhase.ROUND;
+    setTimer(room, ROUND_MS, () => {
+      room.timeUp = true;
+      settleRound(room);
+    });
+    broadcast(room);
+  };
+
+  const endRound = (room: Room, winner: RoundAnswer | null) => {
+    clearTimer(room);
+    room.round = Symbol("round over");
+    if (winner) winner.player.score += 1;
+    room.phase = RoomPhase.ROUND_OVER;
+    room.result = {
+      winnerId: winner?.player.id ?? null,
+      answer: winner ? winner.result.matchedAnswer || winner.answer : null,
+      acceptedAnswers: room.challenge?.possibleAnswers || []
+    };
+    setTimer(room, ROUND_OVER_MS, () => {
+      if (room.roundNumber >= room.settings.rounds) {
+        room.phase = RoomPhase.FINISHED;
+        broadcast(room);
+      } else {
+        startRound(room);
+      }
+    });
+    broadcast(room);
+  };
+
+  // Walks the answers in arrival order: the first correct one wins, unless an earlier one is still being judged
+  const settleRound = (room: Room) => {
+    if (room.phase !== RoomPhase.ROUND) return;
+    for (const answer of room.answers) {
+      if (!answer.result) return;
+      if (answer.result.isValid) {
+        endRound(room, answer);
+        return;
+      }
+    }
+    if (room.timeUp) endRound(room, null);
+  };
+
+  const submitAnswer = async (room: Room, player: Player, id: number, text: string) => {
+    // Only the verdict and its reason: the rest of the judge's result stays on the server
+    const reply = ({ isValid, reason }: ValidationResult) => player.peer?.send({ type: "verdict", id, result: { isValid, reason } });
+    if (room.phase !== RoomPhase.ROUND || room.timeUp || isPaused(room) || player.judging || !room.challenge) {
+      reply({ isValid: false, reason: "" });
+      return;
+    }
+    const round = room.round;
+    const entry: RoundAnswer = { player, answer: text.trim().slice(0, MAX_ANSWER_LENGTH), result: null };
+    room.answers.push(entry);
+    player.judging = true;
+    try {
+      entry.result = await judge(room.challenge, entry.answer, room.settings.locale);
+    } catch (e) {
+      // Like a failed check in a solo game, an outage isn't held against the player: the answer is dropped
+      console.error(`Room ${room.code}: judging an answer failed:`, e);
+      room.answers = room.answers.filter(answer => answer !== entry);
+      player.judging = false;
+      player.peer?.send({ type: "checkFailed", id });
+      if (room.round === round) settleRound(room);
+      return;
+    }
+    player.judging = false;
+    reply(entry.result);
+    if (room.round === round) settleRound(room);
+  };
+
+  // --- Seats ---
+
+  const seat = (peer: RoomPeer, room: Room, player: Player) => {
+    seats.set(peer, { room, player });
+    player.peer = peer;
+    player.cancelGrace?.();
+    player.cancelGrace = null;
+    peer.send({ type: "joined", code: room.code, playerId: player.id, token: player.token });
+    runTimer(room);
+    broadcast(room);
+  };
+
+  const addPlayer = (room: Room, name: string): Player => {
+    const player: Player = { id: randomUUID(), token: randomBytes(16).toString("hex"), name, score: 0, peer: null, judging: false, cancelGrace: null };
+    room.players.push(player);
+    return player;
+  };
+
+  // The player is gone for good: a match in progress goes to whoever is left
+  const removePlayer = (room: Room, player: Player) => {
+    player.cancelGrace?.();
+    room.players = room.players.filter(p => p !== player);
+    if (room.players.length === 0) {
+      clearTimer(room);
+      room.round = Symbol("closed");
+      rooms.delete(room.code);
+      return;
+    }
+    if (room.hostId === player.id) room.hostId = room.players[0].id;
+    if (isPlaying(room)) {
+      clearTimer(room);
+      room.round = Symbol("forfeited");
+      room.phase = RoomPhase.FINISHED;
+    }
+    broadcast(room);
+  };
+
+  const unseat = (peer: RoomPeer) => {
+    const seated = seats.get(peer);
+    seats.delete(peer);
+    if (!seated || seated.player.peer !== peer) return null;
+    seated.player.peer = null;
+    return seated;
+  };
+
+  const receive = (peer: RoomPeer, message: RoomClientMessage) => {
+    const seated = seats.get(peer);
+    const fail = (error: RoomError) => peer.send({ type: "error", error });
+
+    switch (message.type) {
+      case "create": {
+        const name = cleanNickname(message.name);
+        if (!name) return fail(RoomError.INVALID_NAME);
+        if (seated) leave(peer);
+        const settings = message.settings || ({} as Partial<RoomSettings>);
+        const room: Room = {
+          code: newCode(),
+          settings: {
+            difficulty: parseEnum(Difficulty, settings.difficulty, Difficulty.MEDIUM),
+            source: parseEnum(ChallengeSource, settings.source, ChallengeSource.AUTO),
+            locale: parseEnum(Locale, settings.locale, Locale.AR),
+            rounds: clampRounds(settings.rounds)
+          },
+          players: [],
+          hostId: "",
+          phase: RoomPhase.LOBBY,
+          roundNumber: 0,
+          challenge: null,
+          answers: [],
+          timeUp: false,
+          timer: null,
+          result: null,
+          seenEntities: [],
+          round: Symbol("lobby")
+        };
+        const player = addPlayer(room, name);
+        room.hostId = player.id;
+        rooms.set(room.code, room);
+        seat(peer, room, player);
+        return;
+      }
+
+      case "join": {
+        const name = cleanNickname(message.name);
+        if (!name) return fail(RoomError.INVALID_NAME);
+        const room = typeof message.code === "string" ? rooms.get(message.code.trim().toUpperCase()) : undefined;
+        if (!room) return fail(RoomError.ROOM_NOT_FOUND);
+        if (isPlaying(room)) return fail(RoomError.MATCH_RUNNING);
+        if (room.players.length >= MAX_PLAYERS) return fail(RoomError.ROOM_FULL);
+        if (seated) leave(peer);
+        seat(peer, room, addPlayer(room, name));
+        return;
+      }
+
+      case "resume": {
+        const room = typeof message.code === "string" ? rooms.get(message.code) : undefined;
+        const player = room?.players.find(p => p.token === message.token);
+        if (!room || !player) return fail(RoomError.SESSION_EXPIRED);
+        if (player.peer && player.peer !== peer) seats.delete(player.peer);
+        seat(peer, room, player);
+        return;
+      }
+
+      case "start": {
+        if (!seated) return;
+        const { room, player } = seated;
+        const ready = room.players.length === MAX_PLAYERS && room.players.every(p => p.peer);
+        if (player.id !== room.hostId || isPlaying(room) || !ready) return;
+        room.players.forEach(p => (p.score = 0));
+        room.roundNumber = 0;
+        room.seenEntities = [];
+        startRound(room);
+        return;
+      }
+
+      case "answer":
+        if (!seated || typeof message.answer !== "string" || !Number.isInteger(message.id)) return;
+        submitAnswer(seated.room, seated.player, message.id, message.answer);
+        return;
+
+      case "leave":
+        leave(peer);
+        return;
+    }
+  };
+
+  const leave = (peer: RoomPeer) => {
+    const seated = unseat(peer);
+    if (seated) removePlayer(seated.room, seated.player);
+  };
+
+  return {
+    receive,
+
+    /** The connection dropped: the clock stops and the seat is kept for a while. */
+    disconnect(peer: RoomPeer) {
+      const seated = unseat(peer);
+      if (!seated) return;
+      const { room, player } = seated;
+      stopTimer(room);
+      player.cancelGrace = clock.setTimeout(() => removePlayer(room, player), RECONNECT_GRACE_MS);
+      broadcast(room);
+    },
+
+    leave,
+
+    /** How many rooms are open, for /api/health. */
+    size: () => rooms.size
+  };
+};
+
+export type RoomHub = ReturnType<typeof createRoomHub>;
@@ -0,0 +1,273 @@
+import { AnswerStyle, ChallengeSource, Difficulty, GameMode, GameStatus, HintType, Locale, ReverseChallenge, RoundOutcome, isReverseChallenge } from "../types";
+import { GameEvent, replayGame } from "../services/gameEngine";
+import { ChallengeStore, RecordedPause, RecordedSubmission, RecordedVerdict, StoredChallenge } from "./challengeStore";
+import { checkReversePicks, isGridIndex } from "./validation";
+
+const MAX_RUN_EVENTS = 2000;
+// How far apart the run's clock and the server's may put the same moment (latency, rendering)
+const TIMING_SLACK_MS = 5000;
+// Clocks drift a little over a long game
+const CLOCK_DRIFT = 0.01;
+// From the end of the last round (or the round being served) to its cards on screen: images load first
+const MAX_ROUND_LOAD_MS = 10000;
+// Rounds a game may still have prefetched, or on their way, when it ends (the app keeps two ready)
+const MAX_LEFTOVER_ROUNDS = 3;
+
+export interface VerifiedRun {
+  mode: GameMode;
+  difficulty: Difficulty;
+  score: number; // As the server's replay of the run scored it, never as the client claims
+  rounds: number;
+  solved: number;
+  challengeIds: string[];
+}
+
+export type RunCheck = { ok: true; run: VerifiedRun } | { ok: false; problem: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const oneOf = <T extends string>(values: Record<string, T>, value: unknown): T | null =>
+  Object.values(values).includes(value as T) ? (value as T) : null;
+
+// The endpoint a round of each mode must have been served by
+const SERVED_BY: Record<GameMode, StoredChallenge["servedAs"]["kind"]> = {
+  [GameMode.CLASSIC]: "challenge",
+  [GameMode.CHAIN]: "challenge",
+  [GameMode.DAILY]: "daily",
+  [GameMode.REVERSE]: "reverse"
+};
+
+// How the server records a reverse puzzle's picks as an answer
+export const picksAnswer = (picks: number[]) => [...new Set(picks)].sort((a, b) => a - b).join(",");
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+const cardsOf = (challenge: StoredChallenge["challenge"]) =>
+  isReverseChallenge(challenge) ? [challenge.player.name] : [challenge.cardA.name, challenge.cardB.name];
+
+/**
+ * Rebuilds a submitted run (`RunEvent`s) from the server's own records and replays it.
+ * Every round must be a challenge this server served for the run's mode and difficulty,
+ * not yet part of another run (a daily run must be its player's first of the date); every answer, multiple-choice pick and pause must be one it
+ * saw, with the same verdict (reverse grids are checked again here); the hints must be the
+ * ones it handed out; the run's timestamps must agree with when the server saw those
+ * arrive, each answer included; and no round served for the same game (its id, from GAME_STARTED)
+ * may be left out of it. The score is whatever the replay comes to.
+ */
+export const verifyRun = (data: unknown, store: ChallengeStore): RunCheck => {
+  const reject = (problem: string): RunCheck => ({ ok: false, problem });
+  if (!Array.isArray(data) || data.length === 0 || data.length > MAX_RUN_EVENTS) {
+    return reject(`a run is a list of 1 to ${MAX_RUN_EVENTS} events`);
+  }
+
+  const events: GameEvent[] = [];
+  const played: StoredChallenge[] = [];
+  const usedVerdicts = new Set<RecordedVerdict>();
+  const usedPauses = new Set<RecordedPause>();
+  const usedSubmissions = new Set<RecordedSubmission>();
+  const claimedHints = new Map<StoredChallenge, number>();
+  // Server time minus run time, for every moment both of them saw
+  const offsets: number[] = [];
+  let mode: GameMode = GameMode.CLASSIC;
+  let difficulty: Difficulty = Difficulty.MEDIUM;
+  let gameId = "";
+  let current: StoredChallenge | null = null;
+
+  for (const [index, raw] of data.entries()) {
+    const previousAt = events[events.length - 1]?.at ?? -Infinity;
+    if (!isRecord(raw) || typeof raw.at !== "number" || !Number.isFinite(raw.at) || raw.at < previousAt) {
+      return reject(`event ${index} is malformed or out of order`);
+    }
+    if ((index === 0) !== (raw.type === "GAME_STARTED")) {
+      return reject("a run starts with GAME_STARTED, and only once");
+    }
+    const at = raw.at;
+
+    switch (raw.type) {
+      case "GAME_STARTED": {
+        const startedMode = oneOf(GameMode, raw.mode);
+        const startedDifficulty = oneOf(Difficulty, raw.difficulty);
+        if (!startedMode || !startedDifficulty) return reject("GAME_STARTED needs a mode and a difficulty");
+        mode = startedMode;
+        difficulty = startedDifficulty;
+        // The settings only decide where rounds come from, not how they score
+        const settings = isRecord(raw.settings) ? raw.settings : {};
+        if (typeof settings.gameId !== "string" || !settings.gameId) return reject("GAME_STARTED needs the game's id");
+        gameId = settings.gameId;
+        events.push({
+          type: raw.type,
+          at,
+          mode,
+          difficulty,
+          settings: {
+            gameId,
+            source: oneOf(ChallengeSource, settings.source) || ChallengeSource.AUTO,
+            answerStyle: oneOf(AnswerStyle, settings.answerStyle) || AnswerStyle.TYPED,
+            locale: oneOf(Locale, settings.locale) || Locale.AR
+          }
+        });
+        break;
+      }
+
+      case "ROUND_STARTED": {
+        const record = typeof raw.challengeId === "string" ? store.record(raw.challengeId) : null;
+        if (!record) return reject(`round ${played.length + 1} was not served by this server, or has expired`);
+        if (record.submitted || played.includes(record)) return reject(`round ${played.length + 1} was already submitted`);
+        const { kind, difficulty: servedDifficulty } = record.servedAs;
+        if (kind !== SERVED_BY[mode] || (kind !== "daily" && servedDifficulty !== difficulty)) {
+          return reject(`round ${played.length + 1} was served for another mode or difficulty`);
+        }
+        if (record.servedAs.gameId !== gameId) return reject(`round ${played.length + 1} was served for another game`);
+        // Another daily set's answers would be this one's: the puzzles only depend on the date
+        const revealedAt = store.dailyRevealedAt(record.servedAs);
+        if (revealedAt !== null && revealedAt < record.storedAt) {
+          return reject(`round ${played.length + 1} is a daily puzzle whose answers this player had already seen`);
+        }
+        if (!store.isFirstDailyRun(record.servedAs)) {
+          return reject(`round ${played.length + 1} is from a daily run started after the player's first of that date`);
+        }
+        current = record;
+        played.push(record);
+        events.push({ type: raw.type, at, challenge: record.challenge });
+        break;
+      }
+
+      case "VERDICT": {
+        if (!current || isReverseChallenge(current.challenge) || typeof raw.answer !== "string" || typeof raw.isCorrect !== "boolean") {
+          return reject(`event ${index} is not a verdict on a connect puzzle`);
+        }
+        // Multiple-choice picks are judged by the server too, so every verdict has a time it saw
+        const answer = raw.answer.trim();
+        const recorded = current.verdicts.find(verdict => !usedVerdicts.has(verdict) && verdict.answer === answer);
+        if (!recorded) return reject(`"${answer}" was never checked by the server`);
+        usedVerdicts.add(recorded);
+        offsets.push(recorded.at - at);
+        const { result } = recorded;
+        if (result.isValid !== raw.isCorrect) return reject(`the verdict on "${answer}" is not the one the server gave`);
+        events.push({
+          type: raw.type,
+          at,
+          attempt: { answer, isCorrect: result.isValid, reason: result.reason, source: result.source, matchedAnswer: result.matchedAnswer }
+        });
+        break;
+      }
+
+      case "PICKS_CHECKED": {
+        const picked: unknown[] = Array.isArray(raw.picked) ? raw.picked : [];
+        if (!current || !isReverseChallenge(current.challenge) || !picked.every(pick => isGridIndex(current.challenge as ReverseChallenge, pick as number))) {
+          return reject(`event ${index} is not a check of a reverse grid`);
+        }
+        const picks = [...new Set(picked as number[])];
+        const recorded = current.verdicts.find(verdict => !usedVerdicts.has(verdict) && verdict.answer === picksAnswer(picks));
+        if (!recorded) return reject("a reverse grid was never checked by the server with these picks");
+        usedVerdicts.add(recorded);
+        offsets.push(recorded.at - at);
+        events.push({ type: raw.type, at, picked: picks, verdict: checkReversePicks(current.challenge as ReverseChallenge, picks) });
+        break;
+      }
+
+      case "HINT_BOUGHT": {
+        const hint = oneOf(HintType, raw.hint);
+        if (!current || !hint) return reject(`event ${index} is not a hint on a round`);
+        claimedHints.set(current, (claimedHints.get(current) || 0) + 1);
+        events.push({ type: raw.type, at, hint });
+        break;
+      }
+
+      case "ANSWER_SUBMITTED": {
+        if (!current || typeof raw.answer !== "string") return reject(`event ${index} is not an answer on a round`);
+        // The clock stops until the verdict, so the answer has to be sent when the server got it.
+        // A reverse grid's picks are only named in the run, so its next check stands for them.
+        const answer = raw.answer.trim();
+        const reverse = isReverseChallenge(current.challenge);
+        const received = current.submissions.find(submission => !usedSubmissions.has(submission) && (reverse || submission.answer === answer));
+        if (!received) return reject(`event ${index} is an answer the server never received`);
+        usedSubmissions.add(received);
+        offsets.push(received.at - at);
+        events.push({ type: raw.type, at, answer: raw.answer });
+        break;
+      }
+
+      case "PAUSE_CHANGED": {
+        if (typeof raw.paused !== "boolean") return reject(`event ${index} doesn't say whether the game was paused`);
+        // A pause stops the clock, so one made up would make the answers look faster. Before the
+        // first round there is no clock to stop, and nothing for the server to note it against.
+        if (current) {
+          const recorded = current.pauses.find(pause => !usedPauses.has(pause) && pause.paused === raw.paused);
+          if (!recorded) return reject(`event ${index} is a pause the server never saw`);
+          usedPauses.add(recorded);
+          offsets.push(recorded.at - at);
+        }
+        events.push({ type: raw.type, at, paused: raw.paused });
+        break;
+      }
+
+      case "CHECK_FAILED":
+      case "ROUND_SKIPPED":
+      case "NEXT_ROUND":
+      case "TIMEOUT":
+      case "LOADING_FAILED":
+      case "GAME_ENDED":
+        events.push({ type: raw.type, at });
+        break;
+
+      default:
+        return reject(`event ${index} has an unknown type`);
+    }
+  }
+
+  // Hiding a hint or a wrong answer would save time and points
+  for (const [round, record] of played.entries()) {
+    if ((claimedHints.get(record) || 0) !== record.hints.length) return reject(`the hints of round ${round + 1} don't match the ones handed out`);
+    if (record.verdicts.some(verdict => !usedVerdicts.has(verdict))) return reject(`round ${round + 1} leaves out answers the server checked`);
+  }
+
+  // The run's clock must tell the same story as the server's: answers and pauses arrive when it
+  // says, and each round starts after it was served and soon after the last one ended (or it was
+  // served, if that came later). A run with nothing to time has nothing to rank.
+  if (offsets.length === 0) return reject("the run has no answer the server saw");
+  const span = events[events.length - 1].at - events[0].at;
+  const allowed = TIMING_SLACK_MS + span * CLOCK_DRIFT;
+  if (Math.max(...offsets) - Math.min(...offsets) > allowed) return reject("the run's timings don't match when the server saw its answers and pauses");
+  const offset = median(offsets);
+  let round = 0;
+  let roundEndedAt = events[0].at;
+  for (const event of events) {
+    if (event.type === "NEXT_ROUND" || event.type === "ROUND_SKIPPED") roundEndedAt = event.at;
+    if (event.type !== "ROUND_STARTED") continue;
+    const { storedAt } = played[round++];
+    if (event.at + offset < storedAt - allowed) return reject("a round starts before the server served it");
+    if (event.at + offset > Math.max(roundEndedAt + offset, storedAt) + MAX_ROUND_LOAD_MS + allowed) {
+      return reject("a round starts long after it was ready");
+    }
+  }
+
+  // Fetching more rounds than it plays would let a run leave the hard ones out. The app only
+  // drops a round that repeats a card of the game (the model doesn't always avoid them), and
+  // ends with a few still prefetched; a daily run's unplayed puzzles all come after its last.
+  // Rounds fetched for another game (a late prefetch of the last one, another tab) don't count.
+  const served = store.servedFor(gameId, events[0].at + offset, events[events.length - 1].at + offset);
+  const playedCards = new Set(played.flatMap(record => cardsOf(record.challenge)));
+  const lastPlayed = Math.max(...played.map(record => served.indexOf(record)));
+  const unplayed = served
+    .map((record, position) => ({ record, position }))
+    .filter(({ record }) => !played.includes(record) && !cardsOf(record.challenge).some(card => playedCards.has(card)));
+  if (unplayed.some(({ position }) => position < lastPlayed)) return reject("the run leaves out rounds served to it while it was played");
+  if (mode !== GameMode.DAILY && unplayed.length > MAX_LEFTOVER_ROUNDS) return reject("the run leaves out rounds served to it after its last one");
+
+  const { game } = replayGame(events);
+  if (game.status !== GameStatus.GAME_OVER) return reject("the run doesn't reach the end of the game");
+
+  return {
+    ok: true,
+    run: {
+      mode,
+      difficulty,
+      score: game.score,
+      rounds: game.history.length,
+      solved: game.history.filter(round => round.outcome === RoundOutcome.SOLVED).length,
+      challengeIds: played.map(record => record.challenge.id)
+    }
+  };
+};
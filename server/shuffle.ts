@@ -0,0 +1,9 @@
+/** A shuffled copy (Fisher-Yates); pass a seeded `random` for a repeatable order. */
+export const shuffle = <T,>(items: T[], random: () => number = Math.random): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
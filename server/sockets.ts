@@ -0,0 +1,82 @@
+import http from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+
+const MAX_MESSAGE_BYTES = 4 * 1024;
+// A phone that went to sleep never closes its socket; pings find it so its seat can be held
+const PING_INTERVAL_MS = 15 * 1000;
+
+/** One connection, whatever carries it (a WebSocket, or a fake one in a test). */
+export interface SocketPeer<Message> {
+  send: (message: Message) => void;
+}
+
+// A message as it arrives: a JSON object with a type, its other fields for the hub to check
+export type IncomingMessage = { type: string } & Record<string, unknown>;
+
+// What a socket path is served by: the head-to-head rooms, the quiz nights
+export interface SocketHub {
+  receive: (peer: SocketPeer<unknown>, message: IncomingMessage) => void;
+  disconnect: (peer: SocketPeer<unknown>) => void;
+}
+
+const isIncomingMessage = (value: unknown): value is IncomingMessage =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && typeof (value as { type?: unknown }).type === "string";
+
+/**
+ * Serves each hub over WebSockets at its path on the API server (under /api, so the Vite
+ * dev proxy forwards them along with the rest of the API). Each message is one JSON object.
+ */
+export const attachSockets = (server: http.Server, hubs: Record<string, SocketHub>) => {
+  // One noServer WebSocketServer routes upgrades by path: two servers attached to the same http
+  // server with { server, path } would each answer 400 to the other's paths
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  server.on("upgrade", (req, socket, head) => {
+    const hub = hubs[new URL(req.url || "/", "http://localhost").pathname];
+    if (!hub) {
+      socket.destroy();
+      return;
+    }
+    sockets.handleUpgrade(req, socket, head, (ws: WebSocket) => serve(ws, hub));
+  });
+
+  const serve = (socket: WebSocket, hub: SocketHub) => {
+    const peer: SocketPeer<unknown> = {
+      send: message => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      }
+    };
+
+    let alive = true;
+    socket.on("pong", () => {
+      alive = true;
+    });
+    const ping = setInterval(() => {
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, PING_INTERVAL_MS);
+
+    socket.on("message", (data: Buffer) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(data.toString("utf8"));
+      } catch {
+        return;
+      }
+      if (isIncomingMessage(message)) hub.receive(peer, message);
+    });
+
+    socket.on("close", () => {
+      clearInterval(ping);
+      hub.disconnect(peer);
+    });
+
+    socket.on("error", (error: Error) => console.error("Socket error:", error.message));
+  };
+
+  return sockets;
+};
@@ -0,0 +1,69 @@
+import { Challenge, Locale, ReverseChallenge, ReverseVerdict, ValidationResult, VerdictSource } from "../types";
+import { ChallengeModel } from "./model";
+import { PEOPLE } from "./footballGraph";
+import { checkConnection } from "./knowledgeGraph";
+import { REASONS } from "./messages";
+import { normalizeArabic } from "./normalize";
+import { sanitizeAnswer } from "./answerInput";
+import { ACCEPT_CONFIDENCE, bestNameMatch } from "./nameMatching";
+
+// Every known player's name variants, used to spot ambiguous surnames in accepted answers
+const KNOWN_PEOPLE = PEOPLE.map(person => person.names);
+
+// Whether a rejection's reason gives away one of the accepted answers while the round is open
+const namesAnAnswer = (reason: string, answers: string[]): boolean => {
+  const text = normalizeArabic(reason);
+  return answers.some(answer => normalizeArabic(answer).length > 0 && text.includes(normalizeArabic(answer)));
+};
+
+/**
+ * Decides a verdict in order of trust: the local knowledge graph, then the challenge's
+ * accepted answers (matched across scripts and with typo tolerance), and only then the model.
+ * Anything that doesn't look like a name is turned away before any of them sees it. Throws when
+ * the model can't be reached: no verdict is not a wrong answer, and must not cost the player one.
+ */
+export const validateAnswer = async (
+  challenge: Challenge,
+  rawAnswer: string,
+  model: ChallengeModel,
+  locale: Locale = Locale.AR
+): Promise<ValidationResult> => {
+  const sanitized = sanitizeAnswer(rawAnswer);
+  if (sanitized.ok === false) {
+    return { isValid: false, reason: REASONS[locale].notAName };
+  }
+  const userAnswer = sanitized.answer;
+
+  const graphVerdict = checkConnection(challenge.cardA, challenge.cardB, userAnswer, locale);
+  if (graphVerdict) {
+    return { ...graphVerdict, source: VerdictSource.GRAPH };
+  }
+
+  const match = bestNameMatch(userAnswer, challenge.possibleAnswers || [], KNOWN_PEOPLE);
+  if (match && match.confidence >= ACCEPT_CONFIDENCE) {
+    const reason = match.kind === "exact" ? REASONS[locale].correct : REASONS[locale].correctMatched(match.name);
+    return { isValid: true, reason, matchedAnswer: match.name, source: VerdictSource.ANSWER_LIST };
+  }
+
+  const verdict = await model.judgeAnswer(challenge.cardA, challenge.cardB, userAnswer, locale);
+  // The prompt asks the model not to, but a rejection is no place for a correct answer
+  if (!verdict.isValid && namesAnAnswer(verdict.reason, challenge.possibleAnswers || [])) {
+    return { isValid: false, reason: REASONS[locale].incorrect, source: VerdictSource.MODEL };
+  }
+  return { ...verdict, matchedAnswer: verdict.isValid ? verdict.matchedAnswer || userAnswer : undefined, source: VerdictSource.MODEL };
+};
+
+/** Whether a pick is one of the grid's cards. */
+export const isGridIndex = (challenge: ReverseChallenge, pick: number): boolean =>
+  Number.isInteger(pick) && pick >= 0 && pick < challenge.grid.length;
+
+/** Checks a reverse puzzle's picks against the linked cards it was built with; picks are grid indexes. */
+export const checkReversePicks = (challenge: ReverseChallenge, picks: number[]): ReverseVerdict => {
+  const links = challenge.links || [];
+  const linkedCards = links.map(link => link.card);
+  return {
+    isValid: picks.length === linkedCards.length && linkedCards.every(card => picks.includes(card)),
+    linkedCards,
+    reasons: links.map(link => link.reason)
+  };
+};
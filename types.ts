@@ -13,6 +13,33 @@ export enum Difficulty {
   HARD = 'HARD'
 }
 
+// Where challenges come from: the AI model, the bundled offline bank, or AI with automatic offline fallback
+export enum ChallengeSource {
+  AUTO = 'AUTO',
+  AI = 'AI',
+  OFFLINE = 'OFFLINE'
+}
+
+// UI language; card names and validation reasons come back in the same language
+export enum Locale {
+  AR = 'ar',
+  EN = 'en',
+  FR = 'fr'
+}
+
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  DAILY = 'DAILY',
+  CHAIN = 'CHAIN', // Each answer becomes card A of the next round
+  REVERSE = 'REVERSE' // Given the player, pick the cards they are linked to
+}
+
+// How answers are given: typed freely and checked by the server, or picked from four options
+export enum AnswerStyle {
+  TYPED = 'TYPED',
+  MULTIPLE_CHOICE = 'MULTIPLE_CHOICE'
+}
+
 export interface GameEntity {
   name: string;
   type: EntityType;
@@ -21,13 +48,80 @@ export interface GameEntity {
   color?: string; // Hex code
 }
 
+// Hint tiers, in the order they are revealed: each one gives away more about the linking player
+export enum HintType {
+  NATIONALITY = 'NATIONALITY',
+  POSITION = 'POSITION',
+  ERA = 'ERA',
+  INITIAL = 'INITIAL'
+}
+
+export enum PlayerPosition {
+  GOALKEEPER = 'GOALKEEPER',
+  DEFENDER = 'DEFENDER',
+  MIDFIELDER = 'MIDFIELDER',
+  FORWARD = 'FORWARD'
+}
+
+// Clues about one accepted answer; the browser receives them one tier at a time
+export interface ChallengeHints {
+  nationality?: string;
+  position?: PlayerPosition;
+  era?: { from: number; to: number }; // First and last season of the playing career
+  initial?: { letter: string; length: number }; // Length counts letters only, not spaces
+}
+
 export interface Challenge {
   id: string;
   cardA: GameEntity;
   cardB: GameEntity;
-  // We don't store the answer on the client to prevent cheating, 
-  // we validate via API, but we keep a hidden hint if needed later.
+  // Server-side only: the API strips the accepted answers before a challenge
+  // reaches the browser, and validation happens on the server by challenge id.
   possibleAnswers?: string[]; 
+  hints?: ChallengeHints; // Server-side only, handed out through /api/hint
+  hintTypes?: HintType[]; // The tiers available for this challenge, in reveal order
+  distractors?: string[]; // Server-side only: wrong answers the model suggested for multiple choice
+  choices?: string[]; // Multiple choice only
+  correctChoice?: number; // Server-side only: picks are judged through /api/validate like typed answers
+}
+
+// Reverse puzzle: one player and a grid of cards, of which the player is linked to `linkCount`
+export interface ReverseChallenge {
+  id: string;
+  player: GameEntity;
+  grid: GameEntity[];
+  linkCount: number;
+  // Server-side only, like a connect challenge's answers: the linked cards' names, and why each one links
+  possibleAnswers?: string[];
+  links?: { card: number; reason: string }[];
+}
+
+export const isReverseChallenge = (challenge: Challenge | ReverseChallenge): challenge is ReverseChallenge =>
+  'grid' in challenge;
+
+// Whether one of the cards is of the given kinds; asking for none fits any puzzle
+export const hasCardOfType = ({ cardA, cardB }: Pick<Challenge, 'cardA' | 'cardB'>, cardTypes: EntityType[] = []): boolean =>
+  cardTypes.length === 0 || cardTypes.includes(cardA.type) || cardTypes.includes(cardB.type);
+
+// The server's answer to a reverse puzzle's picks; the picks are scored against it in the browser
+export interface ReverseVerdict {
+  isValid: boolean; // Every linked card was picked, and nothing else
+  linkedCards: number[]; // Grid indexes of every linked card
+  reasons: string[]; // Why the player is linked to each of them, in the same order
+}
+
+// Which check decided a verdict: the local knowledge graph, the challenge's accepted answers, or the AI model
+export enum VerdictSource {
+  GRAPH = 'GRAPH',
+  ANSWER_LIST = 'ANSWER_LIST',
+  MODEL = 'MODEL'
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  reason: string;
+  matchedAnswer?: string; // For a correct answer: the player it was matched to, as the server names them
+  source?: VerdictSource;
 }
 
 export enum GameStatus {
@@ -35,20 +129,274 @@ export enum GameStatus {
   LOADING_CHALLENGE = 'LOADING_CHALLENGE',
   PLAYING = 'PLAYING',
   VALIDATING = 'VALIDATING',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  REVIEW = 'REVIEW',
+  STATS = 'STATS',
+  HEAD_TO_HEAD = 'HEAD_TO_HEAD' // A live match against a friend, run by the room server rather than the engine
+}
+
+export enum RoundOutcome {
+  SOLVED = 'SOLVED',
+  SKIPPED = 'SKIPPED',
+  TIMED_OUT = 'TIMED_OUT',
+  FAILED = 'FAILED', // Ran out of attempts (or lives) on this puzzle
+  PARTIAL = 'PARTIAL' // Reverse puzzles: answered with some links missed or wrong
+}
+
+export interface AnswerAttempt {
+  answer: string;
+  isCorrect: boolean;
+  reason: string;
+  source?: VerdictSource;
+  matchedAnswer?: string;
+}
+
+// Points for one solved round. Penalties are positive numbers that get subtracted;
+// the streak bonus is added on top of what is left.
+export interface RoundScore {
+  basePoints: number;
+  speedBonus: number;
+  hintPenalty: number;
+  attemptPenalty: number;
+  streakBonus: number;
+  streak: number; // Consecutive solved rounds, this one included
+  total: number;
+  timeBonus: number; // Seconds added to the clock
+}
+
+// One finished round, kept for the post-game review
+export interface RoundRecord {
+  challengeId: string;
+  cardA: GameEntity; // The player, in a reverse puzzle
+  cardB?: GameEntity; // Connect puzzles only
+  grid?: GameEntity[]; // Reverse puzzles only, with the cards picked and (once checked) the linked ones
+  picked?: number[];
+  linkedCards?: number[];
+  attempts: AnswerAttempt[];
+  outcome: RoundOutcome;
+  timeSpentMs: number; // Game-clock time only: pauses and waits on the server don't count
+  hintsUsed: HintType[];
+  score?: RoundScore; // Solved rounds, and reverse puzzles that were partly right
+  acceptedAnswers?: string[]; // Revealed by the server once the game is over
 }
 
 export interface GameState {
   status: GameStatus;
   score: number;
   timeLeft: number;
-  currentChallenge: Challenge | null;
+  currentChallenge: Challenge | ReverseChallenge | null;
   message: string | null;
   difficulty: Difficulty;
-  history: {
-    question: string;
-    answer: string;
-    isCorrect: boolean;
-  }[];
+  mode: GameMode;
+  history: RoundRecord[];
   seenEntities: string[]; // Track seen entities to avoid repetition
-}
\ No newline at end of file
+  livesLeft: number | null; // Only in modes whose penalty rules have lives
+}
+
+// Lifetime totals for one difficulty; rates and averages are derived when displayed
+export interface DifficultyStats {
+  bestScore: number;
+  gamesPlayed: number;
+  roundsPlayed: number;
+  roundsSolved: number;
+  roundsSkipped: number;
+  attempts: number;
+  correctAttempts: number;
+  totalSolveTimeMs: number;
+  longestStreak: number;
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  stats: Record<Difficulty, DifficultyStats>;
+}
+
+// A verified run on the server's leaderboard
+export interface LeaderboardEntry {
+  id: string;
+  nickname: string;
+  score: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  date: string; // UTC day the run was submitted, YYYY-MM-DD
+  submittedAt: number;
+  rounds: number;
+  solved: number;
+}
+
+export type BoardPeriod = 'daily' | 'all-time';
+
+// Where a submitted run landed (1 is the top) on today's board and the all-time one
+export interface BoardRanks {
+  daily: number;
+  allTime: number;
+}
+
+// --- Head-to-head rooms (see server/rooms.ts) ---
+
+export enum RoomPhase {
+  LOBBY = 'LOBBY',
+  LOADING = 'LOADING', // The server is fetching the next round
+  ROUND = 'ROUND',
+  ROUND_OVER = 'ROUND_OVER',
+  FINISHED = 'FINISHED'
+}
+
+export enum RoomError {
+  ROOM_NOT_FOUND = 'ROOM_NOT_FOUND',
+  ROOM_FULL = 'ROOM_FULL',
+  MATCH_RUNNING = 'MATCH_RUNNING',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  INVALID_NAME = 'INVALID_NAME',
+  ROUND_FAILED = 'ROUND_FAILED'
+}
+
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  score: number; // Rounds won
+  connected: boolean;
+  isHost: boolean;
+}
+
+export interface RoomRoundResult {
+  winnerId: string | null; // Null when the clock ran out
+  answer: string | null; // The winning answer, as the server matched it
+  acceptedAnswers: string[];
+}
+
+export interface RoomSettings {
+  difficulty: Difficulty;
+  source: ChallengeSource;
+  locale: Locale;
+  rounds: number;
+}
+
+// Everything a player needs to draw the room; sent again after every change
+export interface RoomSnapshot {
+  code: string;
+  phase: RoomPhase;
+  settings: RoomSettings;
+  players: RoomPlayer[];
+  roundNumber: number; // 1-based once the match started
+  challenge: Challenge | null; // Cards only, as for solo games
+  remainingMs: number; // On the server's round clock, when the snapshot was sent
+  paused: boolean; // A player lost connection; the clock waits for them
+  result: RoomRoundResult | null; // Of the last round
+}
+
+export type RoomClientMessage =
+  | { type: 'create'; name: string; settings: RoomSettings }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'resume'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'answer'; id: number; answer: string }
+  | { type: 'leave' };
+
+export type RoomServerMessage =
+  | { type: 'joined'; code: string; playerId: string; token: string } // The token resumes the seat after a disconnect
+  | { type: 'room'; room: RoomSnapshot }
+  | { type: 'verdict'; id: number; result: Pick<ValidationResult, 'isValid' | 'reason'> } // Nothing more while the round is live
+  | { type: 'checkFailed'; id: number } // No verdict (the judge is down): the answer doesn't count, the player can send it again
+  | { type: 'error'; error: RoomError };
+
+// --- Quiz night (see server/quizNight.ts) ---
+
+// What a round's cards are about; a round fits a theme when one of its cards is of that kind
+export enum QuizTheme {
+  CLUBS = 'CLUBS',
+  NATIONAL_TEAMS = 'NATIONAL_TEAMS',
+  COACHES = 'COACHES',
+  TROPHIES = 'TROPHIES',
+  YEARS = 'YEARS'
+}
+
+export enum QuizPhase {
+  LOBBY = 'LOBBY',
+  LOADING = 'LOADING',
+  OPEN = 'OPEN', // Cards on screen, buzzers open
+  BUZZED = 'BUZZED', // A team has the floor; the host judges its answer
+  REVEALED = 'REVEALED', // Round over, answers on screen; the host moves on
+  FINISHED = 'FINISHED'
+}
+
+// Who is on the other end: the host's control panel, the projector, or a team's phone
+export enum QuizRole {
+  HOST = 'HOST',
+  SCREEN = 'SCREEN',
+  TEAM = 'TEAM'
+}
+
+export enum QuizError {
+  QUIZ_NOT_FOUND = 'QUIZ_NOT_FOUND',
+  QUIZ_FULL = 'QUIZ_FULL',
+  NAME_TAKEN = 'NAME_TAKEN',
+  INVALID_NAME = 'INVALID_NAME',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
+  ROUND_FAILED = 'ROUND_FAILED',
+  QUIZ_CLOSED = 'QUIZ_CLOSED'
+}
+
+export interface QuizSettings {
+  difficulty: Difficulty;
+  source: ChallengeSource;
+  locale: Locale;
+  rounds: number;
+  themes: QuizTheme[]; // None: any round
+  points: number; // For a correct answer
+}
+
+export interface QuizTeam {
+  id: string;
+  name: string;
+  score: number;
+  connected: boolean;
+}
+
+export interface QuizBuzz {
+  teamId: string;
+  answer: string | null; // Until the team has typed it
+}
+
+export interface QuizSnapshot {
+  code: string;
+  phase: QuizPhase;
+  settings: QuizSettings;
+  teams: QuizTeam[];
+  roundNumber: number;
+  challenge: Challenge | null; // Cards only
+  buzz: QuizBuzz | null;
+  lockedOut: string[]; // Teams that answered wrong this round
+  result: { teamId: string | null; acceptedAnswers: string[] } | null; // Of the round just revealed
+  // Only in the host's copy: what it needs to judge an answer
+  host?: {
+    acceptedAnswers: string[];
+    suggestion: ValidationResult | null; // The validator's verdict on the buzzing team's answer, once checked
+  };
+}
+
+export type QuizClientMessage =
+  | { type: 'host'; settings: QuizSettings }
+  | { type: 'watch'; code: string }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'resume'; code: string; token: string }
+  // The host's controls
+  | { type: 'settings'; settings: QuizSettings }
+  | { type: 'start' }
+  | { type: 'accept' }
+  | { type: 'reject' }
+  | { type: 'reveal' }
+  | { type: 'next' }
+  | { type: 'award'; teamId: string; points: number }
+  | { type: 'end' }
+  // A team's buzzer
+  | { type: 'buzz' }
+  | { type: 'answer'; answer: string }
+  | { type: 'leave' };
+
+export type QuizServerMessage =
+  | { type: 'joined'; code: string; role: QuizRole; teamId: string | null; token: string | null }
+  | { type: 'quiz'; quiz: QuizSnapshot }
+  | { type: 'error'; error: QuizError };
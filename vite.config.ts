@@ -8,12 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key lives in the backend (server/index.ts); the browser only talks to /api.
+        // ws: the head-to-head rooms and quiz nights are WebSockets under /api too.
+        // xfwd: the API tells players apart by address, which it would otherwise only see as the proxy's
+        proxy: {
+          '/api': { target: env.API_URL || 'http://localhost:8787', ws: true, xfwd: true },
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),